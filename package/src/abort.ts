@@ -0,0 +1,102 @@
+/**
+ * Cancellation helpers shared by the HTTP client and the long-running helpers
+ * built on top of it. Kept free of Node-only APIs so the package still works in
+ * browsers.
+ */
+
+import { AtlasTimeoutError } from "./errors.js";
+
+/** A cancellation scope for one client call: the caller's signal plus an optional timeout. */
+export interface Deadline {
+  /** Aborts when the caller aborts or the timeout elapses; undefined when neither applies. */
+  readonly signal?: AbortSignal;
+  /** Map an error thrown inside the scope to `AtlasTimeoutError` when the timeout fired. */
+  translate(error: unknown): unknown;
+  /** Clear the timer and detach from the caller's signal. */
+  dispose(): void;
+}
+
+export function createDeadline(signal: AbortSignal | undefined, timeoutMs: number | undefined): Deadline {
+  if (timeoutMs === undefined || timeoutMs <= 0 || !Number.isFinite(timeoutMs)) {
+    return { signal, translate: (error) => error, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const timeoutError = new AtlasTimeoutError(timeoutMs);
+  let timedOut = false;
+  const onParentAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", onParentAbort, { once: true });
+  }
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(timeoutError);
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    translate: (error) => (timedOut ? timeoutError : error),
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onParentAbort);
+    },
+  };
+}
+
+/** The error a fetch would reject with for this aborted signal. */
+export function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error("This operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Reject as soon as `signal` aborts, even if `promise` never settles (e.g. a
+ * custom `fetchImpl` that ignores `init.signal`).
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(abortReason(signal));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/** Wait `ms` milliseconds, rejecting early if `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,379 @@
+/**
+ * Edge runtime for assets: check in on an interval, pick up new tasks, and run
+ * them through registered command handlers with the task lifecycle calls made
+ * automatically.
+ */
+
+import type { AtlasHttpClient, JsonRecord } from "./httpClient.js";
+import type { TelemetryComponent } from "./types/components.js";
+import type { SerializedTask } from "./types/entities.js";
+import { TypedEmitter } from "./emitter.js";
+import { AtlasConflictError, AtlasTaskTransitionError } from "./errors.js";
+
+export type AssetAgentSource = Pick<
+  AtlasHttpClient,
+  "checkinEntity" | "acknowledgeTask" | "transitionTaskStatus" | "completeTask" | "failTask"
+>;
+
+export interface TaskContext {
+  /** Aborted when the agent stops and its grace period runs out. */
+  signal: AbortSignal;
+  /**
+   * Report progress with `transitionTaskStatus(taskId, "in_progress", ...)`.
+   * Failures are emitted as `error` rather than thrown.
+   */
+  progress(percent: number, message?: string): Promise<void>;
+}
+
+/**
+ * Runs one task. The returned record is passed to `completeTask` as the
+ * result; throwing (or rejecting) fails the task with the error's message.
+ */
+export type TaskHandler = (
+  task: SerializedTask,
+  context: TaskContext,
+) => Promise<JsonRecord | void> | JsonRecord | void;
+
+export interface AssetAgentOptions {
+  /** Delay between the end of one check-in and the start of the next (default 5000). */
+  checkinIntervalMs?: number;
+  /** Tasks run at once; further tasks stay pending on the server until a slot frees up (default 1). */
+  maxConcurrentTasks?: number;
+  /** Telemetry sent with each check-in. */
+  telemetry?: () => TelemetryComponent | Promise<TelemetryComponent>;
+  /** Status value sent with each check-in. */
+  status?: () => string | undefined;
+  /** Task statuses to pick up (default `"pending,acknowledged"`). */
+  statusFilter?: string;
+  /** Resume from this task `updated_at` instead of seeing every open task again. */
+  since?: string;
+  /** What to do with tasks whose command type has no handler (default `"fail"`). */
+  unhandledCommands?: "fail" | "ignore";
+  /** Deadline for each individual request in milliseconds. */
+  timeoutMs?: number;
+}
+
+export interface AgentCheckinEvent {
+  /** Tasks the check-in returned, including ones already running. */
+  tasks: SerializedTask[];
+  /** `since` for the next check-in. */
+  since?: string;
+}
+
+export interface AgentTaskEvent {
+  task: SerializedTask;
+}
+
+export interface AgentTaskCompletedEvent extends AgentTaskEvent {
+  result?: JsonRecord;
+}
+
+export interface AgentTaskFailedEvent extends AgentTaskEvent {
+  error: unknown;
+}
+
+export interface AssetAgentEvents {
+  checkin: AgentCheckinEvent;
+  taskStarted: AgentTaskEvent;
+  taskCompleted: AgentTaskCompletedEvent;
+  taskFailed: AgentTaskFailedEvent;
+  /**
+   * A check-in or lifecycle call failed, or another event's listener threw; the
+   * agent carries on either way. Errors thrown by `error` listeners are dropped.
+   */
+  error: unknown;
+}
+
+export interface AssetAgentStopOptions {
+  /**
+   * How long running handlers may keep going before their `signal` is aborted.
+   * Without it, `stop` waits for every handler to finish.
+   */
+  graceMs?: number;
+}
+
+const DEFAULT_CHECKIN_INTERVAL_MS = 5000;
+const DEFAULT_STATUS_FILTER = "pending,acknowledged";
+/** Finished task ids remembered so a late repeat from check-in is not run twice. */
+const FINISHED_MEMORY = 1000;
+
+function commandType(task: SerializedTask): string | undefined {
+  const command = task.components.command as { type?: unknown } | undefined;
+  return typeof command?.type === "string" ? command.type : undefined;
+}
+
+/** The move was refused because someone else changed the task first. */
+function isTaskConflict(error: unknown): boolean {
+  return error instanceof AtlasConflictError || error instanceof AtlasTaskTransitionError;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Checks in as one entity and runs the tasks it receives.
+ *
+ * Each task is acknowledged (when still pending), moved to `in_progress`, and
+ * handed to the handler registered for its `command.type`. The handler's
+ * result completes the task, and a thrown error fails it. Tasks beyond
+ * `maxConcurrentTasks` are left untouched and `since` is held back so the next
+ * check-in returns them again. The same happens to a task whose acknowledge or
+ * start fails with anything but a conflict (a 409 or `AtlasTaskTransitionError`),
+ * such as a timeout or a 5xx.
+ */
+export class AssetAgent extends TypedEmitter<AssetAgentEvents> {
+  private readonly handlers = new Map<string, TaskHandler>();
+  private readonly active = new Map<string, Promise<void>>();
+  private readonly finished = new Set<string>();
+  private readonly maxConcurrentTasks: number;
+  private readonly checkinIntervalMs: number;
+  private readonly controller = new AbortController();
+  private cursor?: string;
+  private running = false;
+  private stopping = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private cycle?: Promise<void>;
+
+  constructor(
+    private readonly source: AssetAgentSource,
+    readonly entityId: string,
+    private readonly options: AssetAgentOptions = {},
+  ) {
+    super();
+    this.maxConcurrentTasks = Math.max(1, options.maxConcurrentTasks ?? 1);
+    this.checkinIntervalMs = options.checkinIntervalMs ?? DEFAULT_CHECKIN_INTERVAL_MS;
+    this.cursor = options.since;
+  }
+
+  /** `since` sent with the next check-in. */
+  get since(): string | undefined {
+    return this.cursor;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Ids of the tasks currently being handled. */
+  get activeTasks(): string[] {
+    return [...this.active.keys()];
+  }
+
+  /** Register the handler for a `CommandComponent.type`; returns a function that removes it. */
+  handle(commandType: string, handler: TaskHandler): () => void {
+    this.handlers.set(commandType, handler);
+    return () => {
+      if (this.handlers.get(commandType) === handler) this.handlers.delete(commandType);
+    };
+  }
+
+  /**
+   * Check in now, then every `checkinIntervalMs`. Rejects (and leaves the agent
+   * stopped) if the first check-in fails.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    if (this.stopping) {
+      throw new Error("AssetAgent cannot be restarted after stop().");
+    }
+    this.running = true;
+    try {
+      await this.checkin();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    this.schedule();
+  }
+
+  /**
+   * Stop checking in and wait for running tasks. With `graceMs`, handlers still
+   * running after that long are aborted through their `signal`.
+   */
+  async stop(options: AssetAgentStopOptions = {}): Promise<void> {
+    this.running = false;
+    this.stopping = true;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.cycle?.catch(() => undefined);
+    let grace: ReturnType<typeof setTimeout> | undefined;
+    if (options.graceMs !== undefined && this.active.size > 0) {
+      grace = setTimeout(
+        () => this.controller.abort(new Error("AssetAgent stopped")),
+        options.graceMs,
+      );
+    }
+    try {
+      await Promise.allSettled([...this.active.values()]);
+    } finally {
+      if (grace !== undefined) clearTimeout(grace);
+      if (!this.controller.signal.aborted) this.controller.abort(new Error("AssetAgent stopped"));
+    }
+  }
+
+  /** Run one check-in now. Concurrent calls share the same request. */
+  checkin(): Promise<void> {
+    this.cycle ??= this.runCheckin().finally(() => {
+      this.cycle = undefined;
+    });
+    return this.cycle;
+  }
+
+  private schedule(): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.checkin()
+        .catch((error) => {
+          if (this.running) this.notify("error", error);
+        })
+        .finally(() => this.schedule());
+    }, this.checkinIntervalMs);
+  }
+
+  private async runCheckin(): Promise<void> {
+    const { timeoutMs } = this.options;
+    const telemetry = (await this.options.telemetry?.()) ?? {};
+    const response = await this.source.checkinEntity(
+      this.entityId,
+      telemetry,
+      {
+        status: this.options.status?.(),
+        status_filter: this.options.statusFilter ?? DEFAULT_STATUS_FILTER,
+        since: this.cursor,
+      },
+      { timeoutMs },
+    );
+
+    let seen: number | undefined;
+    let deferred: number | undefined;
+    for (const task of response.tasks) {
+      const updatedAt = Date.parse(task.metadata.updated_at ?? "");
+      const known = this.active.has(task.task_id) || this.finished.has(task.task_id);
+      if (!known && (this.stopping || this.active.size >= this.maxConcurrentTasks)) {
+        if (Number.isFinite(updatedAt)) deferred = Math.min(deferred ?? updatedAt, updatedAt);
+        continue;
+      }
+      if (Number.isFinite(updatedAt)) seen = Math.max(seen ?? updatedAt, updatedAt);
+      if (!known) this.accept(task);
+    }
+    // Check-in returns tasks updated strictly after `since`; stop just short of
+    // the first deferred task so it comes back next time.
+    const next = deferred !== undefined ? Math.min(seen ?? deferred, deferred - 1) : seen;
+    if (next !== undefined && (this.cursor === undefined || next > Date.parse(this.cursor))) {
+      this.cursor = new Date(next).toISOString();
+    }
+    this.notify("checkin", { tasks: response.tasks, since: this.cursor });
+  }
+
+  private accept(task: SerializedTask): void {
+    const handler = this.handlers.get(commandType(task) ?? "");
+    if (!handler && this.options.unhandledCommands === "ignore") return;
+    const run = this.run(task, handler)
+      .catch((error) => {
+        this.notify("error", error);
+        return true;
+      })
+      .then((done) => {
+        this.active.delete(task.task_id);
+        if (!done) {
+          this.rewind(task);
+          return;
+        }
+        this.finished.add(task.task_id);
+        if (this.finished.size > FINISHED_MEMORY) {
+          this.finished.delete(this.finished.values().next().value!);
+        }
+      });
+    this.active.set(task.task_id, run);
+  }
+
+  /** Resolves false when the task could not be started and should be picked up again. */
+  private async run(task: SerializedTask, handler: TaskHandler | undefined): Promise<boolean> {
+    const { timeoutMs } = this.options;
+    const taskId = task.task_id;
+    if (!handler) {
+      const error = new Error(`No handler registered for command type '${commandType(task) ?? ""}'`);
+      await this.fail(task, error);
+      return true;
+    }
+    try {
+      if (task.status === "pending") await this.source.acknowledgeTask(taskId, { timeoutMs });
+      await this.source.transitionTaskStatus(taskId, "in_progress", undefined, { timeoutMs });
+    } catch (error) {
+      this.notify("error", error);
+      // A conflict means another agent or an operator changed the task first;
+      // anything else (timeouts, 5xx, dropped connections) is worth another try.
+      return isTaskConflict(error);
+    }
+
+    this.notify("taskStarted", { task });
+    const context: TaskContext = {
+      signal: this.controller.signal,
+      progress: async (percent, message) => {
+        try {
+          await this.source.transitionTaskStatus(
+            taskId,
+            "in_progress",
+            { progress: percent, message },
+            { timeoutMs },
+          );
+        } catch (error) {
+          this.notify("error", error);
+        }
+      },
+    };
+
+    let result: JsonRecord | undefined;
+    try {
+      result = (await handler(task, context)) ?? undefined;
+    } catch (error) {
+      await this.fail(task, error);
+      return true;
+    }
+    try {
+      await this.source.completeTask(taskId, result, { timeoutMs });
+      this.notify("taskCompleted", { task, result });
+    } catch (error) {
+      this.notify("error", error);
+    }
+    return true;
+  }
+
+  /** Move `since` back far enough for the next check-in to return `task` again. */
+  private rewind(task: SerializedTask): void {
+    const updatedAt = Date.parse(task.metadata.updated_at ?? "");
+    if (!Number.isFinite(updatedAt) || this.cursor === undefined) return;
+    if (updatedAt - 1 < Date.parse(this.cursor)) {
+      this.cursor = new Date(updatedAt - 1).toISOString();
+    }
+  }
+
+  /**
+   * Emit without letting a listener break the task lifecycle: a throwing
+   * listener is reported as `error`, and one thrown by an `error` listener is
+   * dropped.
+   */
+  private notify<E extends keyof AssetAgentEvents>(event: E, payload: AssetAgentEvents[E]): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      if (event !== "error") this.notify("error", error);
+    }
+  }
+
+  private async fail(task: SerializedTask, error: unknown): Promise<void> {
+    const details = error instanceof Error ? { name: error.name } : undefined;
+    try {
+      await this.source.failTask(task.task_id, errorMessage(error), details, {
+        timeoutMs: this.options.timeoutMs,
+      });
+    } catch (failError) {
+      this.notify("error", failError);
+    }
+    this.notify("taskFailed", { task, error });
+  }
+}
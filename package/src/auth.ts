@@ -0,0 +1,44 @@
+/**
+ * Bearer token caching for `ClientOptions.tokenProvider`.
+ */
+
+/** Returns a fresh bearer token; called lazily and again after a 401. */
+export type TokenProvider = () => Promise<string>;
+
+/**
+ * Caches the provider's token and deduplicates refreshes, so a burst of
+ * concurrent 401s triggers a single provider call.
+ */
+export class TokenCache {
+  private token?: string;
+  private pending?: Promise<string>;
+
+  constructor(private readonly provider: TokenProvider) {}
+
+  get(): Promise<string> {
+    if (this.token !== undefined) {
+      return Promise.resolve(this.token);
+    }
+    if (!this.pending) {
+      this.pending = this.provider()
+        .then((token) => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Drop `rejected` if it is still the cached token. Requests that failed with
+   * an older token leave a newer, already refreshed token in place.
+   */
+  invalidate(rejected: string): void {
+    if (this.token === rejected) {
+      this.token = undefined;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Persistence for changed-since sync progress, so a restarted worker resumes
+ * where it stopped instead of replaying the full dataset.
+ */
+
+import type { ChangedSinceResume } from "./changedSince.js";
+import { AtlasCheckpointError } from "./errors.js";
+
+/** Sync position: the `since` being drained and, while a drain is incomplete, where to continue. */
+export interface SyncCheckpoint {
+  /** `since` of the current changed-since drain, or the next one once it completed. */
+  since: string;
+  /** Cursors and first-response timestamp of an interrupted drain of `since`. */
+  resume?: ChangedSinceResume;
+}
+
+/** Where `runResumableSync` loads and saves its checkpoint. */
+export interface CheckpointStore {
+  /** Resolve undefined when nothing was saved yet; reject when the stored checkpoint is unusable. */
+  load(): Promise<SyncCheckpoint | undefined>;
+  /** Replace the stored checkpoint. Must be atomic: a crash leaves either the old or the new one. */
+  save(checkpoint: SyncCheckpoint): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const CURSOR_KEYS = [
+  "entityCursor",
+  "taskCursor",
+  "objectCursor",
+  "deletedEntityCursor",
+  "deletedTaskCursor",
+  "deletedObjectCursor",
+] as const;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+/** Validate an untrusted value (e.g. parsed JSON) as a checkpoint; throws `AtlasCheckpointError`. */
+export function parseCheckpoint(value: unknown, location: string): SyncCheckpoint {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new AtlasCheckpointError(location, "expected an object");
+  }
+  const record = value as Record<string, unknown>;
+  if (!isNonEmptyString(record.since)) {
+    throw new AtlasCheckpointError(location, "'since' must be a non-empty string");
+  }
+  if (record.resume === undefined) {
+    return { since: record.since };
+  }
+  const resume = record.resume as Record<string, unknown> | null;
+  if (!resume || typeof resume !== "object" || !isNonEmptyString(resume.timestamp)) {
+    throw new AtlasCheckpointError(location, "'resume.timestamp' must be a non-empty string");
+  }
+  const cursors = resume.cursors as Record<string, unknown> | null;
+  if (!cursors || typeof cursors !== "object" || Array.isArray(cursors)) {
+    throw new AtlasCheckpointError(location, "'resume.cursors' must be an object");
+  }
+  const parsed: ChangedSinceResume = { timestamp: resume.timestamp, cursors: {} };
+  for (const key of CURSOR_KEYS) {
+    const cursor = cursors[key];
+    if (cursor === undefined) continue;
+    if (!isNonEmptyString(cursor)) {
+      throw new AtlasCheckpointError(location, `'resume.cursors.${key}' must be a non-empty string`);
+    }
+    parsed.cursors[key] = cursor;
+  }
+  return { since: record.since, resume: parsed };
+}
+
+/** Keeps the checkpoint in memory; useful for tests and single-process jobs. */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private serialized?: string;
+
+  constructor(initial?: SyncCheckpoint) {
+    if (initial) this.serialized = JSON.stringify(initial);
+  }
+
+  async load(): Promise<SyncCheckpoint | undefined> {
+    return this.serialized === undefined
+      ? undefined
+      : parseCheckpoint(JSON.parse(this.serialized), "memory");
+  }
+
+  async save(checkpoint: SyncCheckpoint): Promise<void> {
+    this.serialized = JSON.stringify(checkpoint);
+  }
+
+  async clear(): Promise<void> {
+    this.serialized = undefined;
+  }
+}
+
+/**
+ * Stores the checkpoint as JSON at `filePath` (Node.js only). Saves write a
+ * sibling temp file, fsync it, then rename it over the target.
+ */
+export class JsonFileCheckpointStore implements CheckpointStore {
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<SyncCheckpoint | undefined> {
+    const fs = await import("node:fs/promises");
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new AtlasCheckpointError(this.filePath, "not valid JSON", error);
+    }
+    return parseCheckpoint(value, this.filePath);
+  }
+
+  async save(checkpoint: SyncCheckpoint): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      const handle = await fs.open(tempPath, "w");
+      try {
+        await handle.writeFile(`${JSON.stringify(checkpoint, null, 2)}\n`, "utf8");
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import("node:fs/promises");
+    await fs.rm(this.filePath, { force: true });
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Small structural checkers shared by the frame codec and response
+ * validation. Each check appends path-precise issues instead of throwing, so
+ * callers can report every problem in a payload at once.
+ */
+
+export interface ValidationIssue {
+  /** Dotted path to the offending value, e.g. `payload.entities.entities[2].entity_id`; empty for the value itself. */
+  path: string;
+  message: string;
+}
+
+/** Appends issues for `value` found at `path`. */
+export type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+export interface Field {
+  check: Check;
+  required: boolean;
+}
+
+export type Shape = Record<string, Check | Field>;
+
+export function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+export const string: Check = (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push({ path, message: `expected a string, got ${describe(value)}` });
+  }
+};
+
+export const number: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected a number, got ${describe(value)}` });
+  }
+};
+
+/** A finite number within `[min, max]`. */
+export function range(min: number, max: number): Check {
+  return (value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ path, message: `expected a number, got ${describe(value)}` });
+    } else if (value < min || value > max) {
+      const bounds =
+        max === Number.POSITIVE_INFINITY ? `at least ${min}` : `between ${min} and ${max}`;
+      issues.push({ path, message: `expected a number ${bounds}, got ${value}` });
+    }
+  };
+}
+
+const RFC3339 = /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/;
+
+function isRfc3339(value: string): boolean {
+  const match = RFC3339.exec(value);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const offsetHour = match[8] === undefined ? 0 : Number(match[8]);
+  const offsetMinute = match[9] === undefined ? 0 : Number(match[9]);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return (
+    month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+    hour <= 23 && minute <= 59 && second <= 60 && offsetHour <= 23 && offsetMinute <= 59
+  );
+}
+
+/** An RFC 3339 date-time string, e.g. `2025-01-01T12:00:00Z`. */
+export const timestamp: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !isRfc3339(value)) {
+    issues.push({ path, message: `expected an RFC 3339 timestamp, got ${JSON.stringify(value) ?? "undefined"}` });
+  }
+};
+
+export const boolean: Check = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: `expected a boolean, got ${describe(value)}` });
+  }
+};
+
+/** Any JSON object; its keys are not inspected. */
+export const record: Check = (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+  }
+};
+
+export function required(check: Check): Field {
+  return { check, required: true };
+}
+
+/** `check`, or an explicit `null`. */
+export function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  };
+}
+
+export function oneOf(values: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      issues.push({ path, message: `expected one of ${values.join(", ")}, got ${JSON.stringify(value)}` });
+    }
+  };
+}
+
+export function arrayOf(item: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array, got ${describe(value)}` });
+      return;
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`, issues));
+  };
+}
+
+/**
+ * An object whose listed keys are checked; fields are optional unless wrapped in
+ * `required`, and `undefined` counts as absent. Unlisted keys pass through so
+ * newer servers can add fields.
+ */
+export function object(shape: Shape): Check {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return;
+    }
+    for (const [key, spec] of Object.entries(shape)) {
+      const field = typeof spec === "function" ? { check: spec, required: false } : spec;
+      const fieldPath = join(path, key);
+      if (value[key] === undefined) {
+        if (field.required) issues.push({ path: fieldPath, message: "is required" });
+        continue;
+      }
+      field.check(value[key], fieldPath, issues);
+    }
+  };
+}
+
+/** Run `check` against `value` at the root and return every issue found. */
+export function collectIssues(check: Check, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  check(value, "", issues);
+  return issues;
+}
@@ -0,0 +1,121 @@
+/**
+ * Command type registry: the `parameters_schema` each `command.type` is checked
+ * against at runtime, and the `CommandParameterTypes` hook that types
+ * `createTask<"goto">(...)` at compile time.
+ */
+
+import type { CommandComponent, TaskProgressComponent } from "./types/components.js";
+import type { CommandDefinition } from "./types/entities.js";
+import { taskComponentIssues } from "./componentValidation.js";
+import { schemaIssues } from "./jsonSchema.js";
+import type { JsonSchema } from "./jsonSchema.js";
+import { AtlasComponentValidationError } from "./errors.js";
+import type { ValidationIssue } from "./checks.js";
+
+/**
+ * Parameter types of registered command types, keyed by `command.type`. Empty
+ * by default; add entries through declaration merging:
+ *
+ * ```ts
+ * declare module "@atlasnpm/atlas-api-helper" {
+ *   interface CommandParameterTypes {
+ *     goto: { latitude: number; longitude: number; speed_m_s?: number };
+ *   }
+ * }
+ * ```
+ */
+export interface CommandParameterTypes {}
+
+export type RegisteredCommand = Extract<keyof CommandParameterTypes, string>;
+
+/** `parameters` is optional only when every parameter of the command is. */
+type ParametersField<P> = {} extends P ? { parameters?: P } : { parameters: P };
+
+/** Task components for command type `C`, with `parameters` typed from `CommandParameterTypes`. */
+export type CommandTaskComponents<C extends RegisteredCommand> = {
+  command: CommandComponent & { type: C };
+  progress?: TaskProgressComponent;
+  /** Custom components must be prefixed with custom_ */
+  [key: `custom_${string}`]: unknown;
+} & ParametersField<CommandParameterTypes[C]>;
+
+/** What the registry needs from a command definition. */
+export type CommandRegistration = Pick<CommandDefinition, "name"> & {
+  parameters_schema?: JsonSchema;
+};
+
+export interface CommandRegistryOptions {
+  /** Let command types that were never registered through, checked as plain `TaskComponents` (default false). */
+  allowUnknown?: boolean;
+}
+
+/**
+ * Command types a client accepts, each with an optional JSON Schema for its
+ * `parameters` component. Pass it as `ClientOptions.commands`.
+ *
+ * Parameters of a command with a schema are validated against that schema
+ * instead of `TaskParametersComponent`, so they are not limited to
+ * lat/lng/alt and `custom_*` keys. The schema is evaluated by the same subset
+ * validator as `validateAgainstSchema`; keywords it does not know are ignored.
+ */
+export class CommandRegistry {
+  private readonly definitions = new Map<string, CommandRegistration>();
+  readonly allowUnknown: boolean;
+
+  constructor(definitions: Iterable<CommandRegistration> = [], options: CommandRegistryOptions = {}) {
+    this.allowUnknown = options.allowUnknown ?? false;
+    for (const definition of definitions) this.register(definition);
+  }
+
+  /** Add a command type, replacing any earlier definition with the same name. */
+  register(definition: CommandRegistration): this {
+    if (typeof definition.name !== "string" || definition.name.length === 0) {
+      throw new TypeError("Command definitions need a non-empty name to be registered.");
+    }
+    this.definitions.set(definition.name, definition);
+    return this;
+  }
+
+  get(name: string): CommandRegistration | undefined {
+    return this.definitions.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get names(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Every problem with `components` as a task for one of these commands; empty
+   * when valid. Components without a `command.type` are checked as plain
+   * `TaskComponents`.
+   */
+  taskComponentIssues(components: Record<string, unknown>): ValidationIssue[] {
+    const command = components.command as { type?: unknown } | undefined;
+    const type = typeof command?.type === "string" ? command.type : undefined;
+    const definition = type === undefined ? undefined : this.definitions.get(type);
+    if (definition?.parameters_schema === undefined) {
+      const issues = taskComponentIssues(components);
+      if (type !== undefined && !definition && !this.allowUnknown) {
+        issues.unshift({ path: "command.type", message: `'${type}' is not a registered command type` });
+      }
+      return issues;
+    }
+    const { parameters = {}, ...rest } = components;
+    return [
+      ...taskComponentIssues(rest),
+      ...schemaIssues(definition.parameters_schema, parameters, "parameters"),
+    ];
+  }
+
+  /** Throw `AtlasComponentValidationError` listing every `taskComponentIssues` entry. */
+  validateTaskComponents(components: Record<string, unknown>): void {
+    const issues = this.taskComponentIssues(components);
+    if (issues.length > 0) {
+      throw new AtlasComponentValidationError("task", issues);
+    }
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * JSON Schema (draft 2020-12) documents for the typed component model in
+ * `types/components.ts`. Ranges, enums and required fields mirror
+ * `componentValidation.ts`; the one rule JSON Schema cannot express is that a
+ * GeoJSON polygon ring must be closed.
+ *
+ * The documents are plain JSON (`as const`), so they can be served, written to
+ * disk or handed to another validator unchanged. `tests/componentSchemas.test.ts`
+ * checks them against the TypeScript types for drift.
+ */
+
+import { schemaIssues } from "./jsonSchema.js";
+import type { JsonSchema } from "./jsonSchema.js";
+import type { ValidationIssue } from "./checks.js";
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+const ID_PREFIX = "urn:atlas-command:schema:";
+
+/** Keys matching this pattern are custom components, parameters or metadata fields. */
+export const CUSTOM_KEY_PATTERN = "^custom_";
+
+function schemaDocument<const Title extends string, const Body extends object>(title: Title, body: Body) {
+  return { $schema: DRAFT_2020_12, $id: `${ID_PREFIX}${title}` as const, title, ...body };
+}
+
+/** `properties` entries that reject a field outright. */
+function forbidden<const Key extends string>(...keys: Key[]): { readonly [K in Key]: false } {
+  return Object.fromEntries(keys.map((key) => [key, false])) as { readonly [K in Key]: false };
+}
+
+const latitude = { type: "number", minimum: -90, maximum: 90 } as const;
+const longitude = { type: "number", minimum: -180, maximum: 180 } as const;
+const percent = { type: "number", minimum: 0, maximum: 100 } as const;
+const dateTime = { type: "string", format: "date-time" } as const;
+const nonEmptyString = { type: "string", minLength: 1 } as const;
+const stringArray = { type: "array", items: { type: "string" } } as const;
+
+/** ATLAS vertices are `[lat, lng]`. */
+const latLngPair = {
+  type: "array",
+  prefixItems: [latitude, longitude],
+  minItems: 2,
+  items: false,
+} as const;
+
+/** GeoJSON positions are `[lng, lat]` or `[lng, lat, alt]`. */
+const position = {
+  type: "array",
+  prefixItems: [longitude, latitude, { type: "number" }],
+  minItems: 2,
+  items: false,
+} as const;
+
+// === Entity components ===
+
+const telemetry = {
+  description: "Position and motion data for entities.",
+  type: "object",
+  properties: {
+    latitude,
+    longitude,
+    altitude_m: { type: "number" },
+    speed_m_s: { type: "number", minimum: 0 },
+    heading_deg: { type: "number", minimum: 0, maximum: 360 },
+  },
+} as const;
+
+const geometry = {
+  description: "Geometry for geofeature entities, in ATLAS or GeoJSON-like form.",
+  type: "object",
+  oneOf: [
+    {
+      properties: {
+        type: { const: "point" },
+        point_lat: latitude,
+        point_lng: longitude,
+        ...forbidden("radius_m", "polygon", "line", "coordinates"),
+      },
+      required: ["point_lat", "point_lng"],
+    },
+    {
+      properties: {
+        type: { const: "circle" },
+        point_lat: latitude,
+        point_lng: longitude,
+        radius_m: { type: "number", exclusiveMinimum: 0 },
+        ...forbidden("polygon", "line", "coordinates"),
+      },
+      required: ["point_lat", "point_lng", "radius_m"],
+    },
+    {
+      properties: {
+        type: { const: "polygon" },
+        polygon: { type: "array", items: latLngPair, minItems: 3 },
+        ...forbidden("point_lat", "point_lng", "radius_m", "line", "coordinates"),
+      },
+      required: ["polygon"],
+    },
+    {
+      properties: {
+        type: { const: "line" },
+        line: { type: "array", items: latLngPair, minItems: 2 },
+        ...forbidden("point_lat", "point_lng", "radius_m", "polygon", "coordinates"),
+      },
+      required: ["line"],
+    },
+    {
+      properties: {
+        type: { const: "Point" },
+        coordinates: position,
+        ...forbidden("point_lat", "point_lng", "radius_m", "polygon", "line"),
+      },
+      required: ["type", "coordinates"],
+    },
+    {
+      properties: {
+        type: { const: "LineString" },
+        coordinates: { type: "array", items: position, minItems: 2 },
+        ...forbidden("point_lat", "point_lng", "radius_m", "polygon", "line"),
+      },
+      required: ["type", "coordinates"],
+    },
+    {
+      properties: {
+        type: { const: "Polygon" },
+        coordinates: {
+          type: "array",
+          items: { type: "array", items: position, minItems: 4 },
+          minItems: 1,
+        },
+        ...forbidden("point_lat", "point_lng", "radius_m", "polygon", "line"),
+      },
+      required: ["type", "coordinates"],
+    },
+  ],
+} as const;
+
+const taskCatalog = {
+  description: "Lists supported task identifiers for an asset.",
+  type: "object",
+  properties: { supported_tasks: stringArray },
+  required: ["supported_tasks"],
+} as const;
+
+const mediaRefItem = {
+  description: "A reference to a media object.",
+  type: "object",
+  properties: {
+    object_id: nonEmptyString,
+    role: { type: "string", enum: ["camera_feed", "thumbnail", "heatmap_data"] },
+  },
+  required: ["object_id", "role"],
+} as const;
+
+const milView = {
+  description: "Military tactical classification component.",
+  type: "object",
+  properties: {
+    classification: {
+      type: "string",
+      enum: ["friendly", "hostile", "neutral", "unknown", "civilian"],
+    },
+    last_seen: dateTime,
+  },
+  required: ["classification"],
+} as const;
+
+const health = {
+  description: "Health and vital statistics for entities.",
+  type: "object",
+  properties: { battery_percent: percent },
+} as const;
+
+const sensorRefItem = {
+  description: "A reference to a sensor with FOV/orientation metadata.",
+  type: "object",
+  properties: {
+    sensor_id: nonEmptyString,
+    type: { type: "string" },
+    vertical_fov: { type: "number", minimum: 0, maximum: 180 },
+    horizontal_fov: { type: "number", minimum: 0, maximum: 360 },
+    vertical_orientation: { type: "number" },
+    horizontal_orientation: { type: "number" },
+  },
+  required: ["sensor_id", "type"],
+} as const;
+
+const communications = {
+  description: "Network link status component.",
+  type: "object",
+  properties: {
+    link_state: { type: "string", enum: ["connected", "disconnected", "degraded", "unknown"] },
+  },
+  required: ["link_state"],
+} as const;
+
+const taskQueue = {
+  description: "Current and queued work items for an entity.",
+  type: "object",
+  properties: {
+    current_task_id: { type: ["string", "null"] },
+    queued_task_ids: stringArray,
+  },
+  required: ["current_task_id", "queued_task_ids"],
+} as const;
+
+const status = {
+  description: "Operational status component.",
+  type: "object",
+  properties: { value: { type: "string" }, last_update: dateTime },
+  required: ["value"],
+} as const;
+
+const heartbeat = {
+  description: "Heartbeat timing component.",
+  type: "object",
+  properties: { last_seen: dateTime },
+  required: ["last_seen"],
+} as const;
+
+// === Task components ===
+
+const command = {
+  description: "Command component for tasks.",
+  type: "object",
+  properties: { type: nonEmptyString },
+  required: ["type"],
+} as const;
+
+const taskParameters = {
+  description: "Command parameters for task execution.",
+  type: "object",
+  properties: { latitude, longitude, altitude_m: { type: "number" } },
+  patternProperties: { [CUSTOM_KEY_PATTERN]: {} },
+  additionalProperties: false,
+} as const;
+
+const taskProgress = {
+  description: "Runtime telemetry about task execution.",
+  type: "object",
+  properties: { percent, updated_at: dateTime, status_detail: { type: "string" } },
+} as const;
+
+// === Object metadata ===
+
+const objectReferenceItem = {
+  description: "A reference from an object to an entity or task.",
+  type: "object",
+  properties: { entity_id: { type: "string" }, task_id: { type: "string" } },
+} as const;
+
+const ref = <const Name extends string>(name: Name) => ({ $ref: `#/$defs/${name}` as const });
+
+/**
+ * Schema documents keyed by the name of the TypeScript type they describe. The
+ * aggregate documents (`EntityComponents`, `TaskComponents`, `ObjectMetadata`)
+ * are self-contained: the component schemas they reference live under `$defs`.
+ */
+export const COMPONENT_SCHEMAS = {
+  TelemetryComponent: schemaDocument("TelemetryComponent", telemetry),
+  GeometryComponent: schemaDocument("GeometryComponent", geometry),
+  TaskCatalogComponent: schemaDocument("TaskCatalogComponent", taskCatalog),
+  MediaRefItem: schemaDocument("MediaRefItem", mediaRefItem),
+  MilViewComponent: schemaDocument("MilViewComponent", milView),
+  HealthComponent: schemaDocument("HealthComponent", health),
+  SensorRefItem: schemaDocument("SensorRefItem", sensorRefItem),
+  CommunicationsComponent: schemaDocument("CommunicationsComponent", communications),
+  TaskQueueComponent: schemaDocument("TaskQueueComponent", taskQueue),
+  StatusComponent: schemaDocument("StatusComponent", status),
+  HeartbeatComponent: schemaDocument("HeartbeatComponent", heartbeat),
+  CommandComponent: schemaDocument("CommandComponent", command),
+  TaskParametersComponent: schemaDocument("TaskParametersComponent", taskParameters),
+  TaskProgressComponent: schemaDocument("TaskProgressComponent", taskProgress),
+  ObjectReferenceItem: schemaDocument("ObjectReferenceItem", objectReferenceItem),
+  EntityComponents: schemaDocument("EntityComponents", {
+    description: "All supported entity components. Custom components must be prefixed with custom_.",
+    type: "object",
+    properties: {
+      telemetry: ref("TelemetryComponent"),
+      geometry: ref("GeometryComponent"),
+      task_catalog: ref("TaskCatalogComponent"),
+      media_refs: { type: "array", items: ref("MediaRefItem") },
+      mil_view: ref("MilViewComponent"),
+      health: ref("HealthComponent"),
+      sensor_refs: { type: "array", items: ref("SensorRefItem") },
+      communications: ref("CommunicationsComponent"),
+      task_queue: ref("TaskQueueComponent"),
+      status: ref("StatusComponent"),
+      heartbeat: ref("HeartbeatComponent"),
+    },
+    patternProperties: { [CUSTOM_KEY_PATTERN]: {} },
+    additionalProperties: false,
+    $defs: {
+      TelemetryComponent: telemetry,
+      GeometryComponent: geometry,
+      TaskCatalogComponent: taskCatalog,
+      MediaRefItem: mediaRefItem,
+      MilViewComponent: milView,
+      HealthComponent: health,
+      SensorRefItem: sensorRefItem,
+      CommunicationsComponent: communications,
+      TaskQueueComponent: taskQueue,
+      StatusComponent: status,
+      HeartbeatComponent: heartbeat,
+    },
+  } as const),
+  TaskComponents: schemaDocument("TaskComponents", {
+    description: "All supported task components. Custom components must be prefixed with custom_.",
+    type: "object",
+    properties: {
+      command: ref("CommandComponent"),
+      parameters: ref("TaskParametersComponent"),
+      progress: ref("TaskProgressComponent"),
+    },
+    patternProperties: { [CUSTOM_KEY_PATTERN]: {} },
+    additionalProperties: false,
+    $defs: {
+      CommandComponent: command,
+      TaskParametersComponent: taskParameters,
+      TaskProgressComponent: taskProgress,
+    },
+  } as const),
+  ObjectMetadata: schemaDocument("ObjectMetadata", {
+    description: "Metadata for stored objects. Custom fields must be prefixed with custom_.",
+    type: "object",
+    properties: {
+      bucket: { type: "string" },
+      size_bytes: { type: "integer", minimum: 0 },
+      usage_hints: stringArray,
+      referenced_by: { type: "array", items: ref("ObjectReferenceItem") },
+      checksum: { type: "string" },
+      expiry_time: dateTime,
+    },
+    patternProperties: { [CUSTOM_KEY_PATTERN]: {} },
+    additionalProperties: false,
+    $defs: { ObjectReferenceItem: objectReferenceItem },
+  } as const),
+} as const;
+
+export type ComponentSchemaName = keyof typeof COMPONENT_SCHEMAS;
+
+/**
+ * Every way `value` fails a schema; empty when it is valid. Pass the name of a
+ * component type (e.g. `"EntityComponents"`) or any schema document that only
+ * uses local `$ref`s.
+ */
+export function validateAgainstSchema(
+  schema: ComponentSchemaName | JsonSchema,
+  value: unknown,
+): ValidationIssue[] {
+  const document = typeof schema === "string" ? COMPONENT_SCHEMAS[schema] : schema;
+  if (document === undefined) {
+    throw new Error(`Unknown component schema '${String(schema)}'`);
+  }
+  return schemaIssues(document, value);
+}
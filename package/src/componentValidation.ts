@@ -0,0 +1,265 @@
+/**
+ * Value validation for entity and task components. Every interface in
+ * `types/components.ts` has a check here, so out-of-range coordinates, unknown
+ * enum members and malformed timestamps are caught before they reach Atlas
+ * Command. All violations are collected, each with its path inside the
+ * components object (e.g. `media_refs[1].role`).
+ */
+
+import {
+  arrayOf,
+  collectIssues,
+  describe,
+  isPlainObject,
+  join,
+  nullable,
+  number,
+  object,
+  oneOf,
+  range,
+  required,
+  string,
+  timestamp,
+} from "./checks.js";
+import type { Check, ValidationIssue } from "./checks.js";
+import { AtlasComponentValidationError } from "./errors.js";
+
+const latitude = range(-90, 90);
+const longitude = range(-180, 180);
+const percent = range(0, 100);
+const nonNegative = range(0, Number.POSITIVE_INFINITY);
+
+const positive: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    issues.push({ path, message: `expected a positive number, got ${JSON.stringify(value) ?? "undefined"}` });
+  }
+};
+
+const nonEmptyString: Check = (value, path, issues) => {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ path, message: `expected a non-empty string, got ${JSON.stringify(value) ?? "undefined"}` });
+  }
+};
+
+/**
+ * Checks listed keys with `shape` and reports any other key that is not
+ * prefixed with `custom_`.
+ */
+function closed(shape: Record<string, Check>, noun: string): Check {
+  const known = new Set(Object.keys(shape));
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const keyPath = join(path, key);
+      if (known.has(key)) {
+        if (item !== undefined) shape[key](item, keyPath, issues);
+      } else if (!key.startsWith("custom_")) {
+        issues.push({
+          path: keyPath,
+          message: `Unknown ${noun}; custom ${noun}s must be prefixed with 'custom_'`,
+        });
+      }
+    }
+  };
+}
+
+// === Geometry ===
+
+const GEOJSON_TYPES = ["Point", "LineString", "Polygon"] as const;
+const ATLAS_GEOMETRY_TYPES = ["point", "circle", "polygon", "line"] as const;
+
+/** Fields each geometry form may carry besides `type`. */
+const GEOMETRY_FIELDS: Record<string, readonly string[]> = {
+  point: ["point_lat", "point_lng"],
+  circle: ["point_lat", "point_lng", "radius_m"],
+  polygon: ["polygon"],
+  line: ["line"],
+  Point: ["coordinates"],
+  LineString: ["coordinates"],
+  Polygon: ["coordinates"],
+};
+const SHAPE_FIELDS = ["point_lat", "point_lng", "radius_m", "polygon", "line", "coordinates"];
+
+function minItems(item: Check, min: number, noun: string): Check {
+  return (value, path, issues) => {
+    arrayOf(item)(value, path, issues);
+    if (Array.isArray(value) && value.length < min) {
+      issues.push({ path, message: `expected at least ${min} ${noun}, got ${value.length}` });
+    }
+  };
+}
+
+/** ATLAS vertices are `[lat, lng]`. */
+const latLngPair: Check = (value, path, issues) => {
+  if (!Array.isArray(value) || value.length !== 2) {
+    issues.push({ path, message: "expected a [lat, lng] pair" });
+    return;
+  }
+  latitude(value[0], `${path}[0]`, issues);
+  longitude(value[1], `${path}[1]`, issues);
+};
+
+/** GeoJSON positions are `[lng, lat]` or `[lng, lat, alt]`. */
+const position: Check = (value, path, issues) => {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3) {
+    issues.push({ path, message: "expected a [lng, lat] or [lng, lat, alt] position" });
+    return;
+  }
+  longitude(value[0], `${path}[0]`, issues);
+  latitude(value[1], `${path}[1]`, issues);
+  if (value.length === 3) number(value[2], `${path}[2]`, issues);
+};
+
+const linearRing: Check = (value, path, issues) => {
+  minItems(position, 4, "positions")(value, path, issues);
+  if (Array.isArray(value) && value.length >= 4) {
+    const first = value[0];
+    const last = value[value.length - 1];
+    if (JSON.stringify(first) !== JSON.stringify(last)) {
+      issues.push({ path, message: "expected a closed ring (first position equal to last)" });
+    }
+  }
+};
+
+const GEOMETRY_SHAPES: Record<string, Check> = {
+  point: object({ point_lat: required(latitude), point_lng: required(longitude) }),
+  circle: object({
+    point_lat: required(latitude),
+    point_lng: required(longitude),
+    radius_m: required(positive),
+  }),
+  polygon: object({ polygon: required(minItems(latLngPair, 3, "vertices")) }),
+  line: object({ line: required(minItems(latLngPair, 2, "vertices")) }),
+  Point: object({ coordinates: required(position) }),
+  LineString: object({ coordinates: required(minItems(position, 2, "positions")) }),
+  Polygon: object({ coordinates: required(minItems(linearRing, 1, "rings")) }),
+};
+
+/** ATLAS forms may omit `type`; infer it from the fields that are present. */
+function inferGeometryType(value: Record<string, unknown>): string | undefined {
+  if (value.radius_m !== undefined) return "circle";
+  if (value.point_lat !== undefined || value.point_lng !== undefined) return "point";
+  if (value.polygon !== undefined) return "polygon";
+  if (value.line !== undefined) return "line";
+  return undefined;
+}
+
+const geometry: Check = (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+    return;
+  }
+  let type: string | undefined;
+  if (value.type === undefined) {
+    type = inferGeometryType(value);
+    if (type === undefined) {
+      issues.push({
+        path,
+        message: "expected point_lat/point_lng, radius_m, polygon, line, or a GeoJSON type with coordinates",
+      });
+      return;
+    }
+  } else {
+    const before = issues.length;
+    oneOf([...ATLAS_GEOMETRY_TYPES, ...GEOJSON_TYPES])(value.type, join(path, "type"), issues);
+    if (issues.length > before) return;
+    type = value.type as string;
+  }
+  GEOMETRY_SHAPES[type](value, path, issues);
+  const allowed = GEOMETRY_FIELDS[type];
+  for (const field of SHAPE_FIELDS) {
+    if (value[field] !== undefined && !allowed.includes(field)) {
+      issues.push({ path: join(path, field), message: `is not allowed on a ${type} geometry` });
+    }
+  }
+};
+
+// === Entity components ===
+
+const ENTITY_COMPONENTS: Record<string, Check> = {
+  telemetry: object({
+    latitude,
+    longitude,
+    altitude_m: number,
+    speed_m_s: nonNegative,
+    heading_deg: range(0, 360),
+  }),
+  geometry,
+  task_catalog: object({ supported_tasks: required(arrayOf(string)) }),
+  media_refs: arrayOf(
+    object({
+      object_id: required(nonEmptyString),
+      role: required(oneOf(["camera_feed", "thumbnail", "heatmap_data"])),
+    }),
+  ),
+  mil_view: object({
+    classification: required(oneOf(["friendly", "hostile", "neutral", "unknown", "civilian"])),
+    last_seen: timestamp,
+  }),
+  health: object({ battery_percent: percent }),
+  sensor_refs: arrayOf(
+    object({
+      sensor_id: required(nonEmptyString),
+      type: required(string),
+      vertical_fov: range(0, 180),
+      horizontal_fov: range(0, 360),
+      vertical_orientation: number,
+      horizontal_orientation: number,
+    }),
+  ),
+  communications: object({
+    link_state: required(oneOf(["connected", "disconnected", "degraded", "unknown"])),
+  }),
+  task_queue: object({
+    current_task_id: required(nullable(string)),
+    queued_task_ids: required(arrayOf(string)),
+  }),
+  status: object({ value: required(string), last_update: timestamp }),
+  heartbeat: object({ last_seen: required(timestamp) }),
+};
+
+// === Task components ===
+
+const TASK_COMPONENTS: Record<string, Check> = {
+  command: object({ type: required(nonEmptyString) }),
+  parameters: closed({ latitude, longitude, altitude_m: number }, "parameter"),
+  progress: object({ percent, updated_at: timestamp, status_detail: string }),
+};
+
+const entityComponents = closed(ENTITY_COMPONENTS, "component");
+const taskComponents = closed(TASK_COMPONENTS, "component");
+
+/** Every problem with `components` as `EntityComponents`; empty when valid. */
+export function entityComponentIssues(components: unknown): ValidationIssue[] {
+  return collectIssues(entityComponents, components);
+}
+
+/** Every problem with `components` as `TaskComponents`; empty when valid. */
+export function taskComponentIssues(components: unknown): ValidationIssue[] {
+  return collectIssues(taskComponents, components);
+}
+
+/**
+ * Validate entity component keys and values. Throws
+ * `AtlasComponentValidationError` listing every violation.
+ */
+export function validateEntityComponents(components: Record<string, unknown>): void {
+  const issues = entityComponentIssues(components);
+  if (issues.length > 0) {
+    throw new AtlasComponentValidationError("entity", issues);
+  }
+}
+
+/**
+ * Validate task component keys and values. Throws
+ * `AtlasComponentValidationError` listing every violation.
+ */
+export function validateTaskComponents(components: Record<string, unknown>): void {
+  const issues = taskComponentIssues(components);
+  if (issues.length > 0) {
+    throw new AtlasComponentValidationError("task", issues);
+  }
+}
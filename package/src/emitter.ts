@@ -0,0 +1,47 @@
+/**
+ * Minimal typed event emitter. Kept dependency-free so the package stays
+ * usable in browsers (no `node:events`).
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events> {
+  private readonly listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /** Subscribe to `event`; returns a function that removes the listener. */
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as Listener<never>);
+    return () => this.off(event, listener);
+  }
+
+  /** Subscribe for a single emission. */
+  once<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<E extends keyof Events>(event: E, listener: Listener<Events[E]>): void {
+    this.listeners.get(event)?.delete(listener as Listener<never>);
+  }
+
+  /** Listeners run synchronously in subscription order; a throwing listener propagates to the emitter. */
+  protected emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      (listener as Listener<Events[E]>)(payload);
+    }
+  }
+
+  protected listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Typed errors raised by the Atlas Command client.
+ *
+ * Every non-2xx response surfaces as an `AtlasHttpError` (or one of its
+ * status-specific subclasses) so callers can branch with `instanceof` instead
+ * of parsing messages.
+ */
+
+import type { ErrorFrame } from "./types/frames.js";
+import type { FrameIssue } from "./frameCodec.js";
+import type { ValidationIssue } from "./checks.js";
+import type { SerializedTask, TaskStatus } from "./types/entities.js";
+
+/** Base class for all errors raised by this package. */
+export class AtlasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AtlasError";
+  }
+}
+
+export interface AtlasHttpErrorInit {
+  status: number;
+  method: string;
+  url: string;
+  /** Raw response body text (may be empty). */
+  body: string;
+  headers?: Headers;
+}
+
+/** Raised for any non-2xx response from Atlas Command. */
+export class AtlasHttpError extends AtlasError {
+  readonly status: number;
+  readonly method: string;
+  readonly url: string;
+  /** Raw response body text. */
+  readonly body: string;
+  /** Parsed JSON body when the server returned JSON, otherwise undefined. */
+  readonly detail: unknown;
+  readonly headers: Headers;
+
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message);
+    this.name = "AtlasHttpError";
+    this.status = init.status;
+    this.method = init.method;
+    this.url = init.url;
+    this.body = init.body;
+    this.detail = parseDetail(init.body);
+    this.headers = init.headers ?? new Headers();
+  }
+
+  /** Machine-readable `code` from a JSON error body, when present. */
+  get code(): string | undefined {
+    const detail = this.detail;
+    if (detail && typeof detail === "object" && typeof (detail as Record<string, unknown>).code === "string") {
+      return (detail as Record<string, string>).code;
+    }
+    return undefined;
+  }
+}
+
+/** HTTP 400 / 422: the request payload was rejected. */
+export class AtlasValidationError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasValidationError";
+  }
+}
+
+/** HTTP 401: missing, invalid, or expired token. */
+export class AtlasUnauthorizedError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasUnauthorizedError";
+  }
+}
+
+/** HTTP 403: the token is valid but not allowed to perform the operation. */
+export class AtlasForbiddenError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasForbiddenError";
+  }
+}
+
+/** HTTP 404: the entity, task, or object does not exist. */
+export class AtlasNotFoundError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasNotFoundError";
+  }
+}
+
+/** HTTP 409: the resource already exists or conflicts with current state. */
+export class AtlasConflictError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasConflictError";
+  }
+}
+
+/** HTTP 412: an If-Match precondition did not hold. */
+export class AtlasPreconditionFailedError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasPreconditionFailedError";
+  }
+}
+
+/** HTTP 429: the client is being rate limited. */
+export class AtlasRateLimitError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasRateLimitError";
+  }
+}
+
+/** HTTP 5xx: Atlas Command failed to handle the request. */
+export class AtlasServerError extends AtlasHttpError {
+  constructor(message: string, init: AtlasHttpErrorInit) {
+    super(message, init);
+    this.name = "AtlasServerError";
+  }
+}
+
+/** Raised when PATCH /objects/{id} returns 412; callers should refetch, merge, and retry. */
+export class ObjectPreconditionFailedError extends AtlasPreconditionFailedError {
+  readonly objectId: string;
+
+  constructor(objectId: string, detail: string, init?: Partial<AtlasHttpErrorInit>) {
+    super(detail || `HTTP 412 precondition failed for object ${objectId}`, {
+      method: "PATCH",
+      url: "",
+      ...init,
+      status: 412,
+      body: detail,
+    });
+    this.name = "ObjectPreconditionFailedError";
+    this.objectId = objectId;
+  }
+}
+
+/** Raised when a call exceeds its timeout (`ClientOptions.timeoutMs` or per-call `timeoutMs`). */
+export class AtlasTimeoutError extends AtlasError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Atlas request timed out after ${timeoutMs}ms`);
+    this.name = "AtlasTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Realtime channel failure: not connected, handshake timeout, missed heartbeats, or closed. */
+export class AtlasRealtimeError extends AtlasError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AtlasRealtimeError";
+  }
+}
+
+/** The server answered a realtime request with an `error` frame. */
+export class AtlasRealtimeRequestError extends AtlasRealtimeError {
+  readonly messageId: string;
+  readonly code: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(messageId: string, payload: ErrorFrame["payload"]) {
+    super(`Realtime request ${messageId} failed: ${payload.code}: ${payload.message}`);
+    this.name = "AtlasRealtimeRequestError";
+    this.messageId = messageId;
+    this.code = payload.code;
+    this.details = payload.details;
+  }
+}
+
+/** A realtime frame failed structural validation; `issues` lists every offending path. */
+export class AtlasFrameError extends AtlasRealtimeError {
+  readonly issues: FrameIssue[];
+
+  constructor(issues: FrameIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`Invalid frame at ${first?.path || "<root>"}: ${first?.message ?? "unknown"}${more}`);
+    this.name = "AtlasFrameError";
+    this.issues = issues;
+  }
+}
+
+/** Entity or task components failed value validation; `issues` lists every violation. */
+export class AtlasComponentValidationError extends AtlasError {
+  readonly target: "entity" | "task";
+  readonly issues: ValidationIssue[];
+
+  constructor(target: "entity" | "task", issues: ValidationIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(
+      `Invalid ${target} components at ${first?.path || "<root>"}: ${first?.message ?? "unknown"}${more}`,
+    );
+    this.name = "AtlasComponentValidationError";
+    this.target = target;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A task lifecycle call was refused locally because the task's current status
+ * does not allow the move (raised when `checkTaskTransitions` is on).
+ */
+export class AtlasTaskTransitionError extends AtlasError {
+  readonly taskId: string;
+  readonly from: TaskStatus;
+  readonly to: TaskStatus;
+  /** Statuses the task could move to instead; empty once it is terminal. */
+  readonly allowed: readonly TaskStatus[];
+
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus, allowed: readonly TaskStatus[]) {
+    const options = allowed.length > 0 ? allowed.join(", ") : "none, the task is finished";
+    super(`Task ${taskId} cannot move from ${from} to ${to} (allowed: ${options})`);
+    this.name = "AtlasTaskTransitionError";
+    this.taskId = taskId;
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Message and details a failed task carries: `extra.error` as `failTask`
+ * sends it, else the `TaskFail` fields `extra.error_message` / `extra.error_details`.
+ */
+function taskFailure(task: SerializedTask): { message?: string; details?: Record<string, unknown> } {
+  const extra = task.extra ?? {};
+  const error = extra.error as { message?: unknown; details?: unknown } | undefined;
+  const message = error?.message ?? extra.error_message;
+  const details = error?.details ?? extra.error_details;
+  return {
+    message: typeof message === "string" ? message : undefined,
+    details: details !== null && typeof details === "object" ? (details as Record<string, unknown>) : undefined,
+  };
+}
+
+/** `waitForTask` saw the task end as `failed` or `cancelled`. */
+export class AtlasTaskFailedError extends AtlasError {
+  readonly taskId: string;
+  readonly status: SerializedTask["status"];
+  /** The task as last fetched. */
+  readonly task: SerializedTask;
+  /** Message the task was failed with, if any. */
+  readonly errorMessage?: string;
+  /** Details the task was failed with, if any. */
+  readonly errorDetails?: Record<string, unknown>;
+
+  constructor(task: SerializedTask) {
+    const { message, details } = taskFailure(task);
+    const outcome = task.status === "cancelled" ? "was cancelled" : "failed";
+    super(`Task ${task.task_id} ${outcome}${message ? `: ${message}` : ""}`);
+    this.name = "AtlasTaskFailedError";
+    this.taskId = task.task_id;
+    this.status = task.status;
+    this.task = task;
+    this.errorMessage = message;
+    if (details) this.errorDetails = details;
+  }
+}
+
+/** `waitForTask` gave up before the task finished. */
+export class AtlasTaskTimeoutError extends AtlasError {
+  readonly taskId: string;
+  readonly timeoutMs: number;
+  /** The task as last fetched; undefined if no fetch completed in time. */
+  readonly task?: SerializedTask;
+
+  constructor(taskId: string, timeoutMs: number, task?: SerializedTask) {
+    const last = task ? ` (last status: ${task.status})` : "";
+    super(`Task ${taskId} did not finish within ${timeoutMs}ms${last}`);
+    this.name = "AtlasTaskTimeoutError";
+    this.taskId = taskId;
+    this.timeoutMs = timeoutMs;
+    this.task = task;
+  }
+}
+
+/**
+ * A response body did not match the client's declared return type while
+ * `validateResponses` is `"strict"`; `issues` lists every offending path.
+ */
+export class AtlasResponseValidationError extends AtlasError {
+  /** Client method whose response failed, e.g. `"getEntity"`. */
+  readonly operation: string;
+  readonly issues: ValidationIssue[];
+  /** The decoded response that failed validation. */
+  readonly body: unknown;
+
+  constructor(operation: string, issues: ValidationIssue[], body: unknown) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(
+      `Invalid ${operation} response at ${first?.path || "<root>"}: ${first?.message ?? "unknown"}${more}`,
+    );
+    this.name = "AtlasResponseValidationError";
+    this.operation = operation;
+    this.issues = issues;
+    this.body = body;
+  }
+}
+
+/** A persisted sync checkpoint could not be read back (unparseable or wrong shape). */
+export class AtlasCheckpointError extends AtlasError {
+  readonly location: string;
+
+  constructor(location: string, reason: string, cause?: unknown) {
+    super(`Invalid sync checkpoint at ${location}: ${reason}`);
+    this.name = "AtlasCheckpointError";
+    this.location = location;
+    if (cause !== undefined) this.cause = cause;
+  }
+}
+
+function parseDetail(body: string): unknown {
+  if (!body.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Build the most specific `AtlasHttpError` subclass for a response status. */
+export function createHttpError(init: AtlasHttpErrorInit): AtlasHttpError {
+  const message = `HTTP ${init.status}: ${init.body}`;
+  switch (init.status) {
+    case 400:
+    case 422:
+      return new AtlasValidationError(message, init);
+    case 401:
+      return new AtlasUnauthorizedError(message, init);
+    case 403:
+      return new AtlasForbiddenError(message, init);
+    case 404:
+      return new AtlasNotFoundError(message, init);
+    case 409:
+      return new AtlasConflictError(message, init);
+    case 412:
+      return new AtlasPreconditionFailedError(message, init);
+    case 429:
+      return new AtlasRateLimitError(message, init);
+    default:
+      if (init.status >= 500) {
+        return new AtlasServerError(message, init);
+      }
+      return new AtlasHttpError(message, init);
+  }
+}
+
+/** Read the response body and build the matching `AtlasHttpError`. */
+export async function httpErrorFromResponse(
+  response: Response,
+  method: string,
+  url: string,
+): Promise<AtlasHttpError> {
+  const body = await response.text();
+  return createHttpError({ status: response.status, method, url, body, headers: response.headers });
+}
@@ -0,0 +1,203 @@
+/**
+ * Runtime codec for controller-protocol frames. `parseFrame` checks the
+ * payload shape of every frame type against `types/frames.ts`, so malformed
+ * server messages are rejected at the socket instead of deep inside a handler.
+ */
+
+import type { ControllerFrame, FrameType, MessageMeta } from "./types/frames.js";
+import { AtlasFrameError } from "./errors.js";
+import {
+  arrayOf,
+  describe,
+  isPlainObject,
+  number,
+  object,
+  oneOf,
+  record,
+  required,
+  string,
+} from "./checks.js";
+import type { Check, Field, ValidationIssue } from "./checks.js";
+
+/** A structural problem in a frame; `path` is relative to the frame, e.g. `payload.entities.entities[2].entity_id`. */
+export type FrameIssue = ValidationIssue;
+
+export type ParseFrameResult =
+  | { ok: true; frame: ControllerFrame }
+  | { ok: false; issues: FrameIssue[]; raw: unknown };
+
+const ENTITY_TYPES = ["asset", "track", "geofeature", "task", "object"] as const;
+
+const entityType = oneOf(ENTITY_TYPES);
+const entity = object({ entity_id: required(string), entity_type: string });
+const task = object({ task_id: required(string) });
+const storedObject = object({ object_id: required(string) });
+
+function page(key: string, item: Check): Check {
+  return object({ [key]: required(arrayOf(item)), total: required(number), limit: required(number) });
+}
+
+const meta = object({
+  message_id: string,
+  sent_at: string,
+  entity_type: entityType,
+  entity_id: string,
+  sequence: number,
+});
+
+const empty = object({});
+const mutation = object({ entity_type: entityType, entity_id: string, data: required(record) });
+
+/** Payload check per frame type, and whether the payload itself is required. */
+const PAYLOADS: Record<FrameType, Field> = {
+  handshake: { check: object({ client_version: string, client_type: string }), required: false },
+  "handshake:ack": {
+    check: object({
+      server_version: string,
+      supported_entity_types: arrayOf(entityType),
+      server_time: string,
+    }),
+    required: false,
+  },
+  heartbeat: { check: empty, required: false },
+  "heartbeat:ack": { check: empty, required: false },
+  sync: { check: object({ request_id: string, filters: record }), required: false },
+  "sync:ack": {
+    check: object({
+      entities: page("entities", entity),
+      tasks: page("tasks", task),
+      objects: page("objects", storedObject),
+    }),
+    required: true,
+  },
+  subscribe: { check: object({ channels: arrayOf(string), filters: record }), required: false },
+  "subscribe:ack": { check: empty, required: false },
+  unsubscribe: { check: object({ channels: arrayOf(string) }), required: false },
+  "unsubscribe:ack": { check: empty, required: false },
+  event: {
+    check: object({
+      table: required(string),
+      operation: required(oneOf(["create", "update", "delete"])),
+      id: string,
+      data: record,
+    }),
+    required: true,
+  },
+  create: { check: mutation, required: true },
+  "create:ack": { check: empty, required: false },
+  update: { check: mutation, required: true },
+  "update:ack": { check: empty, required: false },
+  delete: { check: object({ entity_type: entityType, entity_id: string }), required: true },
+  "delete:ack": { check: empty, required: false },
+  list: {
+    check: object({ entity_type: entityType, filters: record, limit: number }),
+    required: false,
+  },
+  "list:ack": {
+    check: object({
+      entities: arrayOf(entity),
+      tasks: arrayOf(task),
+      objects: arrayOf(storedObject),
+      total: number,
+      limit: number,
+    }),
+    required: false,
+  },
+  get: { check: object({ entity_type: entityType, entity_id: required(string) }), required: false },
+  "get:ack": {
+    check: object({ entity, task, object: storedObject }),
+    required: false,
+  },
+  error: {
+    check: object({ code: required(string), message: required(string), details: record }),
+    required: true,
+  },
+};
+
+/** Every frame type the controller protocol defines. */
+export const FRAME_TYPES = Object.keys(PAYLOADS) as FrameType[];
+
+/** Structural problems with `value` as a frame; empty when it is valid. */
+function frameIssues(value: unknown): FrameIssue[] {
+  const issues: FrameIssue[] = [];
+  if (!isPlainObject(value)) {
+    issues.push({ path: "", message: `expected a frame object, got ${describe(value)}` });
+    return issues;
+  }
+  const type = value.type;
+  if (typeof type !== "string" || !Object.prototype.hasOwnProperty.call(PAYLOADS, type)) {
+    issues.push({
+      path: "type",
+      message: `expected a known frame type, got ${JSON.stringify(type) ?? "undefined"}`,
+    });
+    return issues;
+  }
+  if (value.meta !== undefined) {
+    meta(value.meta, "meta", issues);
+  }
+  const payload = PAYLOADS[type as FrameType];
+  if (value.payload === undefined) {
+    if (payload.required) issues.push({ path: "payload", message: "is required" });
+  } else {
+    payload.check(value.payload, "payload", issues);
+  }
+  return issues;
+}
+
+/**
+ * Decode and validate a frame. Strings are parsed as JSON first; anything else
+ * is treated as an already-decoded value. Never throws.
+ */
+export function parseFrame(raw: string | unknown): ParseFrameResult {
+  let value: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { ok: false, issues: [{ path: "", message: `invalid JSON: ${reason}` }], raw };
+    }
+  }
+  const issues = frameIssues(value);
+  return issues.length === 0
+    ? { ok: true, frame: value as ControllerFrame }
+    : { ok: false, issues, raw: value };
+}
+
+/** Whether `value` is a structurally valid controller frame. */
+export function isControllerFrame(value: unknown): value is ControllerFrame {
+  return typeof value !== "string" && frameIssues(value).length === 0;
+}
+
+let messageCounter = 0;
+
+/** Unique `meta.message_id`; falls back to a counter where `crypto.randomUUID` is unavailable. */
+export function newMessageId(): string {
+  const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (cryptoApi?.randomUUID) {
+    return cryptoApi.randomUUID();
+  }
+  messageCounter += 1;
+  return `msg-${Date.now().toString(36)}-${messageCounter}`;
+}
+
+/**
+ * Serialize a frame for the wire, stamping `meta.message_id` and `meta.sent_at`
+ * unless the caller already set them. Throws `AtlasFrameError` when the frame
+ * would not pass `parseFrame` on the other end.
+ */
+export function encodeFrame(frame: ControllerFrame): string {
+  const stamped = {
+    ...frame,
+    meta: {
+      ...frame.meta,
+      message_id: frame.meta?.message_id ?? newMessageId(),
+      sent_at: frame.meta?.sent_at ?? new Date().toISOString(),
+    } satisfies MessageMeta,
+  };
+  const issues = frameIssues(stamped);
+  if (issues.length > 0) {
+    throw new AtlasFrameError(issues);
+  }
+  return JSON.stringify(stamped);
+}
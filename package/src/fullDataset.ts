@@ -0,0 +1,120 @@
+/**
+ * Streaming walk of `GET /queries/full`.
+ *
+ * The endpoint pages entities, tasks and objects independently. As with
+ * changed-since, a follow-up request only carries cursors for the streams that
+ * are still truncated, and rows from streams that already finished are repeats
+ * of their first page and are skipped.
+ */
+
+import type { AtlasHttpClient, RequestOptions } from "./httpClient.js";
+import type {
+  FullDatasetResponse,
+  LiveQueryStreamCursors,
+  SerializedEntity,
+  SerializedObject,
+  SerializedTask,
+} from "./types/entities.js";
+import { abortReason } from "./abort.js";
+
+export type FullDatasetSource = Pick<AtlasHttpClient, "getFullDataset">;
+
+export interface IterateFullDatasetOptions extends RequestOptions {
+  /** Rows per stream per request (default 500). Bounds how much is held in memory at once. */
+  pageSize?: number;
+}
+
+/** One record from the full dataset, tagged with the stream it came from. */
+export type FullDatasetRecord =
+  | { kind: "entity"; record: SerializedEntity }
+  | { kind: "task"; record: SerializedTask }
+  | { kind: "object"; record: SerializedObject };
+
+interface StreamSpec {
+  kind: FullDatasetRecord["kind"];
+  rows: "entities" | "tasks" | "objects";
+  hasMore: keyof FullDatasetResponse;
+  nextCursor: keyof FullDatasetResponse;
+  cursor: keyof LiveQueryStreamCursors;
+}
+
+const STREAMS: readonly StreamSpec[] = [
+  {
+    kind: "entity",
+    rows: "entities",
+    hasMore: "has_more_entities",
+    nextCursor: "next_entity_cursor",
+    cursor: "entityCursor",
+  },
+  {
+    kind: "task",
+    rows: "tasks",
+    hasMore: "has_more_tasks",
+    nextCursor: "next_task_cursor",
+    cursor: "taskCursor",
+  },
+  {
+    kind: "object",
+    rows: "objects",
+    hasMore: "has_more_objects",
+    nextCursor: "next_object_cursor",
+    cursor: "objectCursor",
+  },
+];
+
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Page all three full-dataset streams to completion, yielding one tagged record
+ * at a time. Only the current response is held in memory.
+ */
+export async function* iterateFullDataset(
+  source: FullDatasetSource,
+  options: IterateFullDatasetOptions = {},
+): AsyncGenerator<FullDatasetRecord, void, undefined> {
+  const pageSize = Math.max(1, Math.floor(options.pageSize ?? DEFAULT_PAGE_SIZE));
+  const { signal, timeoutMs } = options;
+  /** Streams still being paged; undefined cursor means "first request". */
+  let pending: Map<StreamSpec, string | undefined> = new Map(
+    STREAMS.map((stream) => [stream, undefined]),
+  );
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+  };
+
+  while (pending.size > 0) {
+    throwIfAborted();
+    const cursors: LiveQueryStreamCursors = {};
+    for (const [stream, cursor] of pending) {
+      if (cursor !== undefined) cursors[stream.cursor] = cursor;
+    }
+    const response = await source.getFullDataset(
+      { entityLimit: pageSize, taskLimit: pageSize, objectLimit: pageSize, ...cursors },
+      { signal, timeoutMs },
+    );
+
+    const next = new Map<StreamSpec, string | undefined>();
+    for (const [stream] of pending) {
+      if (response[stream.hasMore] === true) {
+        const cursor = response[stream.nextCursor];
+        if (typeof cursor !== "string" || !cursor) {
+          throw new Error(
+            `full dataset reported ${String(stream.hasMore)} without ${String(stream.nextCursor)}; refusing to drop the remaining pages.`,
+          );
+        }
+        next.set(stream, cursor);
+      }
+    }
+
+    for (const [stream] of pending) {
+      for (const record of response[stream.rows] ?? []) {
+        throwIfAborted();
+        yield { kind: stream.kind, record } as FullDatasetRecord;
+      }
+    }
+    pending = next;
+  }
+}
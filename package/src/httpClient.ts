@@ -1,19 +1,56 @@
 import type {
   EntityComponents,
+  EntityComponentsPatch,
   TaskComponents,
+  TaskComponentsPatch,
   CommandComponent,
 } from "./types/components.js";
-import {
-  componentsToRecord,
-  validateEntityComponents,
-} from "./types/components.js";
+import { componentsToPatch, patchedComponents } from "./types/components.js";
+import { validateEntityComponents, validateTaskComponents } from "./componentValidation.js";
 import type {
+  CheckinResponse,
+  EntityListResponse,
+  ObjectListResponse,
+  ObjectReference,
+  ObjectReferenceCheck,
+  ObjectReferenceCleanup,
+  ObjectReferences,
+  SerializedEntity,
+  SerializedObject,
+  SerializedTask,
+  ServiceStatus,
+  TaskListResponse,
+  TaskStatus,
   ChangedSinceOptions,
   ChangedSinceResponse,
   FullDatasetOptions,
   FullDatasetResponse,
   QueryStreamCursors,
 } from "./types/entities.js";
+import {
+  AtlasResponseValidationError,
+  ObjectPreconditionFailedError,
+  httpErrorFromResponse,
+} from "./errors.js";
+import { discardBody, executeWithRetry, resolveRetryPolicy } from "./retry.js";
+import type { ResolvedRetryPolicy, RetryOptions } from "./retry.js";
+import { abortReason, createDeadline, raceAbort } from "./abort.js";
+import { buildRequestUrl, composeMiddleware } from "./middleware.js";
+import type { AtlasMiddleware, AtlasRequest } from "./middleware.js";
+import { TokenCache } from "./auth.js";
+import type { TokenProvider } from "./auth.js";
+import { paginate } from "./pagination.js";
+import type { PaginationOptions } from "./pagination.js";
+import { drainChangedSince as drainChangedSinceStreams } from "./changedSince.js";
+import type { ChangedSinceBatch, DrainChangedSinceOptions } from "./changedSince.js";
+import { iterateFullDataset as iterateFullDatasetStreams } from "./fullDataset.js";
+import type { FullDatasetRecord, IterateFullDatasetOptions } from "./fullDataset.js";
+import { responseIssues } from "./responseValidation.js";
+import { assertTaskTransition } from "./taskStatus.js";
+import { TaskWaiter } from "./taskWaiter.js";
+import type { CommandRegistry, CommandTaskComponents, RegisteredCommand } from "./commands.js";
+import type { WaitForTaskOptions } from "./taskWaiter.js";
+import type { ResponseValidationMode } from "./responseValidation.js";
 
 export interface FetchImplementation {
   (input: RequestInfo, init?: RequestInit): Promise<Response>;
@@ -22,36 +59,106 @@ export interface FetchImplementation {
 export interface ClientOptions {
   baseUrl: string;
   token?: string;
+  /**
+   * Async source of bearer tokens, called lazily and cached. On a 401 the cached
+   * token is dropped, refreshed once, and the request is replayed. Takes
+   * precedence over `token`.
+   */
+  tokenProvider?: TokenProvider;
   fetchImpl?: FetchImplementation;
+  /**
+   * Retry transient failures with exponential backoff. Disabled by default;
+   * pass `true` for the defaults or a `RetryOptions` object to tune them.
+   */
+  retry?: RetryOptions | boolean;
+  /** Default deadline in milliseconds for every call, including retries. Unset means no timeout. */
+  timeoutMs?: number;
+  /**
+   * Ordered request/response middleware. Every request (JSON, multipart, downloads,
+   * object PATCH with If-Match) runs through the chain once per attempt.
+   */
+  middleware?: AtlasMiddleware[];
+  /**
+   * Check response bodies against the declared return types at runtime (default
+   * `"off"`). `"warn"` logs each distinct mismatch once; `"strict"` rejects the
+   * call with `AtlasResponseValidationError`.
+   */
+  validateResponses?: ResponseValidationMode;
+  /**
+   * Fetch the task before each lifecycle call (acknowledge, start, complete,
+   * fail, status transitions and `updateTask` with a status) and reject with
+   * `AtlasTaskTransitionError` instead of sending an illegal move. Costs one
+   * extra GET per call; off by default.
+   */
+  checkTaskTransitions?: boolean;
+  /**
+   * Command types `createTask` and `updateTask` accept. Parameters of a
+   * registered command are checked against its `parameters_schema`, and
+   * unregistered command types are rejected unless the registry allows them.
+   * Without it, any command type is sent.
+   */
+  commands?: CommandRegistry;
+}
+
+/** Per-call cancellation accepted as the last argument of every client method. */
+export interface RequestOptions {
+  /** Abort the call, including pending retries and backoff waits. */
+  signal?: AbortSignal;
+  /** Deadline for this call in milliseconds; overrides `ClientOptions.timeoutMs`. */
+  timeoutMs?: number;
 }
 
 export type JsonRecord = Record<string, unknown>;
 
-/** Raised when PATCH /objects/{id} returns 412; callers should refetch, merge, and retry. */
-export class ObjectPreconditionFailedError extends Error {
-  readonly status = 412;
-  readonly objectId: string;
+/** Per-call state threaded through the private transport helpers. */
+interface CallContext {
+  /** Public method name, surfaced to middleware as `AtlasRequest.operation`. */
+  operation: string;
+  signal?: AbortSignal;
+}
 
-  constructor(objectId: string, detail: string) {
-    super(detail || `HTTP 412 precondition failed for object ${objectId}`);
-    this.name = "ObjectPreconditionFailedError";
-    this.objectId = objectId;
-  }
+interface RequestSpec {
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body?: JsonRecord | FormData | null;
+  /** Extra headers layered over the defaults (e.g. If-Match). */
+  headers?: HeadersInit;
+}
+
+/** A response plus the method and URL that actually went out after middleware. */
+interface Exchange {
+  response: Response;
+  method: string;
+  url: string;
+  /** Bearer token attached to the final attempt. */
+  token?: string;
 }
 
 export class AtlasHttpClient {
   private readonly baseUrl: string;
   private readonly token?: string;
+  private readonly tokens?: TokenCache;
   private readonly fetchImpl: FetchImplementation;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly timeoutMs?: number;
+  private readonly middleware: readonly AtlasMiddleware[];
   /** Weak ETags from GET /objects/{id}; sent as If-Match on PATCH. */
   private readonly objectEtags = new Map<string, string>();
   /** Hard cap on cached ETags to prevent unbounded memory growth. */
   private static readonly MAX_ETAG_CACHE_SIZE = 10_000;
   private readonly deprecationWarnings = new Set<string>();
+  private readonly validateResponses: ResponseValidationMode;
+  private readonly responseWarnings = new Set<string>();
+  private readonly checkTaskTransitions: boolean;
+  private readonly commands?: CommandRegistry;
+  /** Shared by every `waitForTask` call; created on first use. */
+  private taskWaiter?: TaskWaiter;
 
   constructor(options: ClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, "");
     this.token = options.token;
+    this.tokens = options.tokenProvider ? new TokenCache(options.tokenProvider) : undefined;
     const defaultFetch =
       typeof globalThis.fetch === "function" ? globalThis.fetch.bind(globalThis) : undefined;
     const resolvedFetch = options.fetchImpl ?? defaultFetch;
@@ -59,6 +166,60 @@ export class AtlasHttpClient {
       throw new Error("fetch is not available; provide fetchImpl");
     }
     this.fetchImpl = resolvedFetch;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.timeoutMs = options.timeoutMs;
+    this.middleware = [...(options.middleware ?? [])];
+    this.validateResponses = options.validateResponses ?? "off";
+    this.checkTaskTransitions = options.checkTaskTransitions ?? false;
+    this.commands = options.commands;
+  }
+
+  /**
+   * Run one public operation inside a cancellation scope. The timeout covers the
+   * whole call, so compound helpers (reference validation, uploads with
+   * references) share a single deadline across their requests.
+   */
+  private async call<T>(
+    operation: string,
+    requestOptions: RequestOptions | undefined,
+    fn: (ctx: CallContext) => Promise<T>,
+  ): Promise<T> {
+    const deadline = createDeadline(
+      requestOptions?.signal,
+      requestOptions?.timeoutMs ?? this.timeoutMs,
+    );
+    let result: T;
+    try {
+      result = await fn({ operation, signal: deadline.signal });
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.dispose();
+    }
+    this.checkResponse(operation, result);
+    return result;
+  }
+
+  /** Apply `validateResponses` to what `operation` resolved with. */
+  private checkResponse(operation: string, body: unknown): void {
+    if (this.validateResponses === "off") {
+      return;
+    }
+    const issues = responseIssues(operation, body);
+    if (issues.length === 0) {
+      return;
+    }
+    const error = new AtlasResponseValidationError(operation, issues, body);
+    if (this.validateResponses === "strict") {
+      throw error;
+    }
+    // Array indices vary from call to call; warn once per operation and field.
+    const [first] = issues;
+    const key = `${operation} ${first.path.replace(/\[\d+\]/g, "[]")}: ${first.message}`;
+    if (!this.responseWarnings.has(key)) {
+      this.responseWarnings.add(key);
+      console.warn(error.message);
+    }
   }
 
   /** Store an ETag with LRU eviction: deletes and re-inserts the key so Map
@@ -73,45 +234,109 @@ export class AtlasHttpClient {
     }
   }
 
-  private headers(): HeadersInit {
+  private headers(token: string | undefined): HeadersInit {
     const headers: HeadersInit = { "Content-Type": "application/json" };
-    if (this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
     }
     return headers;
   }
 
-  private multipartHeaders(): HeadersInit {
+  private multipartHeaders(token: string | undefined): HeadersInit {
     const headers: HeadersInit = {};
-    if (this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
     }
     return headers;
   }
 
+  /**
+   * Every transport path goes through here. With a `tokenProvider`, a 401 drops
+   * the token that was rejected, refreshes it once, and replays the request.
+   */
+  private async send(ctx: CallContext, spec: RequestSpec): Promise<Exchange> {
+    const exchange = await this.dispatch(ctx, spec);
+    if (exchange.response.status !== 401 || !this.tokens || exchange.token === undefined) {
+      return exchange;
+    }
+    await discardBody(exchange.response);
+    this.tokens.invalidate(exchange.token);
+    return this.dispatch(ctx, spec);
+  }
+
+  /**
+   * Retry policy and middleware chain around `fetchImpl`. Each attempt gets a
+   * fresh `AtlasRequest`, so middleware mutations never compound across retries.
+   */
+  private async dispatch(ctx: CallContext, spec: RequestSpec): Promise<Exchange> {
+    const { signal } = ctx;
+    let sent: { method: string; url: string } | undefined;
+    const pipeline = composeMiddleware(this.middleware, (request: AtlasRequest) => {
+      const url = buildRequestUrl(request).toString();
+      sent = { method: request.method, url };
+      const body =
+        request.body instanceof FormData
+          ? request.body
+          : request.body
+            ? JSON.stringify(request.body)
+            : undefined;
+      return this.fetchImpl(url, {
+        method: request.method,
+        headers: request.headers,
+        body,
+        signal: request.signal,
+      });
+    });
+
+    const token = this.tokens ? await raceAbort(this.tokens.get(), signal) : this.token;
+    let lastRequest: AtlasRequest | undefined;
+    const response = await executeWithRetry(
+      this.retryPolicy,
+      spec.method,
+      (attempt) => {
+        if (signal?.aborted) {
+          return Promise.reject(abortReason(signal));
+        }
+        const headers = new Headers(
+          spec.body instanceof FormData ? this.multipartHeaders(token) : this.headers(token),
+        );
+        new Headers(spec.headers).forEach((value, key) => headers.set(key, value));
+        lastRequest = {
+          operation: ctx.operation,
+          attempt,
+          method: spec.method,
+          baseUrl: this.baseUrl,
+          path: spec.path,
+          params: spec.params ? { ...spec.params } : undefined,
+          body: spec.body,
+          headers,
+          signal,
+        };
+        sent = undefined;
+        return raceAbort(pipeline(lastRequest), signal);
+      },
+      signal,
+    );
+    // A middleware that short-circuits never reaches fetchImpl; report the request it saw.
+    const { method, url } = sent ?? {
+      method: lastRequest!.method,
+      url: buildRequestUrl(lastRequest!).toString(),
+    };
+    return { response, method, url, token };
+  }
+
   private async request<T>(
+    ctx: CallContext,
     method: string,
     path: string,
     body?: JsonRecord | null,
     params?: Record<string, unknown>,
   ): Promise<T> {
-    const url = new URL(`${this.baseUrl}${path}`);
-    if (params) {
-      for (const [key, value] of Object.entries(params)) {
-        if (value === undefined || value === null) continue;
-        url.searchParams.set(key, String(value));
-      }
-    }
-
-    const response = await this.fetchImpl(url.toString(), {
-      method,
-      headers: this.headers(),
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    const exchange = await this.send(ctx, { method, path, body, params });
+    const { response } = exchange;
 
     if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
+      throw await httpErrorFromResponse(response, exchange.method, exchange.url);
     }
 
     if (response.status === 204) {
@@ -122,18 +347,17 @@ export class AtlasHttpClient {
   }
 
   /** GET JSON or null when the server returns 404 (used for reference validation). */
-  private async getJsonAllowNotFound(path: string): Promise<JsonRecord | null> {
-    const url = new URL(`${this.baseUrl}${path}`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "GET",
-      headers: this.headers(),
-    });
+  private async getJsonAllowNotFound(
+    ctx: CallContext,
+    path: string,
+  ): Promise<JsonRecord | null> {
+    const exchange = await this.send(ctx, { method: "GET", path });
+    const { response } = exchange;
     if (response.status === 404) {
       return null;
     }
     if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
+      throw await httpErrorFromResponse(response, exchange.method, exchange.url);
     }
     const text = await response.text();
     if (!text.trim()) {
@@ -143,19 +367,15 @@ export class AtlasHttpClient {
   }
 
   private async multipartRequest<T>(
+    ctx: CallContext,
     path: string,
     formData: FormData,
   ): Promise<{ body: T; etag: string | null }> {
-    const url = new URL(`${this.baseUrl}${path}`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "POST",
-      headers: this.multipartHeaders(),
-      body: formData,
-    });
+    const exchange = await this.send(ctx, { method: "POST", path, body: formData });
+    const { response } = exchange;
 
     if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
+      throw await httpErrorFromResponse(response, exchange.method, exchange.url);
     }
 
     const etag = response.headers.get("etag");
@@ -167,22 +387,44 @@ export class AtlasHttpClient {
   }
 
   // Service ------------------------------------------------------------------
-  getRoot() {
-    return this.request("GET", "/");
+  getRoot(requestOptions?: RequestOptions) {
+    return this.call("getRoot", requestOptions, (ctx) => this.request<JsonRecord>(ctx, "GET", "/"));
   }
 
-  getHealth() {
-    return this.request("GET", "/health");
+  getHealth(requestOptions?: RequestOptions) {
+    return this.call("getHealth", requestOptions, (ctx) =>
+      this.request<ServiceStatus>(ctx, "GET", "/health"),
+    );
   }
 
-  getReadiness() {
-    return this.request("GET", "/readiness");
+  getReadiness(requestOptions?: RequestOptions) {
+    return this.call("getReadiness", requestOptions, (ctx) =>
+      this.request<ServiceStatus>(ctx, "GET", "/readiness"),
+    );
   }
 
   private normalizeOptionalRefValue(value: unknown): unknown {
     return value ?? null;
   }
 
+  /** Validate task components against `commands` when set, else as plain `TaskComponents`. */
+  private validateTask(components: Record<string, unknown>): void {
+    if (this.commands) {
+      this.commands.validateTaskComponents(components);
+    } else {
+      validateTaskComponents(components);
+    }
+  }
+
+  /** With `checkTaskTransitions`, refuse an illegal move before it is sent. */
+  private async guardTaskTransition(ctx: CallContext, taskId: string, to: TaskStatus): Promise<void> {
+    if (!this.checkTaskTransitions) {
+      return;
+    }
+    const task = await this.request<SerializedTask>(ctx, "GET", `/tasks/${taskId}`);
+    assertTaskTransition(taskId, task.status, to);
+  }
+
   private warnDeprecated(message: string): void {
     if (this.deprecationWarnings.has(message)) {
       return;
@@ -192,16 +434,22 @@ export class AtlasHttpClient {
   }
 
   // Entities ------------------------------------------------------------------
-  listEntities(limit = 100, offset = 0) {
-    return this.request("GET", "/entities", null, { limit, offset });
+  listEntities(limit = 100, offset = 0, requestOptions?: RequestOptions) {
+    return this.call("listEntities", requestOptions, (ctx) =>
+      this.request<EntityListResponse>(ctx, "GET", "/entities", null, { limit, offset }),
+    );
   }
 
-  getEntity(entityId: string) {
-    return this.request("GET", `/entities/${entityId}`);
+  getEntity(entityId: string, requestOptions?: RequestOptions) {
+    return this.call("getEntity", requestOptions, (ctx) =>
+      this.request<SerializedEntity>(ctx, "GET", `/entities/${entityId}`),
+    );
   }
 
-  getEntityByAlias(alias: string) {
-    return this.request("GET", `/entities/alias/${alias}`);
+  getEntityByAlias(alias: string, requestOptions?: RequestOptions) {
+    return this.call("getEntityByAlias", requestOptions, (ctx) =>
+      this.request<SerializedEntity>(ctx, "GET", `/entities/alias/${alias}`),
+    );
   }
 
   createEntity(
@@ -210,6 +458,7 @@ export class AtlasHttpClient {
     alias: string,
     subtype: string,
     components?: EntityComponents,
+    requestOptions?: RequestOptions,
   ) {
     const payload: JsonRecord = {
       entity_id: entityId,
@@ -218,28 +467,38 @@ export class AtlasHttpClient {
       subtype,
     };
     if (components !== undefined) {
-      // Validate component keys if provided
       validateEntityComponents(components as Record<string, unknown>);
-      payload.components = componentsToRecord(components);
+      payload.components = componentsToPatch(components);
     }
-    return this.request("POST", "/entities", payload);
+    return this.call("createEntity", requestOptions, (ctx) =>
+      this.request<SerializedEntity>(ctx, "POST", "/entities", payload),
+    );
   }
 
-  updateEntity(entityId: string, components?: EntityComponents, options?: { subtype?: string }) {
+  updateEntity(
+    entityId: string,
+    components?: EntityComponentsPatch,
+    options?: { subtype?: string },
+    requestOptions?: RequestOptions,
+  ) {
     if (components === undefined && options?.subtype === undefined) {
       throw new Error("AtlasHttpClient.updateEntity requires a components payload or subtype.");
     }
     const payload: JsonRecord = {};
     if (components !== undefined) {
-      validateEntityComponents(components as Record<string, unknown>);
-      payload.components = componentsToRecord(components);
+      validateEntityComponents(patchedComponents(components));
+      payload.components = componentsToPatch(components);
     }
     if (options?.subtype !== undefined) payload.subtype = options.subtype;
-    return this.request("PATCH", `/entities/${entityId}`, payload);
+    return this.call("updateEntity", requestOptions, (ctx) =>
+      this.request<SerializedEntity>(ctx, "PATCH", `/entities/${entityId}`, payload),
+    );
   }
 
-  deleteEntity(entityId: string) {
-    return this.request("DELETE", `/entities/${entityId}`);
+  deleteEntity(entityId: string, requestOptions?: RequestOptions) {
+    return this.call("deleteEntity", requestOptions, (ctx) =>
+      this.request<void>(ctx, "DELETE", `/entities/${entityId}`),
+    );
   }
 
   updateEntityTelemetry(
@@ -251,6 +510,7 @@ export class AtlasHttpClient {
       speed_m_s?: number;
       heading_deg?: number;
     },
+    requestOptions?: RequestOptions,
   ) {
     const payload: JsonRecord = {};
     if (options.latitude !== undefined) payload.latitude = options.latitude;
@@ -258,7 +518,9 @@ export class AtlasHttpClient {
     if (options.altitude_m !== undefined) payload.altitude_m = options.altitude_m;
     if (options.speed_m_s !== undefined) payload.speed_m_s = options.speed_m_s;
     if (options.heading_deg !== undefined) payload.heading_deg = options.heading_deg;
-    return this.request("PATCH", `/entities/${entityId}/telemetry`, payload);
+    return this.call("updateEntityTelemetry", requestOptions, (ctx) =>
+      this.request<SerializedEntity>(ctx, "PATCH", `/entities/${entityId}/telemetry`, payload),
+    );
   }
 
   checkinEntity(
@@ -277,6 +539,7 @@ export class AtlasHttpClient {
       since?: string;
       fields?: string;
     },
+    requestOptions?: RequestOptions,
   ) {
     const payload: JsonRecord = { ...telemetry };
     if (options?.status !== undefined) {
@@ -288,45 +551,71 @@ export class AtlasHttpClient {
       since: options?.since,
       fields: options?.fields,
     };
-    return this.request("POST", `/entities/${entityId}/checkin`, payload, params);
+    return this.call("checkinEntity", requestOptions, (ctx) =>
+      this.request<CheckinResponse>(ctx, "POST", `/entities/${entityId}/checkin`, payload, params),
+    );
   }
 
   // Tasks ---------------------------------------------------------------------
-  listTasks(limit = 25, offset = 0, status?: string) {
+  listTasks(limit = 25, offset = 0, status?: string, requestOptions?: RequestOptions) {
     if (status !== undefined) {
       this.warnDeprecated(
         "AtlasHttpClient.listTasks(status=...) is deprecated and will be removed in the next release.",
       );
     }
-    return this.request("GET", "/tasks", null, {
-      limit,
-      offset,
-    });
+    return this.call("listTasks", requestOptions, (ctx) =>
+      this.request<TaskListResponse>(ctx, "GET", "/tasks", null, {
+        limit,
+        offset,
+      }),
+    );
   }
 
-  getTask(taskId: string) {
-    return this.request("GET", `/tasks/${taskId}`);
+  getTask(taskId: string, requestOptions?: RequestOptions) {
+    return this.call("getTask", requestOptions, (ctx) =>
+      this.request<SerializedTask>(ctx, "GET", `/tasks/${taskId}`),
+    );
   }
 
+  /** Create a task for a command registered in `CommandParameterTypes`, with typed `parameters`. */
+  createTask<C extends RegisteredCommand>(
+    taskId: string,
+    components: CommandTaskComponents<C>,
+    options?: { status?: TaskStatus; entity_id?: string; extra?: JsonRecord },
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedTask>;
   createTask(
     taskId: string,
     components?: TaskComponents,
-    options?: { status?: string; entity_id?: string; extra?: JsonRecord }
-  ) {
+    options?: { status?: TaskStatus; entity_id?: string; extra?: JsonRecord },
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedTask>;
+  createTask(
+    taskId: string,
+    components?: TaskComponents | CommandTaskComponents<RegisteredCommand>,
+    options?: { status?: TaskStatus; entity_id?: string; extra?: JsonRecord },
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedTask> {
     const payload: JsonRecord = {
       task_id: taskId,
       status: options?.status || "pending",
     };
     if (options?.entity_id !== undefined) payload.entity_id = options.entity_id;
-    if (components !== undefined) payload.components = componentsToRecord(components);
+    if (components !== undefined) {
+      this.validateTask(components as Record<string, unknown>);
+      payload.components = componentsToPatch(components as TaskComponents);
+    }
     if (options?.extra !== undefined) payload.extra = options.extra;
-    return this.request("POST", "/tasks", payload);
+    return this.call("createTask", requestOptions, (ctx) =>
+      this.request<SerializedTask>(ctx, "POST", "/tasks", payload),
+    );
   }
 
   updateTask(
     taskId: string,
-    components?: TaskComponents,
-    options?: { status?: string; entity_id?: string; extra?: JsonRecord }
+    components?: TaskComponentsPatch,
+    options?: { status?: TaskStatus; entity_id?: string; extra?: JsonRecord },
+    requestOptions?: RequestOptions,
   ) {
     if (components === undefined && options === undefined) {
       throw new Error(
@@ -334,66 +623,98 @@ export class AtlasHttpClient {
       );
     }
     const payload: JsonRecord = {};
-    if (components !== undefined) payload.components = componentsToRecord(components);
+    if (components !== undefined) {
+      this.validateTask(patchedComponents(components));
+      payload.components = componentsToPatch(components);
+    }
     if (options?.status !== undefined) payload.status = options.status;
     if (options?.entity_id !== undefined) payload.entity_id = options.entity_id;
     if (options?.extra !== undefined) payload.extra = options.extra;
-    return this.request("PATCH", `/tasks/${taskId}`, payload);
+    return this.call("updateTask", requestOptions, async (ctx) => {
+      if (options?.status !== undefined) {
+        await this.guardTaskTransition(ctx, taskId, options.status);
+      }
+      return this.request<SerializedTask>(ctx, "PATCH", `/tasks/${taskId}`, payload);
+    });
   }
 
-  deleteTask(taskId: string) {
-    return this.request("DELETE", `/tasks/${taskId}`);
+  deleteTask(taskId: string, requestOptions?: RequestOptions) {
+    return this.call("deleteTask", requestOptions, (ctx) =>
+      this.request<void>(ctx, "DELETE", `/tasks/${taskId}`),
+    );
   }
 
-  getTasksByEntity(entityId: string, limit?: number, offset?: number): Promise<unknown>;
+  getTasksByEntity(
+    entityId: string,
+    limit?: number,
+    offset?: number,
+    requestOptions?: RequestOptions,
+  ): Promise<TaskListResponse>;
   /** @deprecated Passing a status string as the 2nd argument is ignored; use (entityId, limit?, offset?) only. */
   getTasksByEntity(
     entityId: string,
     deprecatedStatus: string,
     limit?: number,
     offset?: number,
-  ): Promise<unknown>;
+    requestOptions?: RequestOptions,
+  ): Promise<TaskListResponse>;
   getTasksByEntity(
     entityId: string,
     limitOrDeprecatedStatus: number | string = 25,
     offsetOrLimit?: number,
-    offsetOnly?: number,
-  ): Promise<unknown> {
+    offsetOrRequestOptions?: number | RequestOptions,
+    deprecatedRequestOptions?: RequestOptions,
+  ): Promise<TaskListResponse> {
     let limit = 25;
     let offset = 0;
+    let requestOptions: RequestOptions | undefined;
     if (typeof limitOrDeprecatedStatus === "string") {
       this.warnDeprecated(
         "AtlasHttpClient.getTasksByEntity(..., status) is deprecated and ignored; pass (entityId, limit?, offset?) only.",
       );
       limit = offsetOrLimit ?? 25;
-      offset = offsetOnly ?? 0;
+      offset = typeof offsetOrRequestOptions === "number" ? offsetOrRequestOptions : 0;
+      requestOptions = deprecatedRequestOptions;
     } else {
       limit = limitOrDeprecatedStatus;
       offset = offsetOrLimit ?? 0;
+      requestOptions =
+        typeof offsetOrRequestOptions === "object" ? offsetOrRequestOptions : undefined;
     }
-    return this.request("GET", `/entities/${entityId}/tasks`, null, {
-      limit,
-      offset,
-    });
+    return this.call("getTasksByEntity", requestOptions, (ctx) =>
+      this.request<TaskListResponse>(ctx, "GET", `/entities/${entityId}/tasks`, null, {
+        limit,
+        offset,
+      }),
+    );
   }
 
-  acknowledgeTask(taskId: string) {
-    return this.request("POST", `/tasks/${taskId}/acknowledge`, {});
+  acknowledgeTask(taskId: string, requestOptions?: RequestOptions) {
+    return this.call("acknowledgeTask", requestOptions, async (ctx) => {
+      await this.guardTaskTransition(ctx, taskId, "acknowledged");
+      return this.request<SerializedTask>(ctx, "POST", `/tasks/${taskId}/acknowledge`, {});
+    });
   }
 
-  startTask(taskId: string) {
-    return this.acknowledgeTask(taskId);
+  startTask(taskId: string, requestOptions?: RequestOptions) {
+    return this.call("startTask", requestOptions, async (ctx) => {
+      await this.guardTaskTransition(ctx, taskId, "acknowledged");
+      return this.request<SerializedTask>(ctx, "POST", `/tasks/${taskId}/acknowledge`, {});
+    });
   }
 
-  completeTask(taskId: string, result?: JsonRecord) {
+  completeTask(taskId: string, result?: JsonRecord, requestOptions?: RequestOptions) {
     const payload: JsonRecord = {};
     if (result !== undefined) payload.result = result;
-    return this.request("POST", `/tasks/${taskId}/complete`, payload);
+    return this.call("completeTask", requestOptions, async (ctx) => {
+      await this.guardTaskTransition(ctx, taskId, "completed");
+      return this.request<SerializedTask>(ctx, "POST", `/tasks/${taskId}/complete`, payload);
+    });
   }
 
   transitionTaskStatus(
     taskId: string,
-    status: string,
+    status: TaskStatus,
     options?: {
       progress?: number;
       message?: string;
@@ -402,6 +723,7 @@ export class AtlasHttpClient {
       /** @deprecated */
       extra?: JsonRecord;
     },
+    requestOptions?: RequestOptions,
   ) {
     if (options?.validate !== undefined || options?.extra !== undefined) {
       this.warnDeprecated(
@@ -411,64 +733,85 @@ export class AtlasHttpClient {
     const payload: JsonRecord = { status };
     if (options?.progress !== undefined) payload.progress = options.progress;
     if (options?.message !== undefined) payload.message = options.message;
-    return this.request("POST", `/tasks/${taskId}/status`, payload);
+    return this.call("transitionTaskStatus", requestOptions, async (ctx) => {
+      await this.guardTaskTransition(ctx, taskId, status);
+      return this.request<SerializedTask>(ctx, "POST", `/tasks/${taskId}/status`, payload);
+    });
   }
 
   failTask(
     taskId: string,
     errorMessage?: string,
     errorDetails?: JsonRecord,
+    requestOptions?: RequestOptions,
   ) {
     const errObj: JsonRecord = {};
     if (errorMessage !== undefined) errObj.message = errorMessage;
     if (errorDetails !== undefined) errObj.details = errorDetails;
     const payload: JsonRecord = {};
     if (Object.keys(errObj).length > 0) payload.error = errObj;
-    return this.request("POST", `/tasks/${taskId}/fail`, payload);
+    return this.call("failTask", requestOptions, async (ctx) => {
+      await this.guardTaskTransition(ctx, taskId, "failed");
+      return this.request<SerializedTask>(ctx, "POST", `/tasks/${taskId}/fail`, payload);
+    });
+  }
+
+  /**
+   * Poll until the task reaches a terminal status (or `options.until` holds) and
+   * resolve with it. Rejects with `AtlasTaskFailedError` when the task fails or
+   * is cancelled, and with `AtlasTaskTimeoutError` after `options.timeoutMs`.
+   * Concurrent waits share one poller, which switches to changed-since once
+   * several tasks are awaited at the same time.
+   */
+  waitForTask(taskId: string, options?: WaitForTaskOptions): Promise<SerializedTask> {
+    this.taskWaiter ??= new TaskWaiter(this);
+    return this.taskWaiter.wait(taskId, options);
   }
 
   // Objects -------------------------------------------------------------------
-  async downloadObject(objectId: string): Promise<{
+  downloadObject(objectId: string, requestOptions?: RequestOptions): Promise<{
     data: Uint8Array;
     contentType?: string;
     contentLength?: number;
   }> {
-    const url = new URL(`${this.baseUrl}/objects/${objectId}/download`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "GET",
-      headers: this.headers(),
+    return this.call("downloadObject", requestOptions, async (ctx) => {
+      const exchange = await this.send(ctx, {
+        method: "GET",
+        path: `/objects/${objectId}/download`,
+      });
+      const { response } = exchange;
+      if (!response.ok) {
+        throw await httpErrorFromResponse(response, exchange.method, exchange.url);
+      }
+      const buffer = await response.arrayBuffer();
+      const contentType = response.headers.get("content-type") || undefined;
+      const lengthHeader = response.headers.get("content-length");
+      const contentLength =
+        lengthHeader && !Number.isNaN(Number(lengthHeader)) ? Number(lengthHeader) : undefined;
+      return { data: new Uint8Array(buffer), contentType, contentLength };
     });
-    if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
-    }
-    const buffer = await response.arrayBuffer();
-    const contentType = response.headers.get("content-type") || undefined;
-    const lengthHeader = response.headers.get("content-length");
-    const contentLength =
-      lengthHeader && !Number.isNaN(Number(lengthHeader)) ? Number(lengthHeader) : undefined;
-    return { data: new Uint8Array(buffer), contentType, contentLength };
   }
 
-  async viewObject(objectId: string): Promise<{
+  viewObject(objectId: string, requestOptions?: RequestOptions): Promise<{
     data: string;
     contentType?: string;
     contentLength?: number;
   }> {
-    const url = new URL(`${this.baseUrl}/objects/${objectId}/view`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "GET",
-      headers: this.headers(),
+    return this.call("viewObject", requestOptions, async (ctx) => {
+      const exchange = await this.send(ctx, {
+        method: "GET",
+        path: `/objects/${objectId}/view`,
+      });
+      const { response } = exchange;
+      if (!response.ok) {
+        throw await httpErrorFromResponse(response, exchange.method, exchange.url);
+      }
+      const contentType = response.headers.get("content-type") || undefined;
+      const lengthHeader = response.headers.get("content-length");
+      const contentLength =
+        lengthHeader && !Number.isNaN(Number(lengthHeader)) ? Number(lengthHeader) : undefined;
+      return { data: await response.text(), contentType, contentLength };
     });
-    if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
-    }
-    const contentType = response.headers.get("content-type") || undefined;
-    const lengthHeader = response.headers.get("content-length");
-    const contentLength =
-      lengthHeader && !Number.isNaN(Number(lengthHeader)) ? Number(lengthHeader) : undefined;
-    return { data: await response.text(), contentType, contentLength };
   }
 
   listObjects(
@@ -477,28 +820,37 @@ export class AtlasHttpClient {
     contentType?: string,
     legacyType?: string,
     validate?: unknown,
+    requestOptions?: RequestOptions,
   ) {
     if (contentType !== undefined || legacyType !== undefined || validate !== undefined) {
       this.warnDeprecated(
         "AtlasHttpClient.listObjects(contentType, type, validate) is deprecated and ignored.",
       );
     }
-    return this.request("GET", "/objects", null, { limit, offset });
+    return this.call("listObjects", requestOptions, (ctx) =>
+      this.request<ObjectListResponse>(ctx, "GET", "/objects", null, { limit, offset }),
+    );
   }
 
   /**
    * GET /objects/{id} returning the JSON body and the ETag from the same response.
    * Use `etag` when calling PATCH immediately so If-Match matches this GET (avoids map races).
    */
-  async getObjectWithEtag(objectId: string): Promise<{ data: unknown; etag: string | null }> {
-    const url = new URL(`${this.baseUrl}/objects/${objectId}`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "GET",
-      headers: this.headers(),
-    });
+  getObjectWithEtag(
+    objectId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<{ data: SerializedObject; etag: string | null }> {
+    return this.call("getObjectWithEtag", requestOptions, (ctx) => this.fetchObjectWithEtag(ctx, objectId));
+  }
+
+  private async fetchObjectWithEtag(
+    ctx: CallContext,
+    objectId: string,
+  ): Promise<{ data: SerializedObject; etag: string | null }> {
+    const exchange = await this.send(ctx, { method: "GET", path: `/objects/${objectId}` });
+    const { response } = exchange;
     if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
+      throw await httpErrorFromResponse(response, exchange.method, exchange.url);
     }
     const rawEtag = response.headers.get("etag");
     const etag = rawEtag?.trim() ? rawEtag.trim() : null;
@@ -507,37 +859,40 @@ export class AtlasHttpClient {
     } else {
       this.objectEtags.delete(objectId);
     }
-    return { data: (await response.json()) as unknown, etag };
+    return { data: (await response.json()) as SerializedObject, etag };
   }
 
-  async getObject(objectId: string): Promise<unknown> {
-    const { data } = await this.getObjectWithEtag(objectId);
+  async getObject(objectId: string, requestOptions?: RequestOptions): Promise<SerializedObject> {
+    const { data } = await this.call("getObject", requestOptions, (ctx) =>
+      this.fetchObjectWithEtag(ctx, objectId),
+    );
     return data;
   }
 
   /** If-Match uses the explicit snapshot ETag when provided, else the latest cached ETag. */
   private async patchObjectWithEtag(
+    ctx: CallContext,
     objectId: string,
     payload: JsonRecord,
     ifMatch: string | undefined,
-  ): Promise<unknown> {
-    const headers = new Headers(this.headers());
-    if (ifMatch) {
-      headers.set("If-Match", ifMatch);
-    }
-    const url = new URL(`${this.baseUrl}/objects/${objectId}`);
-    const response = await this.fetchImpl(url.toString(), {
+  ): Promise<SerializedObject> {
+    const exchange = await this.send(ctx, {
       method: "PATCH",
-      headers,
-      body: JSON.stringify(payload),
+      path: `/objects/${objectId}`,
+      body: payload,
+      headers: ifMatch ? { "If-Match": ifMatch } : undefined,
     });
+    const { response } = exchange;
     if (response.status === 412) {
       const detail = await response.text();
-      throw new ObjectPreconditionFailedError(objectId, detail);
+      throw new ObjectPreconditionFailedError(objectId, detail, {
+        method: exchange.method,
+        url: exchange.url,
+        headers: response.headers,
+      });
     }
     if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
+      throw await httpErrorFromResponse(response, exchange.method, exchange.url);
     }
     const newEtag = response.headers.get("etag");
     if (newEtag) {
@@ -545,19 +900,20 @@ export class AtlasHttpClient {
     } else {
       this.objectEtags.delete(objectId);
     }
-    return (await response.json()) as unknown;
+    return (await response.json()) as SerializedObject;
   }
 
-  async createObject(
+  createObject(
     file: Blob | File,
     objectId: string,
     usageHint?: string,
     referencedBy?: Array<{ entity_id?: string; task_id?: string }>,
     objectType?: string,
+    requestOptions?: RequestOptions,
   ) {
     const contentType = "type" in file ? file.type : "";
     if (!contentType) {
-      throw new Error("AtlasHttpClient.createObject requires a content type.");
+      return Promise.reject(new Error("AtlasHttpClient.createObject requires a content type."));
     }
     const formData = new FormData();
     formData.append("object_id", objectId);
@@ -570,29 +926,40 @@ export class AtlasHttpClient {
       formData.append("type", objectType);
     }
 
-    const { body: stored, etag } = await this.multipartRequest<JsonRecord>("/objects/upload", formData);
-    const storedObjectId = stored["object_id"] as string | undefined;
-    if (storedObjectId) {
-      if (etag) {
-        this.cacheEtag(storedObjectId, etag);
-      } else {
-        this.objectEtags.delete(storedObjectId);
+    return this.call("createObject", requestOptions, async (ctx) => {
+      const { body: stored, etag } = await this.multipartRequest<SerializedObject>(
+        ctx,
+        "/objects/upload",
+        formData,
+      );
+      const storedObjectId = stored.object_id as string | undefined;
+      if (storedObjectId) {
+        if (etag) {
+          this.cacheEtag(storedObjectId, etag);
+        } else {
+          this.objectEtags.delete(storedObjectId);
+        }
       }
-    }
-    if (referencedBy && storedObjectId !== undefined) {
-      for (const reference of referencedBy) {
-        await this.addObjectReference(storedObjectId, reference.entity_id, reference.task_id);
+      if (referencedBy && storedObjectId !== undefined) {
+        for (const reference of referencedBy) {
+          await this.appendObjectReference(
+            ctx,
+            storedObjectId,
+            reference.entity_id,
+            reference.task_id,
+          );
+        }
+      } else if (referencedBy && storedObjectId === undefined) {
+        throw new Error(
+          "AtlasHttpClient.createObject expected the upload response to include an object_id before attaching references.",
+        );
       }
-    } else if (referencedBy && storedObjectId === undefined) {
-      throw new Error(
-        "AtlasHttpClient.createObject expected the upload response to include an object_id before attaching references.",
-      );
-    }
 
-    return stored;
+      return stored;
+    });
   }
 
-  async createObjectMetadata(
+  createObjectMetadata(
     objectId: string,
     options?: {
       path?: string;
@@ -604,7 +971,8 @@ export class AtlasHttpClient {
       referenced_by?: Array<{ entity_id?: string; task_id?: string }>;
       extra?: JsonRecord;
     },
-  ): Promise<unknown> {
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedObject> {
     const payload: JsonRecord = {
       object_id: objectId,
       path: options?.path,
@@ -616,23 +984,20 @@ export class AtlasHttpClient {
       referenced_by: options?.referenced_by,
       extra: options?.extra,
     };
-    const url = new URL(`${this.baseUrl}/objects`);
-    const response = await this.fetchImpl(url.toString(), {
-      method: "POST",
-      headers: this.headers(),
-      body: JSON.stringify(payload),
+    return this.call("createObjectMetadata", requestOptions, async (ctx) => {
+      const exchange = await this.send(ctx, { method: "POST", path: "/objects", body: payload });
+      const { response } = exchange;
+      if (!response.ok) {
+        throw await httpErrorFromResponse(response, exchange.method, exchange.url);
+      }
+      const body = (await response.json()) as SerializedObject;
+      const oid = (body.object_id as string | undefined) ?? objectId;
+      const etag = response.headers.get("etag");
+      if (etag) {
+        this.cacheEtag(oid, etag);
+      }
+      return body;
     });
-    if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`HTTP ${response.status}: ${detail}`);
-    }
-    const body = (await response.json()) as JsonRecord;
-    const oid = (body.object_id as string | undefined) ?? objectId;
-    const etag = response.headers.get("etag");
-    if (etag) {
-      this.cacheEtag(oid, etag);
-    }
-    return body;
   }
 
   async updateObject(
@@ -640,7 +1005,8 @@ export class AtlasHttpClient {
     usageHints?: string[],
     referencedBy?: Array<{ entity_id?: string; task_id?: string }>,
     etag?: string,
-  ): Promise<unknown> {
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedObject> {
     if (usageHints === undefined && referencedBy === undefined) {
       throw new Error(
         "AtlasHttpClient.updateObject requires usageHints or referencedBy to make an update.",
@@ -650,21 +1016,37 @@ export class AtlasHttpClient {
     if (usageHints !== undefined) payload.usage_hints = usageHints;
     if (referencedBy !== undefined) payload.referenced_by = referencedBy;
     const ifMatch = etag ?? this.objectEtags.get(objectId);
-    return this.patchObjectWithEtag(objectId, payload, ifMatch);
+    return this.call("updateObject", requestOptions, (ctx) =>
+      this.patchObjectWithEtag(ctx, objectId, payload, ifMatch),
+    );
   }
 
-  async deleteObject(objectId: string): Promise<unknown> {
-    const out = await this.request("DELETE", `/objects/${objectId}`);
-    this.objectEtags.delete(objectId);
-    return out;
+  deleteObject(objectId: string, requestOptions?: RequestOptions): Promise<void> {
+    return this.call("deleteObject", requestOptions, async (ctx) => {
+      const out = await this.request<void>(ctx, "DELETE", `/objects/${objectId}`);
+      this.objectEtags.delete(objectId);
+      return out;
+    });
   }
 
-  getObjectsByEntity(entityId: string, limit = 50, offset = 0) {
-    return this.request("GET", `/entities/${entityId}/objects`, null, { limit, offset });
+  getObjectsByEntity(
+    entityId: string,
+    limit = 50,
+    offset = 0,
+    requestOptions?: RequestOptions,
+  ) {
+    return this.call("getObjectsByEntity", requestOptions, (ctx) =>
+      this.request<ObjectListResponse>(ctx, "GET", `/entities/${entityId}/objects`, null, {
+        limit,
+        offset,
+      }),
+    );
   }
 
-  getObjectsByTask(taskId: string, limit = 50, offset = 0) {
-    return this.request("GET", `/tasks/${taskId}/objects`, null, { limit, offset });
+  getObjectsByTask(taskId: string, limit = 50, offset = 0, requestOptions?: RequestOptions) {
+    return this.call("getObjectsByTask", requestOptions, (ctx) =>
+      this.request<ObjectListResponse>(ctx, "GET", `/tasks/${taskId}/objects`, null, { limit, offset }),
+    );
   }
 
   /**
@@ -675,7 +1057,19 @@ export class AtlasHttpClient {
     objectId: string,
     entityId?: string,
     taskId?: string,
-  ): Promise<unknown> {
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedObject> {
+    return this.call("addObjectReference", requestOptions, (ctx) =>
+      this.appendObjectReference(ctx, objectId, entityId, taskId),
+    );
+  }
+
+  private async appendObjectReference(
+    ctx: CallContext,
+    objectId: string,
+    entityId?: string,
+    taskId?: string,
+  ): Promise<SerializedObject> {
     const newRef: JsonRecord = {};
     if (entityId !== undefined) newRef.entity_id = entityId;
     if (taskId !== undefined) newRef.task_id = taskId;
@@ -688,8 +1082,8 @@ export class AtlasHttpClient {
       this.normalizeOptionalRefValue(r.task_id) === this.normalizeOptionalRefValue(newRef.task_id);
 
     for (let attempt = 0; attempt < 2; attempt++) {
-      const { data: objRaw, etag } = await this.getObjectWithEtag(objectId);
-      const obj = objRaw as JsonRecord;
+      const { data: objRaw, etag } = await this.fetchObjectWithEtag(ctx, objectId);
+      const obj = objRaw;
       const refsAny = obj.referenced_by;
       const refs: JsonRecord[] = [];
       if (Array.isArray(refsAny)) {
@@ -705,6 +1099,7 @@ export class AtlasHttpClient {
       refs.push(newRef);
       try {
         return await this.patchObjectWithEtag(
+          ctx,
           objectId,
           { referenced_by: refs as Array<{ entity_id?: string; task_id?: string }> },
           etag ?? undefined,
@@ -728,7 +1123,8 @@ export class AtlasHttpClient {
     objectId: string,
     entityId?: string,
     taskId?: string,
-  ): Promise<unknown> {
+    requestOptions?: RequestOptions,
+  ): Promise<SerializedObject> {
     if (entityId === undefined && taskId === undefined) {
       throw new Error("removeObjectReference requires entityId and/or taskId");
     }
@@ -746,45 +1142,55 @@ export class AtlasHttpClient {
       return rt === taskId && entityUnset;
     };
 
-    for (let attempt = 0; attempt < 2; attempt++) {
-      const { data: objRaw, etag } = await this.getObjectWithEtag(objectId);
-      const obj = objRaw as JsonRecord;
-      const refsAny = obj.referenced_by;
-      const refs: JsonRecord[] = [];
-      if (Array.isArray(refsAny)) {
-        for (const item of refsAny) {
-          if (item && typeof item === "object") {
-            refs.push({ ...(item as JsonRecord) });
+    return this.call("removeObjectReference", requestOptions, async (ctx) => {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const { data: objRaw, etag } = await this.fetchObjectWithEtag(ctx, objectId);
+        const obj = objRaw;
+        const refsAny = obj.referenced_by;
+        const refs: JsonRecord[] = [];
+        if (Array.isArray(refsAny)) {
+          for (const item of refsAny) {
+            if (item && typeof item === "object") {
+              refs.push({ ...(item as JsonRecord) });
+            }
           }
         }
-      }
-      const newRefs = refs.filter((r) => !shouldRemove(r));
-      if (newRefs.length === refs.length) {
-        return obj;
-      }
-      try {
-        return await this.patchObjectWithEtag(
-          objectId,
-          { referenced_by: newRefs as Array<{ entity_id?: string; task_id?: string }> },
-          etag ?? undefined,
-        );
-      } catch (e) {
-        if (e instanceof ObjectPreconditionFailedError && attempt === 0) {
-          continue;
+        const newRefs = refs.filter((r) => !shouldRemove(r));
+        if (newRefs.length === refs.length) {
+          return obj;
+        }
+        try {
+          return await this.patchObjectWithEtag(
+            ctx,
+            objectId,
+            { referenced_by: newRefs as Array<{ entity_id?: string; task_id?: string }> },
+            etag ?? undefined,
+          );
+        } catch (e) {
+          if (e instanceof ObjectPreconditionFailedError && attempt === 0) {
+            continue;
+          }
+          throw e;
         }
-        throw e;
       }
-    }
-    throw new Error("removeObjectReference retry exhausted");
+      throw new Error("removeObjectReference retry exhausted");
+    });
   }
 
-  findOrphanedObjects(limit = 100, offset = 0) {
-    return this.request("GET", "/objects/orphaned", null, { limit, offset });
+  findOrphanedObjects(limit = 100, offset = 0, requestOptions?: RequestOptions) {
+    return this.call("findOrphanedObjects", requestOptions, (ctx) =>
+      this.request<ObjectListResponse>(ctx, "GET", "/objects/orphaned", null, { limit, offset }),
+    );
   }
 
-  async getObjectReferences(objectId: string): Promise<JsonRecord> {
-    const obj = (await this.getObject(objectId)) as JsonRecord;
-    let rb: unknown = obj.referenced_by;
+  async getObjectReferences(
+    objectId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<ObjectReferences> {
+    const { data } = await this.call("getObjectReferences", requestOptions, (ctx) =>
+      this.fetchObjectWithEtag(ctx, objectId),
+    );
+    let rb: unknown = data.referenced_by;
     if (rb === undefined || rb === null) {
       rb = [];
     }
@@ -792,23 +1198,29 @@ export class AtlasHttpClient {
       rb = [];
     }
     return {
-      object_id: (obj.object_id as string) ?? objectId,
-      referenced_by: rb,
+      object_id: data.object_id ?? objectId,
+      referenced_by: rb as ObjectReference[],
     };
   }
 
-  async validateObjectReferences(objectId: string): Promise<JsonRecord[]> {
-    const { checks } = await this.validateObjectReferencesSnapshot(objectId);
+  async validateObjectReferences(
+    objectId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<ObjectReferenceCheck[]> {
+    const { checks } = await this.call("validateObjectReferences", requestOptions, (ctx) =>
+      this.validateObjectReferencesSnapshot(ctx, objectId),
+    );
     return checks;
   }
 
   private async validateObjectReferencesSnapshot(
+    ctx: CallContext,
     objectId: string,
-  ): Promise<{ checks: JsonRecord[]; etag: string | null }> {
-    const { data: objRaw, etag } = await this.getObjectWithEtag(objectId);
-    const obj = objRaw as JsonRecord;
+  ): Promise<{ checks: ObjectReferenceCheck[]; etag: string | null }> {
+    const { data: objRaw, etag } = await this.fetchObjectWithEtag(ctx, objectId);
+    const obj = objRaw;
     const refsAny = obj.referenced_by;
-    const out: JsonRecord[] = [];
+    const out: ObjectReferenceCheck[] = [];
     if (!Array.isArray(refsAny)) {
       return { checks: out, etag };
     }
@@ -817,7 +1229,7 @@ export class AtlasHttpClient {
         out.push({ status: "invalid_format", reason: "reference_not_object" });
         continue;
       }
-      const ref = { ...(item as JsonRecord) };
+      const ref = { ...(item as JsonRecord) } as ObjectReferenceCheck;
       const eid = ref.entity_id;
       const tid = ref.task_id;
       if (eid == null && tid == null) {
@@ -828,14 +1240,14 @@ export class AtlasHttpClient {
       }
       let valid = true;
       if (eid != null) {
-        const ent = await this.getJsonAllowNotFound(`/entities/${String(eid)}`);
+        const ent = await this.getJsonAllowNotFound(ctx, `/entities/${String(eid)}`);
         if (ent === null) {
           valid = false;
           if (ref.reason === undefined) ref.reason = "entity_not_found";
         }
       }
       if (valid && tid != null) {
-        const task = await this.getJsonAllowNotFound(`/tasks/${String(tid)}`);
+        const task = await this.getJsonAllowNotFound(ctx, `/tasks/${String(tid)}`);
         if (task === null) {
           valid = false;
           if (ref.reason === undefined) ref.reason = "task_not_found";
@@ -847,27 +1259,108 @@ export class AtlasHttpClient {
     return { checks: out, etag };
   }
 
-  async cleanupObjectReferences(objectId: string): Promise<JsonRecord> {
-    const { checks, etag } = await this.validateObjectReferencesSnapshot(objectId);
-    const kept: Array<{ entity_id?: string; task_id?: string }> = [];
-    let strippedNullsOnValid = false;
-    for (const row of checks) {
-      if (row.status === "valid") {
-        if (row.entity_id === null || row.task_id === null) {
-          strippedNullsOnValid = true;
+  cleanupObjectReferences(
+    objectId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<ObjectReferenceCleanup> {
+    return this.call("cleanupObjectReferences", requestOptions, async (ctx) => {
+      const { checks, etag } = await this.validateObjectReferencesSnapshot(ctx, objectId);
+      const kept: Array<{ entity_id?: string; task_id?: string }> = [];
+      let strippedNullsOnValid = false;
+      for (const row of checks) {
+        if (row.status === "valid") {
+          if (row.entity_id === null || row.task_id === null) {
+            strippedNullsOnValid = true;
+          }
+          const entry: { entity_id?: string; task_id?: string } = {};
+          if (row.entity_id != null) entry.entity_id = String(row.entity_id);
+          if (row.task_id != null) entry.task_id = String(row.task_id);
+          kept.push(entry);
         }
-        const entry: { entity_id?: string; task_id?: string } = {};
-        if (row.entity_id != null) entry.entity_id = String(row.entity_id);
-        if (row.task_id != null) entry.task_id = String(row.task_id);
-        kept.push(entry);
       }
-    }
-    const removed = checks.filter((r) => r.status !== "valid").length;
-    if (removed === 0 && !strippedNullsOnValid) {
-      return { object_id: objectId, cleaned: 0 };
-    }
-    await this.updateObject(objectId, undefined, kept, etag ?? undefined);
-    return { object_id: objectId, cleaned: removed };
+      const removed = checks.filter((r) => r.status !== "valid").length;
+      if (removed === 0 && !strippedNullsOnValid) {
+        return { object_id: objectId, cleaned: 0 };
+      }
+      const ifMatch = etag ?? this.objectEtags.get(objectId);
+      await this.patchObjectWithEtag(ctx, objectId, { referenced_by: kept }, ifMatch);
+      return { object_id: objectId, cleaned: removed };
+    });
+  }
+
+  // Pagination ----------------------------------------------------------------
+  /** Every entity, fetched page by page; see `PaginationOptions` for page size and caps. */
+  iterateEntities(options?: PaginationOptions): AsyncGenerator<SerializedEntity, void, undefined> {
+    return paginate<SerializedEntity>(
+      (limit, offset, requestOptions) => this.listEntities(limit, offset, requestOptions),
+      "entities",
+      options,
+    );
+  }
+
+  iterateTasks(options?: PaginationOptions): AsyncGenerator<SerializedTask, void, undefined> {
+    return paginate<SerializedTask>(
+      (limit, offset, requestOptions) =>
+        this.listTasks(limit, offset, undefined, requestOptions),
+      "tasks",
+      options,
+    );
+  }
+
+  iterateObjects(options?: PaginationOptions): AsyncGenerator<SerializedObject, void, undefined> {
+    return paginate<SerializedObject>(
+      (limit, offset, requestOptions) =>
+        this.listObjects(limit, offset, undefined, undefined, undefined, requestOptions),
+      "objects",
+      options,
+    );
+  }
+
+  iterateTasksByEntity(
+    entityId: string,
+    options?: PaginationOptions,
+  ): AsyncGenerator<SerializedTask, void, undefined> {
+    return paginate<SerializedTask>(
+      (limit, offset, requestOptions) =>
+        this.getTasksByEntity(entityId, limit, offset, requestOptions),
+      "tasks",
+      options,
+    );
+  }
+
+  iterateObjectsByEntity(
+    entityId: string,
+    options?: PaginationOptions,
+  ): AsyncGenerator<SerializedObject, void, undefined> {
+    return paginate<SerializedObject>(
+      (limit, offset, requestOptions) =>
+        this.getObjectsByEntity(entityId, limit, offset, requestOptions),
+      "objects",
+      options,
+    );
+  }
+
+  iterateObjectsByTask(
+    taskId: string,
+    options?: PaginationOptions,
+  ): AsyncGenerator<SerializedObject, void, undefined> {
+    return paginate<SerializedObject>(
+      (limit, offset, requestOptions) =>
+        this.getObjectsByTask(taskId, limit, offset, requestOptions),
+      "objects",
+      options,
+    );
+  }
+
+  iterateOrphanedObjects(
+    options?: PaginationOptions,
+  ): AsyncGenerator<SerializedObject, void, undefined> {
+    return paginate<SerializedObject>(
+      (limit, offset, requestOptions) =>
+        this.findOrphanedObjects(limit, offset, requestOptions),
+      "objects",
+      options,
+    );
   }
 
   private withLegacyDeletedAliases<T extends { id: string }>(
@@ -900,6 +1393,7 @@ export class AtlasHttpClient {
     sinceOrOptions: string | ChangedSinceOptions,
     limitPerType?: number,
     cursors?: QueryStreamCursors,
+    requestOptions?: RequestOptions,
   ): Promise<ChangedSinceResponse> {
     let since: string;
     let limit: number | undefined;
@@ -928,50 +1422,85 @@ export class AtlasHttpClient {
       if (stream.deletedTaskCursor) params.deleted_task_cursor = stream.deletedTaskCursor;
       if (stream.deletedObjectCursor) params.deleted_object_cursor = stream.deletedObjectCursor;
     }
-    const response = await this.request<ChangedSinceResponse>(
-      "GET",
-      "/queries/changed-since",
-      null,
-      params,
+    const response = await this.call("getChangedSince", requestOptions, (ctx) =>
+      this.request<ChangedSinceResponse>(ctx, "GET", "/queries/changed-since", null, params),
     );
     return this.normalizeChangedSinceResponse(response);
   }
 
-  getFullDataset(options?: FullDatasetOptions): Promise<FullDatasetResponse>;
+  /**
+   * Follow all six changed-since cursor streams for `since` until each is
+   * exhausted, yielding one merged batch per request. Every batch (and the
+   * generator's return value) carries the `timestamp` to use as the next `since`.
+   */
+  drainChangedSince(
+    since: string,
+    options?: DrainChangedSinceOptions,
+  ): AsyncGenerator<ChangedSinceBatch, string, undefined> {
+    return drainChangedSinceStreams(this, since, options);
+  }
+
+  getFullDataset(
+    options?: FullDatasetOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<FullDatasetResponse>;
   getFullDataset(
     entityLimit?: number,
     taskLimit?: number,
     objectLimit?: number,
+    requestOptions?: RequestOptions,
   ): Promise<FullDatasetResponse>;
   getFullDataset(
     optionsOrEntityLimit?: FullDatasetOptions | number,
-    taskLimit?: number,
+    taskLimitOrRequestOptions?: number | RequestOptions,
     objectLimit?: number,
+    legacyRequestOptions?: RequestOptions,
   ): Promise<FullDatasetResponse> {
-    const options =
+    const taskLimit =
+      typeof taskLimitOrRequestOptions === "number" ? taskLimitOrRequestOptions : undefined;
+    const legacyForm =
       typeof optionsOrEntityLimit === "number" ||
       taskLimit !== undefined ||
-      objectLimit !== undefined
-        ? {
-            entity_limit:
-              typeof optionsOrEntityLimit === "number" ? optionsOrEntityLimit : undefined,
-            task_limit: taskLimit,
-            object_limit: objectLimit,
-          }
-        : optionsOrEntityLimit;
+      objectLimit !== undefined;
+    const requestOptions = legacyForm
+      ? legacyRequestOptions
+      : typeof taskLimitOrRequestOptions === "object"
+        ? taskLimitOrRequestOptions
+        : legacyRequestOptions;
+    const options = legacyForm
+      ? {
+          entity_limit:
+            typeof optionsOrEntityLimit === "number" ? optionsOrEntityLimit : undefined,
+          task_limit: taskLimit,
+          object_limit: objectLimit,
+        }
+      : (optionsOrEntityLimit as FullDatasetOptions | undefined);
     const el = options?.entityLimit ?? options?.entity_limit;
     const tl = options?.taskLimit ?? options?.task_limit;
     const ol = options?.objectLimit ?? options?.object_limit;
     const ec = options?.entityCursor ?? options?.entity_cursor;
     const tc = options?.taskCursor ?? options?.task_cursor;
     const oc = options?.objectCursor ?? options?.object_cursor;
-    return this.request("GET", "/queries/full", null, {
-      entity_limit: el,
-      task_limit: tl,
-      object_limit: ol,
-      entity_cursor: ec,
-      task_cursor: tc,
-      object_cursor: oc,
-    });
+    return this.call("getFullDataset", requestOptions, (ctx) =>
+      this.request<FullDatasetResponse>(ctx, "GET", "/queries/full", null, {
+        entity_limit: el,
+        task_limit: tl,
+        object_limit: ol,
+        entity_cursor: ec,
+        task_cursor: tc,
+        object_cursor: oc,
+      }),
+    );
+  }
+
+  /**
+   * Page entities, tasks and objects from `/queries/full` to completion,
+   * yielding one `{ kind, record }` at a time so large deployments never sit in
+   * memory whole.
+   */
+  iterateFullDataset(
+    options?: IterateFullDatasetOptions,
+  ): AsyncGenerator<FullDatasetRecord, void, undefined> {
+    return iterateFullDatasetStreams(this, options);
   }
 }
@@ -1,8 +1,143 @@
-export { AtlasHttpClient, ObjectPreconditionFailedError } from "./httpClient.js";
+export { AtlasHttpClient } from "./httpClient.js";
+export {
+  AtlasError,
+  AtlasHttpError,
+  AtlasValidationError,
+  AtlasUnauthorizedError,
+  AtlasForbiddenError,
+  AtlasNotFoundError,
+  AtlasConflictError,
+  AtlasPreconditionFailedError,
+  AtlasRateLimitError,
+  AtlasServerError,
+  ObjectPreconditionFailedError,
+  AtlasTimeoutError,
+  AtlasCheckpointError,
+  AtlasFrameError,
+  AtlasRealtimeError,
+  AtlasRealtimeRequestError,
+  AtlasResponseValidationError,
+  AtlasComponentValidationError,
+  AtlasTaskTransitionError,
+  AtlasTaskFailedError,
+  AtlasTaskTimeoutError,
+  createHttpError
+} from "./errors.js";
+export type { AtlasHttpErrorInit } from "./errors.js";
+export type { ValidationIssue } from "./checks.js";
+export type { ResponseValidationMode } from "./responseValidation.js";
+export type { RetryOptions } from "./retry.js";
+export type { AtlasMiddleware, AtlasNext, AtlasRequest } from "./middleware.js";
+export type { TokenProvider } from "./auth.js";
+export { collectAll } from "./pagination.js";
+export type { PaginationOptions } from "./pagination.js";
+export { drainChangedSince, isEmptyChangedSinceBatch } from "./changedSince.js";
+export { iterateFullDataset } from "./fullDataset.js";
+export { AtlasReplica } from "./replica.js";
+export type {
+  AtlasReplicaEvents,
+  AtlasReplicaOptions,
+  ReplicaAddedEvent,
+  ReplicaKind,
+  ReplicaRecords,
+  ReplicaRemovedEvent,
+  ReplicaSource,
+  ReplicaSyncedEvent,
+  ReplicaUpdatedEvent
+} from "./replica.js";
+export type { Listener } from "./emitter.js";
+export {
+  JsonFileCheckpointStore,
+  MemoryCheckpointStore,
+  parseCheckpoint
+} from "./checkpoint.js";
+export type { CheckpointStore, SyncCheckpoint } from "./checkpoint.js";
+export { runResumableSync } from "./resumableSync.js";
+export type {
+  ResumableSyncOptions,
+  ResumableSyncResult,
+  SyncSource
+} from "./resumableSync.js";
+export type {
+  FullDatasetRecord,
+  FullDatasetSource,
+  IterateFullDatasetOptions
+} from "./fullDataset.js";
+export type {
+  ChangedSinceBatch,
+  ChangedSinceSource,
+  DrainChangedSinceOptions
+} from "./changedSince.js";
+export { AtlasRealtimeClient } from "./realtime.js";
+export type {
+  AtlasRealtimeEvents,
+  RealtimeAckFrames,
+  RealtimeAckPayload,
+  RealtimeClientOptions,
+  RealtimeCloseEvent,
+  RealtimeOpenEvent,
+  RealtimeOperation,
+  RealtimeRequestFrames,
+  RealtimeServerInfo,
+  RealtimeSocket,
+  RealtimeState,
+  ReconnectOptions,
+  WebSocketFactory
+} from "./realtime.js";
+export {
+  TASK_STATUSES,
+  TASK_TRANSITIONS,
+  assertTaskTransition,
+  canTransition,
+  isTaskStatus,
+  isTerminal
+} from "./taskStatus.js";
+export type { WaitForTaskOptions } from "./taskWaiter.js";
+export { CommandRegistry } from "./commands.js";
+export type {
+  CommandParameterTypes,
+  CommandRegistration,
+  CommandRegistryOptions,
+  CommandTaskComponents,
+  RegisteredCommand
+} from "./commands.js";
+export { AssetAgent } from "./assetAgent.js";
+export type {
+  AgentCheckinEvent,
+  AgentTaskCompletedEvent,
+  AgentTaskEvent,
+  AgentTaskFailedEvent,
+  AssetAgentEvents,
+  AssetAgentOptions,
+  AssetAgentSource,
+  AssetAgentStopOptions,
+  TaskContext,
+  TaskHandler
+} from "./assetAgent.js";
+export { TelemetryPublisher } from "./telemetryPublisher.js";
+export type {
+  TelemetryBackpressureEvent,
+  TelemetryDeadbands,
+  TelemetryErrorEvent,
+  TelemetryPublisherEvents,
+  TelemetryPublisherOptions,
+  TelemetryPublisherStats,
+  TelemetrySentEvent,
+  TelemetrySink
+} from "./telemetryPublisher.js";
+export { RealtimeSubscriptionManager } from "./subscriptions.js";
+export type {
+  RealtimeSubscription,
+  SubscriptionGapEvent,
+  SubscriptionManagerEvents,
+  SubscriptionManagerOptions,
+  SubscriptionRealtime
+} from "./subscriptions.js";
 export type {
   ClientOptions,
   FetchImplementation,
-  JsonRecord
+  JsonRecord,
+  RequestOptions
 } from "./httpClient.js";
 export type {
   Entity,
@@ -19,6 +154,7 @@ export type {
   Sensor,
   TrackTelemetry,
   Telemetry,
+  TaskStatus,
   TaskStatusUpdate,
   TaskStart,
   TaskComplete,
@@ -40,8 +176,77 @@ export type {
   QueryStreamCursors,
   SerializedEntity,
   SerializedTask,
-  SerializedObject
+  SerializedObject,
+  EntityListResponse,
+  TaskListResponse,
+  ObjectListResponse,
+  CheckinResponse,
+  ServiceStatus,
+  ObjectReferences,
+  ObjectReferenceCheck,
+  ObjectReferenceCleanup
 } from "./types/entities.js";
+export type {
+  FrameType,
+  MessageMeta,
+  BaseFrame,
+  HandshakeFrame,
+  HandshakeAckFrame,
+  HeartbeatFrame,
+  HeartbeatAckFrame,
+  SyncFrame,
+  SyncAckPayload,
+  SyncAckFrame,
+  SubscribeFrame,
+  SubscribeAckFrame,
+  UnsubscribeFrame,
+  UnsubscribeAckFrame,
+  EventFrame,
+  CreateFrame,
+  CreateAckFrame,
+  UpdateFrame,
+  UpdateAckFrame,
+  DeleteFrame,
+  DeleteAckFrame,
+  ListFrame,
+  ListAckFrame,
+  GetFrame,
+  GetAckFrame,
+  ErrorFrame,
+  ControllerFrame,
+  SyncDataset
+} from "./types/frames.js";
+export {
+  isHandshakeFrame,
+  isHandshakeAckFrame,
+  isHeartbeatFrame,
+  isHeartbeatAckFrame,
+  isSyncFrame,
+  isSyncAckFrame,
+  isSubscribeFrame,
+  isSubscribeAckFrame,
+  isUnsubscribeFrame,
+  isUnsubscribeAckFrame,
+  isEventFrame,
+  isCreateFrame,
+  isCreateAckFrame,
+  isUpdateFrame,
+  isUpdateAckFrame,
+  isDeleteFrame,
+  isDeleteAckFrame,
+  isListFrame,
+  isListAckFrame,
+  isGetFrame,
+  isGetAckFrame,
+  isErrorFrame
+} from "./types/guards.js";
+export {
+  FRAME_TYPES,
+  encodeFrame,
+  isControllerFrame,
+  parseFrame
+} from "./frameCodec.js";
+export type { FrameIssue, ParseFrameResult } from "./frameCodec.js";
 export type {
   TelemetryComponent,
   GeometryComponent,
@@ -61,8 +266,18 @@ export type {
   TaskComponents,
   ObjectReferenceItem,
   ObjectMetadata,
+  Remove,
+  ComponentsPatch,
+  EntityComponentsPatch,
+  TaskComponentsPatch
 } from "./types/components.js";
+export { REMOVE, componentsToPatch, componentsToRecord } from "./types/components.js";
 export {
+  entityComponentIssues,
+  taskComponentIssues,
   validateEntityComponents,
-  componentsToRecord,
-} from "./types/components.js";
+  validateTaskComponents
+} from "./componentValidation.js";
+export { COMPONENT_SCHEMAS, CUSTOM_KEY_PATTERN, validateAgainstSchema } from "./componentSchemas.js";
+export type { ComponentSchemaName } from "./componentSchemas.js";
+export type { JsonSchema } from "./jsonSchema.js";
@@ -0,0 +1,187 @@
+/**
+ * Minimal JSON Schema (draft 2020-12) validator covering the keywords used by
+ * `componentSchemas.ts`. Unknown keywords are treated as annotations, and
+ * `format: "date-time"` is asserted rather than only annotated.
+ */
+
+import { describe, isPlainObject, join, timestamp } from "./checks.js";
+import type { ValidationIssue } from "./checks.js";
+
+export type JsonSchema = boolean | { readonly [keyword: string]: unknown };
+
+type SchemaObject = { readonly [keyword: string]: unknown };
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Resolve a local `#/$defs/...` (or `#`) reference against the document root. */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith("#")) {
+    throw new Error(`Only local $ref values are supported, got '${ref}'`);
+  }
+  let target: unknown = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part.replace(/~1/g, "/").replace(/~0/g, "~"));
+    target = isPlainObject(target) ? target[key] : undefined;
+  }
+  if (typeof target !== "boolean" && !isPlainObject(target)) {
+    throw new Error(`Unresolvable $ref '${ref}'`);
+  }
+  return target as JsonSchema;
+}
+
+function validate(
+  root: JsonSchema,
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    issues.push({ path, message: "is not allowed" });
+    return;
+  }
+  const s = schema as SchemaObject;
+
+  if (typeof s.$ref === "string") {
+    validate(root, resolveRef(root, s.$ref), value, path, issues);
+  }
+
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]) as string[];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `expected ${types.join(" or ")}, got ${describe(value)}` });
+      return;
+    }
+  }
+  if (s.const !== undefined && !isEqual(value, s.const)) {
+    issues.push({ path, message: `expected ${JSON.stringify(s.const)}, got ${JSON.stringify(value)}` });
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((member) => isEqual(member, value))) {
+    issues.push({
+      path,
+      message: `expected one of ${s.enum.join(", ")}, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) {
+      issues.push({ path, message: `expected a number >= ${s.minimum}, got ${value}` });
+    }
+    if (typeof s.maximum === "number" && value > s.maximum) {
+      issues.push({ path, message: `expected a number <= ${s.maximum}, got ${value}` });
+    }
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      issues.push({ path, message: `expected a number > ${s.exclusiveMinimum}, got ${value}` });
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      issues.push({ path, message: `expected a number < ${s.exclusiveMaximum}, got ${value}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      issues.push({ path, message: `expected at least ${s.minLength} characters, got ${value.length}` });
+    }
+    if (typeof s.pattern === "string" && !new RegExp(s.pattern, "u").test(value)) {
+      issues.push({ path, message: `expected a string matching ${s.pattern}` });
+    }
+    if (s.format === "date-time") {
+      timestamp(value, path, issues);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      issues.push({ path, message: `expected at least ${s.minItems} items, got ${value.length}` });
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      issues.push({ path, message: `expected at most ${s.maxItems} items, got ${value.length}` });
+    }
+    const prefix = Array.isArray(s.prefixItems) ? (s.prefixItems as JsonSchema[]) : [];
+    value.forEach((item, index) => {
+      const itemSchema = index < prefix.length ? prefix[index] : (s.items as JsonSchema | undefined);
+      if (itemSchema !== undefined) validate(root, itemSchema, item, `${path}[${index}]`, issues);
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const properties = (s.properties ?? {}) as Record<string, JsonSchema>;
+    const patterns = Object.entries((s.patternProperties ?? {}) as Record<string, JsonSchema>).map(
+      ([pattern, sub]) => [new RegExp(pattern, "u"), sub] as const,
+    );
+    if (Array.isArray(s.required)) {
+      for (const key of s.required as string[]) {
+        if (value[key] === undefined) issues.push({ path: join(path, key), message: "is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      const keyPath = join(path, key);
+      let evaluated = false;
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        validate(root, properties[key], item, keyPath, issues);
+        evaluated = true;
+      }
+      for (const [pattern, sub] of patterns) {
+        if (pattern.test(key)) {
+          validate(root, sub, item, keyPath, issues);
+          evaluated = true;
+        }
+      }
+      if (!evaluated && s.additionalProperties !== undefined) {
+        validate(root, s.additionalProperties as JsonSchema, item, keyPath, issues);
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf as JsonSchema[]) validate(root, sub, value, path, issues);
+  }
+  if (Array.isArray(s.anyOf)) {
+    const branches = s.anyOf as JsonSchema[];
+    if (!branches.some((sub) => collect(root, sub, value).length === 0)) {
+      issues.push({ path, message: "expected a value matching at least one anyOf schema" });
+    }
+  }
+  if (Array.isArray(s.oneOf)) {
+    const branches = (s.oneOf as JsonSchema[]).map((sub) => collect(root, sub, value, path));
+    const matched = branches.filter((branch) => branch.length === 0).length;
+    if (matched === 0) {
+      // Report the branch that came closest, which is usually the intended one.
+      const closest = branches.reduce((best, branch) => (branch.length < best.length ? branch : best));
+      issues.push(...closest);
+    } else if (matched > 1) {
+      issues.push({ path, message: `expected exactly one oneOf schema to match, got ${matched}` });
+    }
+  }
+}
+
+function collect(root: JsonSchema, schema: JsonSchema, value: unknown, path = ""): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validate(root, schema, value, path, issues);
+  return issues;
+}
+
+/**
+ * Every way `value` fails `schema`; empty when it is valid. Paths use the same
+ * dotted form as the other validators, e.g. `telemetry.latitude`, starting from
+ * `path` when `value` sits inside a larger document.
+ */
+export function schemaIssues(schema: JsonSchema, value: unknown, path = ""): ValidationIssue[] {
+  return collect(schema, schema, value, path);
+}
@@ -0,0 +1,51 @@
+/**
+ * Request/response middleware around `fetchImpl`.
+ *
+ * Every request the client makes runs through the configured chain, in order,
+ * once per attempt. A middleware may mutate the request before calling `next`,
+ * return its own `Response` without calling `next` (short-circuit), or inspect
+ * and replace the response `next` resolves with.
+ */
+
+import type { JsonRecord } from "./httpClient.js";
+
+export interface AtlasRequest {
+  /** Client method that issued the request, e.g. `"createEntity"` or `"addObjectReference"`. */
+  readonly operation: string;
+  /** 1-based attempt number; greater than 1 when the retry policy replays the request. */
+  readonly attempt: number;
+  method: string;
+  baseUrl: string;
+  /** Path relative to `baseUrl`, e.g. `/entities/drone-01`. */
+  path: string;
+  /** Query parameters; `undefined` and `null` values are omitted from the URL. */
+  params?: Record<string, unknown>;
+  /** JSON payload or multipart form. JSON bodies are serialized after the chain runs. */
+  body?: JsonRecord | FormData | null;
+  headers: Headers;
+  signal?: AbortSignal;
+}
+
+export type AtlasNext = (request: AtlasRequest) => Promise<Response>;
+
+export type AtlasMiddleware = (request: AtlasRequest, next: AtlasNext) => Promise<Response>;
+
+/** Build the final URL for a request, after middleware had a chance to rewrite it. */
+export function buildRequestUrl(request: AtlasRequest): URL {
+  const url = new URL(`${request.baseUrl}${request.path}`);
+  if (request.params) {
+    for (const [key, value] of Object.entries(request.params)) {
+      if (value === undefined || value === null) continue;
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url;
+}
+
+/** Chain `middleware` in order in front of `terminal`. */
+export function composeMiddleware(middleware: readonly AtlasMiddleware[], terminal: AtlasNext): AtlasNext {
+  return middleware.reduceRight<AtlasNext>(
+    (next, current) => (request) => current(request, next),
+    terminal,
+  );
+}
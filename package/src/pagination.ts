@@ -0,0 +1,119 @@
+/**
+ * Offset/limit pagination helpers for the list endpoints.
+ */
+
+import type { RequestOptions } from "./httpClient.js";
+import { abortReason } from "./abort.js";
+
+/** Options accepted by the `iterate*` client methods. */
+export interface PaginationOptions {
+  /** Records requested per page (default 100). */
+  pageSize?: number;
+  /** Stop after yielding this many records in total. */
+  maxItems?: number;
+  /** Offset of the first page (default 0). */
+  offset?: number;
+  /** Stops iteration and aborts the in-flight page request. */
+  signal?: AbortSignal;
+  /** Deadline for each page request in milliseconds. */
+  timeoutMs?: number;
+}
+
+/** Fetch one page; resolves with the raw list response body. */
+export type PageFetcher = (
+  limit: number,
+  offset: number,
+  requestOptions: RequestOptions,
+) => Promise<unknown>;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Default cap for `collectAll`, so an unexpectedly large listing fails loudly instead of exhausting memory. */
+const DEFAULT_COLLECT_LIMIT = 10_000;
+
+/**
+ * Pull the records out of a list response. Atlas Command returns either a bare
+ * array or an envelope such as `{ entities: [...], total, limit }`.
+ */
+export function extractPageItems<T>(body: unknown, key: string): T[] {
+  if (Array.isArray(body)) {
+    return body as T[];
+  }
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>;
+    for (const candidate of [key, "items", "data"]) {
+      if (Array.isArray(record[candidate])) {
+        return record[candidate] as T[];
+      }
+    }
+  }
+  throw new Error(`Unexpected list response: expected an array or an object with '${key}'.`);
+}
+
+function pageTotal(body: unknown): number | undefined {
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    const total = (body as Record<string, unknown>).total;
+    return typeof total === "number" ? total : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Walk an offset/limit endpoint page by page. Stops on a short or empty page,
+ * when the envelope `total` is reached, or once `maxItems` records were yielded.
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher,
+  key: string,
+  options: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = Math.max(1, Math.floor(options.pageSize ?? DEFAULT_PAGE_SIZE));
+  const maxItems = options.maxItems ?? Number.POSITIVE_INFINITY;
+  const { signal, timeoutMs } = options;
+  let offset = options.offset ?? 0;
+  let yielded = 0;
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+  };
+
+  while (yielded < maxItems) {
+    throwIfAborted();
+    const limit = Math.min(pageSize, maxItems - yielded);
+    const body = await fetchPage(limit, offset, { signal, timeoutMs });
+    const items = extractPageItems<T>(body, key);
+    for (const item of items.slice(0, maxItems - yielded)) {
+      throwIfAborted();
+      yield item;
+      yielded += 1;
+    }
+    offset += items.length;
+    const total = pageTotal(body);
+    if (items.length < limit || (total !== undefined && offset >= total)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Drain an async iterable into an array. Throws when more than `maxItems`
+ * records arrive (default 10000) rather than silently truncating.
+ */
+export async function collectAll<T>(
+  iterable: AsyncIterable<T>,
+  options: { maxItems?: number } = {},
+): Promise<T[]> {
+  const maxItems = options.maxItems ?? DEFAULT_COLLECT_LIMIT;
+  const out: T[] = [];
+  for await (const item of iterable) {
+    if (out.length >= maxItems) {
+      throw new Error(
+        `collectAll exceeded maxItems (${maxItems}); iterate instead or raise the cap.`,
+      );
+    }
+    out.push(item);
+  }
+  return out;
+}
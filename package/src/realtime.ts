@@ -0,0 +1,612 @@
+/**
+ * WebSocket client for the Atlas Command controller protocol (`src/types/frames.ts`):
+ * handshake, heartbeats with missed-ack detection, and reconnect with backoff.
+ */
+
+import type {
+  ControllerFrame,
+  CreateAckFrame,
+  CreateFrame,
+  DeleteAckFrame,
+  DeleteFrame,
+  GetAckFrame,
+  GetFrame,
+  HandshakeAckFrame,
+  ListAckFrame,
+  ListFrame,
+  SubscribeAckFrame,
+  SubscribeFrame,
+  UnsubscribeAckFrame,
+  UnsubscribeFrame,
+  UpdateAckFrame,
+  UpdateFrame,
+} from "./types/frames.js";
+import type { RequestOptions } from "./httpClient.js";
+import { TypedEmitter } from "./emitter.js";
+import {
+  AtlasFrameError,
+  AtlasRealtimeError,
+  AtlasRealtimeRequestError,
+  AtlasTimeoutError,
+} from "./errors.js";
+import { encodeFrame, newMessageId, parseFrame } from "./frameCodec.js";
+import { abortReason } from "./abort.js";
+import { computeBackoffDelay } from "./retry.js";
+
+/**
+ * The subset of the WebSocket API the client relies on. The browser/Node 22
+ * global `WebSocket` and the `ws` package both satisfy it.
+ */
+export interface RealtimeSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: "open" | "error", listener: (event: unknown) => void): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+  addEventListener(
+    type: "close",
+    listener: (event: { code: number; reason: string }) => void,
+  ): void;
+}
+
+/** Opens a socket to `url`; use it to pick a WebSocket implementation or add auth. */
+export type WebSocketFactory = (url: string) => RealtimeSocket;
+
+export interface ReconnectOptions {
+  /** Reconnect attempts after a drop before giving up (default unlimited). */
+  maxAttempts?: number;
+  /** Delay before the first reconnect in milliseconds (default 500). */
+  initialDelayMs?: number;
+  /** Upper bound for a single reconnect delay in milliseconds (default 30000). */
+  maxDelayMs?: number;
+  /** Growth factor applied after each failed attempt (default 2). */
+  backoffMultiplier?: number;
+  /** `"full"` picks a random delay in [0, backoff]; `"none"` uses the exact backoff (default `"full"`). */
+  jitter?: "full" | "none";
+}
+
+export interface RealtimeClientOptions {
+  /** WebSocket endpoint, e.g. `wss://atlas.example.com/ws`. */
+  url: string;
+  /** Defaults to the global `WebSocket` when one exists. */
+  webSocketFactory?: WebSocketFactory;
+  /** Sent in the handshake payload. */
+  clientType?: string;
+  clientVersion?: string;
+  /** Time allowed for `handshake:ack` after the socket opens (default 10000). */
+  handshakeTimeoutMs?: number;
+  /** Interval between heartbeats in milliseconds (default 15000). */
+  heartbeatIntervalMs?: number;
+  /** Unanswered heartbeats tolerated before the connection is treated as dead (default 2). */
+  maxMissedHeartbeats?: number;
+  /** Reconnect policy; `false` disables reconnecting. */
+  reconnect?: ReconnectOptions | false;
+  /** Default time allowed for a request's `:ack` in milliseconds (default 10000); per-call `timeoutMs` overrides it. */
+  ackTimeoutMs?: number;
+}
+
+/** Request frames that the server answers with a matching `:ack`. */
+export interface RealtimeRequestFrames {
+  create: CreateFrame;
+  update: UpdateFrame;
+  delete: DeleteFrame;
+  list: ListFrame;
+  get: GetFrame;
+  subscribe: SubscribeFrame;
+  unsubscribe: UnsubscribeFrame;
+}
+
+export interface RealtimeAckFrames {
+  create: CreateAckFrame;
+  update: UpdateAckFrame;
+  delete: DeleteAckFrame;
+  list: ListAckFrame;
+  get: GetAckFrame;
+  subscribe: SubscribeAckFrame;
+  unsubscribe: UnsubscribeAckFrame;
+}
+
+export type RealtimeOperation = keyof RealtimeRequestFrames;
+
+/** What a request resolves with: the ack's payload (an empty object when the ack carries none). */
+export type RealtimeAckPayload<T extends RealtimeOperation> = NonNullable<
+  RealtimeAckFrames[T]["payload"]
+>;
+
+export type RealtimeState = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+/** Server details from the `handshake:ack` payload. */
+export type RealtimeServerInfo = NonNullable<HandshakeAckFrame["payload"]>;
+
+export interface RealtimeOpenEvent {
+  serverInfo: RealtimeServerInfo;
+  /** True when this handshake followed a dropped connection. */
+  reconnected: boolean;
+}
+
+export interface RealtimeCloseEvent {
+  code?: number;
+  reason?: string;
+  /** Why the client dropped the connection itself (handshake timeout, missed heartbeats). */
+  error?: unknown;
+  willReconnect: boolean;
+}
+
+export interface AtlasRealtimeEvents {
+  open: RealtimeOpenEvent;
+  close: RealtimeCloseEvent;
+  reconnecting: { attempt: number; delayMs: number };
+  /** Every frame received after the handshake, including acks. */
+  frame: ControllerFrame;
+  /**
+   * Unreadable messages, socket errors, and whatever another event's listener
+   * threw. Throws from `error` listeners themselves are dropped.
+   */
+  error: unknown;
+}
+
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 10_000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000;
+const DEFAULT_MAX_MISSED_HEARTBEATS = 2;
+const DEFAULT_ACK_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  maxAttempts: Number.POSITIVE_INFINITY,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: "full",
+};
+
+/** Close code used when the client drops a connection it considers dead. */
+const CLIENT_DROP_CODE = 4000;
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(error: unknown): void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+interface PendingRequest {
+  ackType: string;
+  resolve(frame: ControllerFrame): void;
+  reject(error: unknown): void;
+}
+
+function defaultWebSocketFactory(): WebSocketFactory | undefined {
+  const Ctor = (globalThis as {
+    WebSocket?: new (url: string) => RealtimeSocket & { binaryType?: string };
+  }).WebSocket;
+  if (!Ctor) return undefined;
+  return (url) => {
+    const socket = new Ctor(url);
+    // Browsers default to Blob, which cannot be decoded synchronously.
+    socket.binaryType = "arraybuffer";
+    return socket;
+  };
+}
+
+const utf8 = new TextDecoder();
+
+/**
+ * Text of a socket message. Binary messages (an `ArrayBuffer`, or a typed array
+ * such as a Node `Buffer`) are decoded as UTF-8; anything else is undefined.
+ */
+function messageText(data: unknown): string | undefined {
+  if (typeof data === "string") return data;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return utf8.decode(data);
+  return undefined;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Maintains one controller-protocol connection. `connect()` resolves once the
+ * handshake is acknowledged; after that, dropped connections are re-established
+ * with exponential backoff until `close()` is called.
+ */
+export class AtlasRealtimeClient extends TypedEmitter<AtlasRealtimeEvents> {
+  private readonly factory: WebSocketFactory;
+  private readonly reconnectPolicy?: Required<ReconnectOptions>;
+  private readonly handshakeTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly maxMissedHeartbeats: number;
+  private readonly ackTimeoutMs: number;
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+
+  private socket?: RealtimeSocket;
+  private currentState: RealtimeState = "idle";
+  private info?: RealtimeServerInfo;
+  private pendingConnect?: Deferred<RealtimeServerInfo>;
+  private handshakeTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private missedHeartbeats = 0;
+  private reconnectAttempts = 0;
+  private hasConnected = false;
+
+  constructor(private readonly options: RealtimeClientOptions) {
+    super();
+    const factory = options.webSocketFactory ?? defaultWebSocketFactory();
+    if (!factory) {
+      throw new AtlasRealtimeError(
+        "No WebSocket implementation available; pass webSocketFactory (e.g. from the 'ws' package).",
+      );
+    }
+    this.factory = factory;
+    this.handshakeTimeoutMs = options.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.maxMissedHeartbeats = options.maxMissedHeartbeats ?? DEFAULT_MAX_MISSED_HEARTBEATS;
+    this.ackTimeoutMs = options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS;
+    if (options.reconnect !== false) {
+      this.reconnectPolicy = { ...DEFAULT_RECONNECT };
+      for (const [key, value] of Object.entries(options.reconnect ?? {})) {
+        if (value !== undefined) {
+          (this.reconnectPolicy as Record<string, unknown>)[key] = value;
+        }
+      }
+    }
+  }
+
+  get state(): RealtimeState {
+    return this.currentState;
+  }
+
+  /** Payload of the latest `handshake:ack`, or undefined before the first handshake. */
+  get serverInfo(): RealtimeServerInfo | undefined {
+    return this.info;
+  }
+
+  /**
+   * Open the connection and resolve with the server info once the handshake is
+   * acknowledged. Failed attempts are retried per the reconnect policy; the
+   * promise rejects when attempts run out or `close()` is called first.
+   */
+  connect(): Promise<RealtimeServerInfo> {
+    if (this.currentState === "open" && this.info) {
+      return Promise.resolve(this.info);
+    }
+    if (this.pendingConnect) {
+      return this.pendingConnect.promise;
+    }
+    this.pendingConnect = deferred();
+    if (this.currentState === "idle" || this.currentState === "closed") {
+      this.reconnectAttempts = 0;
+      this.currentState = "connecting";
+      this.openSocket();
+    }
+    return this.pendingConnect.promise;
+  }
+
+  /** Close the connection and stop reconnecting. */
+  close(code = 1000, reason = "client closed"): void {
+    if (this.reconnectTimer !== undefined) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    const socket = this.detach();
+    if (socket) {
+      try {
+        socket.close(code, reason);
+      } catch {
+        // Already closing.
+      }
+    }
+    const wasClosed = this.currentState === "closed" || this.currentState === "idle";
+    this.currentState = "closed";
+    this.rejectPendingConnect(new AtlasRealtimeError("Realtime client closed before connecting"));
+    if (!wasClosed) {
+      this.notify("close", { code, reason, willReconnect: false });
+    }
+  }
+
+  /**
+   * Send a frame on the open connection, stamped by `encodeFrame`. Throws
+   * `AtlasRealtimeError` when not connected and `AtlasFrameError` for a
+   * malformed frame.
+   */
+  send(frame: ControllerFrame): void {
+    if (this.currentState !== "open" || !this.socket) {
+      throw new AtlasRealtimeError(`Cannot send '${frame.type}': realtime client is ${this.currentState}`);
+    }
+    this.socket.send(encodeFrame(frame));
+  }
+
+  // Requests -----------------------------------------------------------------
+  create(
+    payload: CreateFrame["payload"],
+    requestOptions?: RequestOptions,
+  ): Promise<RealtimeAckPayload<"create">> {
+    return this.request("create", payload, requestOptions);
+  }
+
+  update(
+    payload: UpdateFrame["payload"],
+    requestOptions?: RequestOptions,
+  ): Promise<RealtimeAckPayload<"update">> {
+    return this.request("update", payload, requestOptions);
+  }
+
+  delete(
+    payload: DeleteFrame["payload"],
+    requestOptions?: RequestOptions,
+  ): Promise<RealtimeAckPayload<"delete">> {
+    return this.request("delete", payload, requestOptions);
+  }
+
+  list(
+    payload: NonNullable<ListFrame["payload"]> = {},
+    requestOptions?: RequestOptions,
+  ): Promise<RealtimeAckPayload<"list">> {
+    return this.request("list", payload, requestOptions);
+  }
+
+  get(
+    payload: NonNullable<GetFrame["payload"]>,
+    requestOptions?: RequestOptions,
+  ): Promise<RealtimeAckPayload<"get">> {
+    return this.request("get", payload, requestOptions);
+  }
+
+  /**
+   * Send a request frame stamped with a fresh `meta.message_id` and resolve with
+   * the payload of the `:ack` carrying the same id. Rejects with
+   * `AtlasRealtimeRequestError` for an `error` frame with that id,
+   * `AtlasTimeoutError` when no ack arrives in time, and `AtlasRealtimeError`
+   * when the connection drops first.
+   */
+  request<T extends RealtimeOperation>(
+    type: T,
+    payload: RealtimeRequestFrames[T]["payload"],
+    requestOptions: RequestOptions = {},
+  ): Promise<RealtimeAckPayload<T>> {
+    const { signal } = requestOptions;
+    const timeoutMs = requestOptions.timeoutMs ?? this.ackTimeoutMs;
+    const messageId = newMessageId();
+    return new Promise<RealtimeAckPayload<T>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => finish(() => reject(abortReason(signal!)));
+      const finish = (settle: () => void) => {
+        if (timer !== undefined) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pendingRequests.delete(messageId);
+        settle();
+      };
+      this.pendingRequests.set(messageId, {
+        ackType: `${type}:ack`,
+        resolve: (frame) =>
+          finish(() => resolve((frame.payload ?? {}) as RealtimeAckPayload<T>)),
+        reject: (error) => finish(() => reject(error)),
+      });
+      if (timeoutMs > 0 && Number.isFinite(timeoutMs)) {
+        timer = setTimeout(() => finish(() => reject(new AtlasTimeoutError(timeoutMs))), timeoutMs);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      try {
+        this.send({
+          type,
+          payload,
+          meta: { message_id: messageId, sent_at: new Date().toISOString() },
+        } as ControllerFrame);
+      } catch (error) {
+        this.pendingRequests.get(messageId)?.reject(error);
+      }
+    });
+  }
+
+  private openSocket(): void {
+    let socket: RealtimeSocket;
+    try {
+      socket = this.factory(this.options.url);
+    } catch (error) {
+      this.handleDrop(error);
+      return;
+    }
+    this.socket = socket;
+    socket.addEventListener("open", () => {
+      if (this.socket !== socket) return;
+      try {
+        socket.send(
+          encodeFrame({
+            type: "handshake",
+            payload: { client_type: this.options.clientType, client_version: this.options.clientVersion },
+          }),
+        );
+      } catch (error) {
+        this.dropSocket(socket, new AtlasRealtimeError(`Handshake send failed: ${errorMessage(error)}`));
+        return;
+      }
+      this.handshakeTimer = setTimeout(() => {
+        this.dropSocket(
+          socket,
+          new AtlasRealtimeError(`No handshake:ack within ${this.handshakeTimeoutMs}ms`),
+        );
+      }, this.handshakeTimeoutMs);
+    });
+    socket.addEventListener("message", (event) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(event.data);
+    });
+    socket.addEventListener("close", (event) => {
+      if (this.socket !== socket) return;
+      this.detach();
+      this.handleDrop(undefined, event.code, event.reason);
+    });
+    socket.addEventListener("error", (event) => {
+      if (this.socket !== socket) return;
+      this.notify("error", event);
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    const text = messageText(data);
+    if (text === undefined) {
+      const kind = (data as object | null)?.constructor?.name ?? typeof data;
+      this.notify(
+        "error",
+        new AtlasFrameError([{ path: "", message: `expected a text or binary frame, got ${kind}` }]),
+      );
+      return;
+    }
+    const parsed = parseFrame(text);
+    if (!parsed.ok) {
+      const error = new AtlasFrameError(parsed.issues);
+      // A malformed answer still settles its request instead of leaving it to time out.
+      const messageId = (parsed.raw as { meta?: { message_id?: unknown } } | null)?.meta?.message_id;
+      if (typeof messageId === "string") {
+        this.pendingRequests.get(messageId)?.reject(error);
+      }
+      this.notify("error", error);
+      return;
+    }
+    const { frame } = parsed;
+
+    if (frame.type === "handshake:ack") {
+      // Surfaced through `connect()` and the `open` event instead.
+      this.onHandshakeAck(frame);
+      return;
+    }
+    if (frame.type === "heartbeat:ack") {
+      this.missedHeartbeats = 0;
+    }
+    const messageId = frame.meta?.message_id;
+    const pending = typeof messageId === "string" ? this.pendingRequests.get(messageId) : undefined;
+    if (pending && frame.type === pending.ackType) {
+      pending.resolve(frame);
+    } else if (pending && frame.type === "error") {
+      pending.reject(new AtlasRealtimeRequestError(messageId!, frame.payload));
+    }
+    if (this.currentState === "open") {
+      this.notify("frame", frame);
+    }
+  }
+
+  private onHandshakeAck(frame: HandshakeAckFrame): void {
+    if (this.handshakeTimer !== undefined) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = undefined;
+    }
+    this.info = frame.payload ?? {};
+    const reconnected = this.hasConnected;
+    this.hasConnected = true;
+    this.reconnectAttempts = 0;
+    this.missedHeartbeats = 0;
+    this.currentState = "open";
+    this.startHeartbeat();
+    const pending = this.pendingConnect;
+    this.pendingConnect = undefined;
+    pending?.resolve(this.info);
+    this.notify("open", { serverInfo: this.info, reconnected });
+  }
+
+  private startHeartbeat(): void {
+    const socket = this.socket;
+    this.heartbeatTimer = setInterval(() => {
+      if (!socket || this.socket !== socket) return;
+      if (this.missedHeartbeats >= this.maxMissedHeartbeats) {
+        this.dropSocket(
+          socket,
+          new AtlasRealtimeError(`Missed ${this.missedHeartbeats} heartbeat acks`),
+        );
+        return;
+      }
+      this.missedHeartbeats += 1;
+      try {
+        socket.send(encodeFrame({ type: "heartbeat" }));
+      } catch (error) {
+        // A closing socket may throw instead of firing `close`; treat it as dead.
+        this.dropSocket(socket, new AtlasRealtimeError(`Heartbeat send failed: ${errorMessage(error)}`));
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  /**
+   * Forget the current socket and its timers and fail requests still awaiting an
+   * ack; returns the socket so the caller can close it.
+   */
+  private detach(): RealtimeSocket | undefined {
+    const socket = this.socket;
+    this.socket = undefined;
+    for (const pending of [...this.pendingRequests.values()]) {
+      pending.reject(
+        new AtlasRealtimeError(`Connection lost before '${pending.ackType}' arrived`),
+      );
+    }
+    if (this.handshakeTimer !== undefined) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = undefined;
+    }
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    return socket;
+  }
+
+  /** Close a socket the client considers dead and go through the reconnect path. */
+  private dropSocket(socket: RealtimeSocket, error: AtlasRealtimeError): void {
+    if (this.socket !== socket) return;
+    this.detach();
+    try {
+      socket.close(CLIENT_DROP_CODE, error.message);
+    } catch {
+      // The socket may already be gone; nothing else to release.
+    }
+    this.handleDrop(error, CLIENT_DROP_CODE, error.message);
+  }
+
+  private handleDrop(error: unknown, code?: number, reason?: string): void {
+    const policy = this.reconnectPolicy;
+    const willReconnect = policy !== undefined && this.reconnectAttempts < policy.maxAttempts;
+    this.notify("close", { code, reason, error, willReconnect });
+    if (!willReconnect) {
+      this.currentState = "closed";
+      this.rejectPendingConnect(
+        error ?? new AtlasRealtimeError(`Realtime connection closed (${code ?? "no code"})`),
+      );
+      return;
+    }
+    this.reconnectAttempts += 1;
+    const delayMs = computeBackoffDelay(policy, this.reconnectAttempts);
+    this.currentState = "reconnecting";
+    this.notify("reconnecting", { attempt: this.reconnectAttempts, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.currentState = "connecting";
+      this.openSocket();
+    }, delayMs);
+  }
+
+  /**
+   * Emit without letting a listener throw into socket callbacks or timers: the
+   * throw is reported as `error`, and one from an `error` listener is dropped.
+   */
+  private notify<E extends keyof AtlasRealtimeEvents>(event: E, payload: AtlasRealtimeEvents[E]): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      if (event !== "error") this.notify("error", error);
+    }
+  }
+
+  private rejectPendingConnect(error: unknown): void {
+    const pending = this.pendingConnect;
+    this.pendingConnect = undefined;
+    pending?.reject(error);
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * In-memory replica of Atlas Command state: bootstrap from `/queries/full`,
+ * then poll `/queries/changed-since` and apply upserts and tombstones.
+ */
+
+import type {
+  SerializedEntity,
+  SerializedObject,
+  SerializedTask,
+} from "./types/entities.js";
+import { TypedEmitter } from "./emitter.js";
+import { drainChangedSince, fetchServerTimestamp } from "./changedSince.js";
+import type { ChangedSinceBatch, ChangedSinceSource } from "./changedSince.js";
+import { iterateFullDataset } from "./fullDataset.js";
+import type { FullDatasetSource } from "./fullDataset.js";
+
+export type ReplicaSource = ChangedSinceSource & FullDatasetSource;
+
+export type ReplicaKind = "entity" | "task" | "object";
+
+/** Record type held for each replica kind. */
+export interface ReplicaRecords {
+  entity: SerializedEntity;
+  task: SerializedTask;
+  object: SerializedObject;
+}
+
+export type ReplicaAddedEvent = {
+  [K in ReplicaKind]: { kind: K; id: string; record: ReplicaRecords[K] };
+}[ReplicaKind];
+
+export type ReplicaUpdatedEvent = {
+  [K in ReplicaKind]: {
+    kind: K;
+    id: string;
+    record: ReplicaRecords[K];
+    previous: ReplicaRecords[K];
+  };
+}[ReplicaKind];
+
+export type ReplicaRemovedEvent = {
+  [K in ReplicaKind]: { kind: K; id: string; previous: ReplicaRecords[K] };
+}[ReplicaKind];
+
+export interface ReplicaSyncedEvent {
+  /** New high-water mark; the next poll asks for changes since this timestamp. */
+  timestamp: string;
+  /** True when this sync was a full-dataset bootstrap rather than a changed-since poll. */
+  bootstrap: boolean;
+}
+
+export interface AtlasReplicaEvents {
+  added: ReplicaAddedEvent;
+  updated: ReplicaUpdatedEvent;
+  removed: ReplicaRemovedEvent;
+  synced: ReplicaSyncedEvent;
+  /**
+   * A background poll failed; the replica keeps its high-water mark and retries
+   * on the next tick. Also carries whatever another event's listener threw, so a
+   * broken listener cannot stop a batch halfway. Throws from `error` listeners
+   * are swallowed.
+   */
+  error: unknown;
+}
+
+export interface AtlasReplicaOptions {
+  /** Delay between the end of one poll and the start of the next (default 5000). */
+  pollIntervalMs?: number;
+  /** Rows per stream per `/queries/full` request during bootstrap (default 500). */
+  pageSize?: number;
+  /** Rows per stream per `/queries/changed-since` request (server default when omitted). */
+  limitPerType?: number;
+  /** Deadline for each individual request in milliseconds. */
+  timeoutMs?: number;
+  /** Resume polling from this timestamp instead of bootstrapping from the full dataset. */
+  since?: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const ID_FIELDS = { entity: "entity_id", task: "task_id", object: "object_id" } as const;
+
+type ReplicaMaps = { [K in ReplicaKind]: Map<string, ReplicaRecords[K]> };
+
+/**
+ * Keeps entities, tasks and objects in memory and emits `added` / `updated` /
+ * `removed` events as they change.
+ *
+ * The high-water mark only advances after a changed-since drain completes, so a
+ * poll that fails partway through cursor paging is simply repeated from the
+ * previous timestamp. Re-applying rows is idempotent: identical records emit no
+ * events.
+ */
+export class AtlasReplica extends TypedEmitter<AtlasReplicaEvents> {
+  private readonly maps: ReplicaMaps = {
+    entity: new Map(),
+    task: new Map(),
+    object: new Map(),
+  };
+  private readonly pollIntervalMs: number;
+  private highWaterMark?: string;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private cycle?: Promise<void>;
+
+  constructor(
+    private readonly source: ReplicaSource,
+    private readonly options: AtlasReplicaOptions = {},
+  ) {
+    super();
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.highWaterMark = options.since;
+  }
+
+  /** Server timestamp of the last completed sync, or undefined before the first one. */
+  get timestamp(): string | undefined {
+    return this.highWaterMark;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get entities(): ReadonlyMap<string, SerializedEntity> {
+    return this.maps.entity;
+  }
+
+  get tasks(): ReadonlyMap<string, SerializedTask> {
+    return this.maps.task;
+  }
+
+  get objects(): ReadonlyMap<string, SerializedObject> {
+    return this.maps.object;
+  }
+
+  getEntity(entityId: string): SerializedEntity | undefined {
+    return this.maps.entity.get(entityId);
+  }
+
+  getTask(taskId: string): SerializedTask | undefined {
+    return this.maps.task.get(taskId);
+  }
+
+  getObject(objectId: string): SerializedObject | undefined {
+    return this.maps.object.get(objectId);
+  }
+
+  /**
+   * Run the initial sync, then poll every `pollIntervalMs`. Rejects (and leaves
+   * the replica stopped) if the initial sync fails.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sync();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    this.schedule();
+  }
+
+  /** Stop polling and abort any in-flight request. Replica state is kept. */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.controller?.abort();
+    await this.cycle?.catch(() => undefined);
+  }
+
+  /**
+   * Run one sync now: a bootstrap when there is no high-water mark yet,
+   * otherwise a changed-since poll. Concurrent calls share the same run.
+   */
+  sync(): Promise<void> {
+    this.cycle ??= this.runCycle().finally(() => {
+      this.cycle = undefined;
+    });
+    return this.cycle;
+  }
+
+  /**
+   * Drop the high-water mark and bootstrap again. Records missing from the new
+   * snapshot are removed (with `removed` events).
+   */
+  async resync(): Promise<void> {
+    await this.cycle?.catch(() => undefined);
+    this.highWaterMark = undefined;
+    await this.sync();
+  }
+
+  private schedule(): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.sync()
+        .catch((error) => {
+          if (this.running) this.notify("error", error);
+        })
+        .finally(() => this.schedule());
+    }, this.pollIntervalMs);
+  }
+
+  private async runCycle(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      if (this.highWaterMark === undefined) {
+        await this.bootstrap(controller.signal);
+      } else {
+        await this.poll(this.highWaterMark, controller.signal);
+      }
+    } finally {
+      if (this.controller === controller) this.controller = undefined;
+    }
+  }
+
+  private async bootstrap(signal: AbortSignal): Promise<void> {
+    const { pageSize, timeoutMs } = this.options;
+    const timestamp = await fetchServerTimestamp(this.source, { signal, timeoutMs });
+    const seen: { [K in ReplicaKind]: Set<string> } = {
+      entity: new Set(),
+      task: new Set(),
+      object: new Set(),
+    };
+    for await (const item of iterateFullDataset(this.source, { pageSize, signal, timeoutMs })) {
+      const id = this.upsert(item.kind, item.record);
+      if (id !== undefined) seen[item.kind].add(id);
+    }
+    for (const kind of Object.keys(this.maps) as ReplicaKind[]) {
+      for (const id of [...this.maps[kind].keys()]) {
+        if (!seen[kind].has(id)) this.remove(kind, id);
+      }
+    }
+    this.highWaterMark = timestamp;
+    this.notify("synced", { timestamp, bootstrap: true });
+  }
+
+  private async poll(since: string, signal: AbortSignal): Promise<void> {
+    const { limitPerType, timeoutMs } = this.options;
+    const drain = drainChangedSince(this.source, since, { limitPerType, signal, timeoutMs });
+    let step = await drain.next();
+    while (!step.done) {
+      this.applyBatch(step.value);
+      step = await drain.next();
+    }
+    this.highWaterMark = step.value;
+    this.notify("synced", { timestamp: step.value, bootstrap: false });
+  }
+
+  private applyBatch(batch: ChangedSinceBatch): void {
+    for (const record of batch.entities) this.upsert("entity", record);
+    for (const record of batch.tasks) this.upsert("task", record);
+    for (const record of batch.objects) this.upsert("object", record);
+    for (const tombstone of batch.deleted_entities) this.remove("entity", tombstone.id);
+    for (const tombstone of batch.deleted_tasks) this.remove("task", tombstone.id);
+    for (const tombstone of batch.deleted_objects) this.remove("object", tombstone.id);
+  }
+
+  /** Store a record and emit the matching event; returns its id, or undefined when it has none. */
+  private upsert<K extends ReplicaKind>(kind: K, record: ReplicaRecords[K]): string | undefined {
+    const id = (record as unknown as Record<string, unknown>)[ID_FIELDS[kind]];
+    if (typeof id !== "string" || !id) return undefined;
+    const map = this.maps[kind] as Map<string, ReplicaRecords[K]>;
+    const previous = map.get(id);
+    if (previous !== undefined && JSON.stringify(previous) === JSON.stringify(record)) {
+      return id;
+    }
+    map.set(id, record);
+    if (previous === undefined) {
+      this.notify("added", { kind, id, record } as ReplicaAddedEvent);
+    } else {
+      this.notify("updated", { kind, id, record, previous } as ReplicaUpdatedEvent);
+    }
+    return id;
+  }
+
+  /** Emit, reporting a throwing listener as `error` instead of aborting the sync. */
+  private notify<E extends keyof AtlasReplicaEvents>(event: E, payload: AtlasReplicaEvents[E]): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      if (event !== "error") this.notify("error", error);
+    }
+  }
+
+  private remove(kind: ReplicaKind, id: string): void {
+    const map = this.maps[kind];
+    const previous = map.get(id);
+    if (previous === undefined) return;
+    map.delete(id);
+    this.notify("removed", { kind, id, previous } as ReplicaRemovedEvent);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Runtime checks for Atlas Command response bodies, keyed by client operation.
+ * Each check mirrors the return type declared on the matching `AtlasHttpClient`
+ * method, so a server that drifts from `types/entities.ts` is reported at the
+ * call site rather than as an `undefined` field later on.
+ */
+
+import {
+  arrayOf,
+  boolean,
+  collectIssues,
+  nullable,
+  number,
+  object,
+  oneOf,
+  record,
+  required,
+  string,
+} from "./checks.js";
+import type { Check, ValidationIssue } from "./checks.js";
+
+/**
+ * `"off"` skips validation, `"warn"` logs each distinct problem once through
+ * `console.warn`, and `"strict"` rejects the call with
+ * `AtlasResponseValidationError`.
+ */
+export type ResponseValidationMode = "off" | "warn" | "strict";
+
+const metadata = object({ created_at: string, updated_at: string });
+
+const entity = object({
+  entity_id: required(string),
+  entity_type: required(string),
+  type: required(string),
+  subtype: nullable(string),
+  alias: nullable(string),
+  components: required(record),
+  metadata: required(metadata),
+  extra: record,
+});
+
+const task = object({
+  task_id: required(string),
+  status: required(string),
+  entity_id: nullable(string),
+  components: required(record),
+  metadata: required(metadata),
+  extra: record,
+});
+
+const storedObject = object({
+  object_id: required(string),
+  path: nullable(string),
+  content_type: nullable(string),
+  type: nullable(string),
+  size_bytes: nullable(number),
+  usage_hints: required(arrayOf(string)),
+  referenced_by: arrayOf(record),
+  bucket: nullable(string),
+  metadata: required(metadata),
+  payload: record,
+});
+
+function page(key: string, item: Check): Check {
+  return object({
+    [key]: required(arrayOf(item)),
+    total: required(number),
+    limit: required(number),
+    offset: number,
+  });
+}
+
+function tombstone(type: string): Check {
+  return object({ id: required(string), type: required(oneOf([type])), deleted_at: string });
+}
+
+const serviceStatus = object({ status: required(string) });
+
+/** `{ data, etag }` results of the operations that read an object with its ETag. */
+const objectWithEtag = object({ data: required(storedObject) });
+
+const entityPage = page("entities", entity);
+const taskPage = page("tasks", task);
+const objectPage = page("objects", storedObject);
+
+/**
+ * Checks by operation name, applied to what the operation's transport call
+ * resolved with. Operations that return nothing, raw bytes, or values the
+ * client assembles itself are not listed.
+ */
+const RESPONSE_CHECKS: Record<string, Check> = {
+  getRoot: record,
+  getHealth: serviceStatus,
+  getReadiness: serviceStatus,
+
+  listEntities: entityPage,
+  getEntity: entity,
+  getEntityByAlias: entity,
+  createEntity: entity,
+  updateEntity: entity,
+  updateEntityTelemetry: entity,
+  checkinEntity: object({ entity: required(entity), tasks: required(arrayOf(task)) }),
+
+  listTasks: taskPage,
+  getTask: task,
+  createTask: task,
+  updateTask: task,
+  getTasksByEntity: taskPage,
+  acknowledgeTask: task,
+  startTask: task,
+  completeTask: task,
+  transitionTaskStatus: task,
+  failTask: task,
+
+  listObjects: objectPage,
+  getObject: objectWithEtag,
+  getObjectWithEtag: objectWithEtag,
+  getObjectReferences: objectWithEtag,
+  createObject: storedObject,
+  createObjectMetadata: storedObject,
+  updateObject: storedObject,
+  addObjectReference: storedObject,
+  removeObjectReference: storedObject,
+  getObjectsByEntity: objectPage,
+  getObjectsByTask: objectPage,
+  findOrphanedObjects: objectPage,
+
+  getChangedSince: object({
+    entities: arrayOf(entity),
+    tasks: arrayOf(task),
+    objects: arrayOf(storedObject),
+    deleted_entities: arrayOf(tombstone("entity")),
+    deleted_tasks: arrayOf(tombstone("task")),
+    deleted_objects: arrayOf(tombstone("object")),
+    has_more_entities: boolean,
+    has_more_tasks: boolean,
+    has_more_objects: boolean,
+    has_more_deleted_entities: boolean,
+    has_more_deleted_tasks: boolean,
+    has_more_deleted_objects: boolean,
+    next_entity_cursor: string,
+    next_task_cursor: string,
+    next_object_cursor: string,
+    next_deleted_entity_cursor: string,
+    next_deleted_task_cursor: string,
+    next_deleted_object_cursor: string,
+    timestamp: required(string),
+  }),
+  getFullDataset: object({
+    entities: arrayOf(entity),
+    tasks: arrayOf(task),
+    objects: arrayOf(storedObject),
+    has_more_entities: boolean,
+    has_more_tasks: boolean,
+    has_more_objects: boolean,
+    next_entity_cursor: string,
+    next_task_cursor: string,
+    next_object_cursor: string,
+  }),
+};
+
+/** Problems with `body` as the result of `operation`; empty when it is valid or unchecked. */
+export function responseIssues(operation: string, body: unknown): ValidationIssue[] {
+  const check = RESPONSE_CHECKS[operation];
+  return check ? collectIssues(check, body) : [];
+}
@@ -0,0 +1,91 @@
+/**
+ * One checkpointed sync pass: bootstrap from the full dataset when there is no
+ * usable checkpoint, otherwise drain changed-since from the stored position.
+ */
+
+import type { RequestOptions } from "./httpClient.js";
+import { drainChangedSince, fetchServerTimestamp } from "./changedSince.js";
+import type { ChangedSinceBatch, ChangedSinceSource } from "./changedSince.js";
+import { iterateFullDataset } from "./fullDataset.js";
+import type { FullDatasetRecord, FullDatasetSource } from "./fullDataset.js";
+import type { CheckpointStore, SyncCheckpoint } from "./checkpoint.js";
+
+export type SyncSource = ChangedSinceSource & FullDatasetSource;
+
+export interface ResumableSyncOptions extends RequestOptions {
+  store: CheckpointStore;
+  /** Called before a bootstrap; discard everything applied so far. */
+  reset?: () => void | Promise<void>;
+  /** Apply one full-dataset record during a bootstrap. */
+  applyRecord: (record: FullDatasetRecord) => void | Promise<void>;
+  /** Apply one changed-since batch. The checkpoint is saved once this resolves. */
+  applyBatch: (batch: ChangedSinceBatch) => void | Promise<void>;
+  /** Called when the stored checkpoint cannot be loaded; the pass falls back to a bootstrap. */
+  onCheckpointError?: (error: unknown) => void;
+  /** Rows per stream per `/queries/full` request (default 500). */
+  pageSize?: number;
+  /** Rows per stream per `/queries/changed-since` request. */
+  limitPerType?: number;
+}
+
+export interface ResumableSyncResult {
+  /** Checkpoint saved at the end of the pass. */
+  checkpoint: SyncCheckpoint;
+  /** `bootstrap` without a usable checkpoint, `resume` when an interrupted drain was continued, else `poll`. */
+  mode: "bootstrap" | "resume" | "poll";
+}
+
+/**
+ * Run one sync pass against `options.store`.
+ *
+ * A bootstrap saves its checkpoint only after every record was applied. A poll
+ * saves after each applied changed-since batch, including the cursors still to
+ * follow, so a crash mid-drain resumes from the last applied page. Call it again
+ * (e.g. on an interval) to keep polling.
+ */
+export async function runResumableSync(
+  source: SyncSource,
+  options: ResumableSyncOptions,
+): Promise<ResumableSyncResult> {
+  const { store, signal, timeoutMs, pageSize, limitPerType } = options;
+
+  let checkpoint: SyncCheckpoint | undefined;
+  try {
+    checkpoint = await store.load();
+  } catch (error) {
+    options.onCheckpointError?.(error);
+    checkpoint = undefined;
+  }
+
+  if (checkpoint === undefined) {
+    await options.reset?.();
+    const since = await fetchServerTimestamp(source, { signal, timeoutMs });
+    for await (const item of iterateFullDataset(source, { pageSize, signal, timeoutMs })) {
+      await options.applyRecord(item);
+    }
+    const next: SyncCheckpoint = { since };
+    await store.save(next);
+    return { checkpoint: next, mode: "bootstrap" };
+  }
+
+  const { since, resume } = checkpoint;
+  let current = checkpoint;
+  const drain = drainChangedSince(source, since, { limitPerType, signal, timeoutMs, resume });
+  let step = await drain.next();
+  while (!step.done) {
+    const batch = step.value;
+    await options.applyBatch(batch);
+    current =
+      Object.keys(batch.cursors).length > 0
+        ? { since, resume: { cursors: batch.cursors, timestamp: batch.timestamp } }
+        : { since: batch.timestamp };
+    await store.save(current);
+    step = await drain.next();
+  }
+  if (current.resume || current.since !== step.value) {
+    // A resumed drain with nothing left to page yields no batch.
+    current = { since: step.value };
+    await store.save(current);
+  }
+  return { checkpoint: current, mode: resume ? "resume" : "poll" };
+}
@@ -0,0 +1,157 @@
+/**
+ * Retry policy for transient Atlas Command failures (deploys, load shedding,
+ * dropped connections).
+ */
+
+import { sleep } from "./abort.js";
+
+export interface RetryOptions {
+  /** Total attempts including the first one (default 3). */
+  maxAttempts?: number;
+  /** Backoff before the first retry in milliseconds (default 200). */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default 5000). */
+  maxDelayMs?: number;
+  /** Growth factor applied to the delay after each attempt (default 2). */
+  backoffMultiplier?: number;
+  /** `"full"` picks a random delay in [0, backoff]; `"none"` uses the exact backoff (default `"full"`). */
+  jitter?: "full" | "none";
+  /** Response statuses that are retried (default 408, 429, 500, 502, 503, 504). */
+  retryOnStatus?: number[];
+  /** Retry when fetch itself rejects, e.g. connection reset or DNS failure (default true). */
+  retryOnNetworkError?: boolean;
+  /** Also retry POST and PATCH requests; only enable when the endpoints are safe to replay (default false). */
+  retryNonIdempotent?: boolean;
+  /** Longest `Retry-After` the client will wait for before retrying anyway (default 60000). */
+  maxRetryAfterMs?: number;
+}
+
+export type ResolvedRetryPolicy = Required<RetryOptions>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 5_000,
+  backoffMultiplier: 2,
+  jitter: "full",
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+  maxRetryAfterMs: 60_000,
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** Statuses for which the server's `Retry-After` header is honoured. */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Normalize the `retry` client option. `undefined`/`false` disables retries
+ * (a single attempt); `true` enables the defaults.
+ */
+export function resolveRetryPolicy(options: RetryOptions | boolean | undefined): ResolvedRetryPolicy {
+  if (options === undefined || options === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  if (options === true) {
+    return { ...DEFAULT_RETRY_POLICY };
+  }
+  const policy: ResolvedRetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      (policy as Record<string, unknown>)[key] = value;
+    }
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+export function isRetryableMethod(policy: ResolvedRetryPolicy, method: string): boolean {
+  return policy.retryNonIdempotent || IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/** Exponential backoff for the delay after `attempt` (1-based), with optional full jitter. */
+export function computeBackoffDelay(
+  policy: Pick<ResolvedRetryPolicy, "initialDelayMs" | "maxDelayMs" | "backoffMultiplier" | "jitter">,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return policy.jitter === "full" ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (value === null || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+function retryDelayForResponse(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  response: Response,
+): number {
+  if (RETRY_AFTER_STATUSES.has(response.status)) {
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, policy.maxRetryAfterMs);
+    }
+  }
+  return computeBackoffDelay(policy, attempt);
+}
+
+/** Release the connection held by a response we are about to discard. */
+export async function discardBody(response: Response): Promise<void> {
+  try {
+    await response.body?.cancel();
+  } catch {
+    // Body already consumed or stream errored; nothing to release.
+  }
+}
+
+/**
+ * Run `attempt` until it yields a non-retryable response, the network error is
+ * not retryable, or the attempt budget is spent. The final response (even a
+ * retryable failure status) is returned to the caller for normal handling.
+ * Aborting `signal` stops further attempts and interrupts backoff waits.
+ */
+export async function executeWithRetry(
+  policy: ResolvedRetryPolicy,
+  method: string,
+  attempt: (attemptNumber: number) => Promise<Response>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const maxAttempts = isRetryableMethod(policy, method) ? policy.maxAttempts : 1;
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    let response: Response;
+    try {
+      response = await attempt(attemptNumber);
+    } catch (error) {
+      if (signal?.aborted || !policy.retryOnNetworkError || attemptNumber >= maxAttempts) {
+        throw error;
+      }
+      await sleep(computeBackoffDelay(policy, attemptNumber), signal);
+      continue;
+    }
+    if (attemptNumber >= maxAttempts || !policy.retryOnStatus.includes(response.status)) {
+      return response;
+    }
+    const delay = retryDelayForResponse(policy, attemptNumber, response);
+    await discardBody(response);
+    await sleep(delay, signal);
+  }
+}
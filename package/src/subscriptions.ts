@@ -0,0 +1,316 @@
+/**
+ * Subscription bookkeeping on top of `AtlasRealtimeClient`: replays
+ * subscriptions after a reconnect, restores `meta.sequence` order, and backfills
+ * missed changes from `/queries/changed-since`.
+ */
+
+import type { EventFrame } from "./types/frames.js";
+import type { AtlasRealtimeClient } from "./realtime.js";
+import { TypedEmitter } from "./emitter.js";
+import { drainChangedSince, fetchServerTimestamp } from "./changedSince.js";
+import type { ChangedSinceBatch, ChangedSinceSource } from "./changedSince.js";
+
+export type SubscriptionRealtime = Pick<AtlasRealtimeClient, "on" | "request">;
+
+export interface SubscriptionManagerOptions {
+  /** How long an out-of-order frame waits for the missing sequence numbers before a backfill (default 500). */
+  reorderWindowMs?: number;
+  /** Out-of-order frames held at most; exceeding it triggers the backfill immediately (default 1000). */
+  maxBufferedEvents?: number;
+  /** Rows per stream per changed-since request during a backfill. */
+  limitPerType?: number;
+  /** Backfill baseline; defaults to the server clock read on the first `subscribe()`. */
+  since?: string;
+}
+
+export interface RealtimeSubscription {
+  readonly channels: string[];
+  readonly filters?: Record<string, unknown>;
+  /** Stop tracking this subscription and unsubscribe channels no other subscription uses. */
+  unsubscribe(): Promise<void>;
+}
+
+export interface SubscriptionGapEvent {
+  /** Sequence number that never arrived. */
+  expected: number;
+  /** First sequence number received after the gap. */
+  received: number;
+}
+
+export interface SubscriptionManagerEvents {
+  /** Every event in order: live frames plus backfilled ones (`meta.backfill: true`). */
+  event: EventFrame;
+  gap: SubscriptionGapEvent;
+  /**
+   * Resubscribe or backfill failures, and errors thrown by `event` or `gap`
+   * listeners. What an `error` listener throws is ignored.
+   */
+  error: unknown;
+}
+
+const DEFAULT_REORDER_WINDOW_MS = 500;
+const DEFAULT_MAX_BUFFERED_EVENTS = 1000;
+
+interface SubscriptionEntry {
+  channels: string[];
+  filters?: Record<string, unknown>;
+}
+
+/** Whether timestamp `a` is a later instant than `b`; false when either does not parse. */
+function isLater(a: string, b: string): boolean {
+  return Date.parse(a) > Date.parse(b);
+}
+
+/** Turn a changed-since batch into event frames, tombstones last. */
+function backfillEvents(batch: ChangedSinceBatch, since: string): EventFrame[] {
+  const meta = { backfill: true, sent_at: batch.timestamp };
+  const upsert = (
+    table: string,
+    id: string,
+    record: { metadata?: { created_at?: string } },
+  ): EventFrame => ({
+    type: "event",
+    meta,
+    payload: {
+      table,
+      operation: isLater(record.metadata?.created_at ?? "", since) ? "create" : "update",
+      id,
+      data: record as unknown as Record<string, unknown>,
+    },
+  });
+  const remove = (table: string, id: string): EventFrame => ({
+    type: "event",
+    meta,
+    payload: { table, operation: "delete", id },
+  });
+  return [
+    ...batch.entities.map((e) => upsert("entities", e.entity_id, e)),
+    ...batch.tasks.map((t) => upsert("tasks", t.task_id, t)),
+    ...batch.objects.map((o) => upsert("objects", o.object_id, o)),
+    ...batch.deleted_entities.map((d) => remove("entities", d.id)),
+    ...batch.deleted_tasks.map((d) => remove("tasks", d.id)),
+    ...batch.deleted_objects.map((d) => remove("objects", d.id)),
+  ];
+}
+
+/**
+ * Tracks active channel subscriptions and turns the raw `event` frames of an
+ * `AtlasRealtimeClient` into one ordered stream.
+ *
+ * Frames with `meta.sequence` are delivered in sequence order. A frame ahead of
+ * the expected number is held for `reorderWindowMs`; if the gap does not close,
+ * the missed changes are fetched with `getChangedSince` from the last applied
+ * timestamp and delivered before the held frames. The same backfill runs after
+ * every reconnect, once subscriptions have been replayed. Backfilled changes can
+ * overlap events already delivered, so handlers should be idempotent.
+ */
+export class RealtimeSubscriptionManager extends TypedEmitter<SubscriptionManagerEvents> {
+  private readonly entries = new Set<SubscriptionEntry>();
+  private readonly reorderWindowMs: number;
+  private readonly maxBufferedEvents: number;
+  private readonly detachers: Array<() => void>;
+  private readonly held = new Map<number, EventFrame>();
+  private expected?: number;
+  private gapTimer?: ReturnType<typeof setTimeout>;
+  private lastTimestamp?: string;
+  /** Set while a failed backfill is outstanding; keeps `lastTimestamp` from moving past the hole. */
+  private backfillFailed = false;
+  /** Deliveries and backfills run one after another through this chain. */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly realtime: SubscriptionRealtime,
+    private readonly source: ChangedSinceSource,
+    private readonly options: SubscriptionManagerOptions = {},
+  ) {
+    super();
+    this.reorderWindowMs = options.reorderWindowMs ?? DEFAULT_REORDER_WINDOW_MS;
+    this.maxBufferedEvents = options.maxBufferedEvents ?? DEFAULT_MAX_BUFFERED_EVENTS;
+    this.lastTimestamp = options.since;
+    this.detachers = [
+      realtime.on("frame", (frame) => {
+        if (frame.type === "event") this.onEvent(frame);
+      }),
+      realtime.on("open", (event) => {
+        if (event.reconnected) this.onReconnected();
+      }),
+    ];
+  }
+
+  /** Active subscriptions, in the order they were made. */
+  get subscriptions(): RealtimeSubscription[] {
+    return [...this.entries].map((entry) => this.handle(entry));
+  }
+
+  /** Timestamp the next backfill starts from. */
+  get timestamp(): string | undefined {
+    return this.lastTimestamp;
+  }
+
+  /** Resolves once the server acknowledged the subscription. */
+  async subscribe(
+    channels: string[],
+    filters?: Record<string, unknown>,
+  ): Promise<RealtimeSubscription> {
+    this.lastTimestamp ??= await fetchServerTimestamp(this.source);
+    const entry: SubscriptionEntry = { channels: [...channels], filters };
+    await this.realtime.request("subscribe", { channels: entry.channels, filters });
+    this.entries.add(entry);
+    return this.handle(entry);
+  }
+
+  /** Detach from the realtime client and drop held frames. Subscriptions stay active on the server. */
+  dispose(): void {
+    for (const detach of this.detachers) detach();
+    this.clearGapTimer();
+    this.held.clear();
+  }
+
+  /** Resolves once every delivery and backfill queued so far has finished. */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  private handle(entry: SubscriptionEntry): RealtimeSubscription {
+    return {
+      channels: entry.channels,
+      filters: entry.filters,
+      unsubscribe: () => this.unsubscribe(entry),
+    };
+  }
+
+  private async unsubscribe(entry: SubscriptionEntry): Promise<void> {
+    if (!this.entries.delete(entry)) return;
+    const stillUsed = new Set([...this.entries].flatMap((other) => other.channels));
+    const channels = entry.channels.filter((channel) => !stillUsed.has(channel));
+    if (channels.length > 0) {
+      await this.realtime.request("unsubscribe", { channels });
+    }
+  }
+
+  private onEvent(frame: EventFrame): void {
+    const sequence = frame.meta?.sequence;
+    if (typeof sequence !== "number") {
+      this.enqueue(() => this.deliver(frame));
+      return;
+    }
+    this.expected ??= sequence;
+    if (sequence < this.expected || this.held.has(sequence)) {
+      return; // Duplicate or already superseded by a backfill.
+    }
+    if (sequence > this.expected) {
+      this.held.set(sequence, frame);
+      if (this.held.size > this.maxBufferedEvents) {
+        this.resolveGap();
+      } else {
+        this.gapTimer ??= setTimeout(() => this.resolveGap(), this.reorderWindowMs);
+      }
+      return;
+    }
+    this.enqueue(() => this.deliver(frame));
+    this.expected = sequence + 1;
+    this.releaseHeld();
+  }
+
+  /** Deliver held frames that are now contiguous with the expected sequence. */
+  private releaseHeld(): void {
+    while (this.expected !== undefined && this.held.has(this.expected)) {
+      const frame = this.held.get(this.expected)!;
+      this.held.delete(this.expected);
+      this.enqueue(() => this.deliver(frame));
+      this.expected += 1;
+    }
+    if (this.held.size === 0) this.clearGapTimer();
+  }
+
+  /** The missing frames are not coming: backfill, then deliver what is held in order. */
+  private resolveGap(): void {
+    this.clearGapTimer();
+    if (this.held.size === 0 || this.expected === undefined) return;
+    const sequences = [...this.held.keys()].sort((a, b) => a - b);
+    this.notify("gap", { expected: this.expected, received: sequences[0] });
+    this.enqueue(() => this.backfill());
+    for (const sequence of sequences) {
+      const frame = this.held.get(sequence)!;
+      this.enqueue(() => this.deliver(frame));
+    }
+    this.held.clear();
+    this.expected = sequences[sequences.length - 1] + 1;
+  }
+
+  private onReconnected(): void {
+    // Sequence numbers are per connection; start over with the first frame.
+    this.clearGapTimer();
+    this.held.clear();
+    this.expected = undefined;
+    const entries = [...this.entries];
+    this.enqueue(async () => {
+      await Promise.all(
+        entries.map((entry) =>
+          this.realtime
+            .request("subscribe", { channels: entry.channels, filters: entry.filters })
+            .catch((error: unknown) => this.notify("error", error)),
+        ),
+      );
+    });
+    this.enqueue(() => this.backfill());
+  }
+
+  private async backfill(): Promise<void> {
+    const since = this.lastTimestamp;
+    if (since === undefined) return;
+    try {
+      const drain = drainChangedSince(this.source, since, {
+        limitPerType: this.options.limitPerType,
+      });
+      let step = await drain.next();
+      while (!step.done) {
+        for (const frame of backfillEvents(step.value, since)) {
+          this.notify("event", frame);
+        }
+        step = await drain.next();
+      }
+      this.lastTimestamp = step.value;
+      this.backfillFailed = false;
+    } catch (error) {
+      // Retried from the same timestamp on the next gap or reconnect.
+      this.backfillFailed = true;
+      throw error;
+    }
+  }
+
+  private deliver(frame: EventFrame): void {
+    const sentAt = frame.meta?.sent_at;
+    if (
+      !this.backfillFailed &&
+      typeof sentAt === "string" &&
+      (this.lastTimestamp === undefined || isLater(sentAt, this.lastTimestamp))
+    ) {
+      this.lastTimestamp = sentAt;
+    }
+    this.notify("event", frame);
+  }
+
+  /** Chain `task`; `notify` never throws, so the queue always settles resolved. */
+  private enqueue(task: () => void | Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error: unknown) => this.notify("error", error));
+  }
+
+  private notify<E extends keyof SubscriptionManagerEvents>(
+    event: E,
+    payload: SubscriptionManagerEvents[E],
+  ): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      if (event !== "error") this.notify("error", error);
+    }
+  }
+
+  private clearGapTimer(): void {
+    if (this.gapTimer !== undefined) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * The task lifecycle as data: which statuses exist, which moves between them
+ * are legal, and which ones end a task. The server stays the authority; the
+ * client consults this table only when `checkTaskTransitions` is on.
+ */
+
+import type { TaskStatus } from "./types/entities.js";
+import { AtlasTaskTransitionError } from "./errors.js";
+
+/**
+ * Legal moves from each status. `in_progress` may repeat so progress updates
+ * can be posted; the terminal statuses allow nothing.
+ */
+export const TASK_TRANSITIONS: Readonly<Record<TaskStatus, readonly TaskStatus[]>> = {
+  pending: ["acknowledged", "in_progress", "failed", "cancelled"],
+  acknowledged: ["in_progress", "failed", "cancelled"],
+  in_progress: ["in_progress", "completed", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export const TASK_STATUSES = Object.keys(TASK_TRANSITIONS) as readonly TaskStatus[];
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === "string" && Object.hasOwn(TASK_TRANSITIONS, value);
+}
+
+/** Whether the task is finished; an unrecognised status counts as still open. */
+export function isTerminal(status: string): boolean {
+  if (!isTaskStatus(status)) return false;
+  switch (status) {
+    case "completed":
+    case "failed":
+    case "cancelled":
+      return true;
+    case "pending":
+    case "acknowledged":
+    case "in_progress":
+      return false;
+    default: {
+      // A compile error here means a new TaskStatus needs a case above.
+      const unhandled: never = status;
+      void unhandled;
+      return false;
+    }
+  }
+}
+
+export function canTransition(from: string, to: TaskStatus): boolean {
+  return isTaskStatus(from) && TASK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw `AtlasTaskTransitionError` when the move is illegal. A current status
+ * the client does not recognise is left for the server to judge.
+ */
+export function assertTaskTransition(taskId: string, from: string, to: TaskStatus): void {
+  if (!isTaskStatus(from) || canTransition(from, to)) return;
+  throw new AtlasTaskTransitionError(taskId, from, to, TASK_TRANSITIONS[from]);
+}
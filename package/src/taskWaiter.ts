@@ -0,0 +1,251 @@
+/**
+ * Shared poller behind `AtlasHttpClient.waitForTask`. Every pending wait on a
+ * client is served by one loop: a few tasks are fetched one by one, and once
+ * enough are awaited at the same time the loop switches to a single
+ * changed-since drain per tick.
+ */
+
+import type { AtlasHttpClient } from "./httpClient.js";
+import type { TaskProgressComponent } from "./types/components.js";
+import type { SerializedTask } from "./types/entities.js";
+import { drainChangedSince, fetchServerTimestamp } from "./changedSince.js";
+import type { ChangedSinceSource } from "./changedSince.js";
+import { AtlasHttpError, AtlasTaskFailedError, AtlasTaskTimeoutError, AtlasTimeoutError } from "./errors.js";
+import { abortReason } from "./abort.js";
+import { isTerminal } from "./taskStatus.js";
+
+export type TaskWaitSource = Pick<AtlasHttpClient, "getTask"> & ChangedSinceSource;
+
+export interface WaitForTaskOptions {
+  /** Reject with `AtlasTaskTimeoutError` after this long. Unset waits indefinitely. */
+  timeoutMs?: number;
+  /** Delay between polls (default 1000). Concurrent waits share a poller running at the shortest interval. */
+  pollIntervalMs?: number;
+  /**
+   * Resolve as soon as this returns true, e.g. `(task) => task.status === "in_progress"`.
+   * A terminal status still ends the wait if it comes first.
+   */
+  until?: (task: SerializedTask) => boolean;
+  /** Called whenever the task's `progress` component changes, including the first time it is seen. */
+  onProgress?: (progress: TaskProgressComponent, task: SerializedTask) => void;
+  /** Stop waiting; rejects with the signal's reason. Does not affect the task. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+/** Distinct awaited tasks at which one changed-since drain beats a `getTask` each. */
+const CHANGED_SINCE_THRESHOLD = 3;
+
+/**
+ * Failures the next tick may not hit: network errors, timeouts, and 408, 429
+ * and 5xx responses. Anything else, such as a 404, ends the waits it concerns.
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof AtlasHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return error instanceof AtlasTimeoutError || error instanceof TypeError;
+}
+
+interface Wait {
+  taskId: string;
+  options: WaitForTaskOptions;
+  last?: SerializedTask;
+  /** JSON of the last progress component reported to `onProgress`. */
+  progress?: string;
+  settle(outcome: { task: SerializedTask } | { error: unknown }): void;
+}
+
+export class TaskWaiter {
+  private readonly waits = new Map<string, Set<Wait>>();
+  /** Latest fetched state of every awaited task. */
+  private readonly tasks = new Map<string, SerializedTask>();
+  /** Awaited tasks not fetched since they were first awaited. */
+  private readonly unseen = new Set<string>();
+  /** changed-since `since` while polling in bulk; undefined otherwise. */
+  private cursor?: string;
+  private timer?: ReturnType<typeof setTimeout>;
+  private cycle?: Promise<void>;
+  /** The last tick hit a transient failure, so the next one waits the full interval. */
+  private backOff = false;
+
+  constructor(private readonly source: TaskWaitSource) {}
+
+  wait(taskId: string, options: WaitForTaskOptions = {}): Promise<SerializedTask> {
+    const { signal, timeoutMs } = options;
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    return new Promise<SerializedTask>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => wait.settle({ error: abortReason(signal!) });
+      const wait: Wait = {
+        taskId,
+        options,
+        settle: (outcome) => {
+          if (timer !== undefined) clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          this.remove(wait);
+          if ("task" in outcome) resolve(outcome.task);
+          else reject(outcome.error);
+        },
+      };
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(
+          () => wait.settle({ error: new AtlasTaskTimeoutError(taskId, timeoutMs, wait.last) }),
+          timeoutMs,
+        );
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      let waits = this.waits.get(taskId);
+      if (!waits) {
+        waits = new Set();
+        this.waits.set(taskId, waits);
+        this.unseen.add(taskId);
+      }
+      waits.add(wait);
+      const known = this.tasks.get(taskId);
+      if (known) this.check(wait, known);
+      // A running poll reschedules itself when it finishes.
+      if (!this.cycle && (this.timer === undefined || this.unseen.has(taskId))) this.schedule();
+    });
+  }
+
+  /**
+   * Arm the next poll: on the next tick while some awaited task has not been
+   * fetched yet (so waits started together share it), else after the interval.
+   */
+  private schedule(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.waits.size === 0) {
+      this.cursor = undefined;
+      return;
+    }
+    const delay = this.unseen.size > 0 && !this.backOff ? 0 : this.interval();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.cycle = this.poll().finally(() => {
+        this.cycle = undefined;
+        this.schedule();
+      });
+    }, delay);
+  }
+
+  private interval(): number {
+    let interval = Number.POSITIVE_INFINITY;
+    for (const waits of this.waits.values()) {
+      for (const { options } of waits) {
+        interval = Math.min(interval, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      }
+    }
+    return interval;
+  }
+
+  /**
+   * One tick. Never rejects: transient failures leave the waits pending for the
+   * next tick, and other failures are delivered to the waits they concern.
+   */
+  private async poll(): Promise<void> {
+    this.backOff = false;
+    const ids = [...this.waits.keys()];
+    let fetch = ids;
+    if (ids.length < CHANGED_SINCE_THRESHOLD) {
+      this.cursor = undefined;
+    } else if (this.cursor === undefined) {
+      // Take the server clock before fetching anything, so the first drain
+      // repeats rather than misses what changes in between.
+      try {
+        this.cursor = await fetchServerTimestamp(this.source);
+      } catch (error) {
+        this.fail(ids, error);
+        return;
+      }
+    } else {
+      fetch = ids.filter((id) => this.unseen.has(id));
+      const tracked = new Set(ids.filter((id) => !this.unseen.has(id)));
+      const deleted = new Set<string>();
+      try {
+        const drain = drainChangedSince(this.source, this.cursor);
+        let next = await drain.next();
+        for (; !next.done; next = await drain.next()) {
+          for (const task of next.value.tasks) {
+            if (tracked.has(task.task_id)) this.update(task);
+          }
+          // A deleted task is fetched so its waits reject with the 404.
+          for (const { id } of next.value.deleted_tasks) {
+            if (tracked.has(id)) deleted.add(id);
+          }
+        }
+        this.cursor = next.value;
+      } catch (error) {
+        this.fail([...tracked], error);
+      }
+      fetch.push(...deleted);
+    }
+    for (const id of fetch) this.unseen.delete(id);
+    await Promise.all(
+      fetch.map((id) =>
+        this.source.getTask(id).then(
+          (task) => this.update(task),
+          (error) => {
+            // Fetch it again next tick; the changed-since cursor may already be past its change.
+            if (isTransient(error) && this.waits.has(id)) this.unseen.add(id);
+            this.fail([id], error);
+          },
+        ),
+      ),
+    );
+  }
+
+  private update(task: SerializedTask): void {
+    const waits = this.waits.get(task.task_id);
+    if (!waits) return;
+    this.tasks.set(task.task_id, task);
+    for (const wait of [...waits]) this.check(wait, task);
+  }
+
+  private check(wait: Wait, task: SerializedTask): void {
+    wait.last = task;
+    const { until, onProgress } = wait.options;
+    try {
+      const progress = task.components.progress as TaskProgressComponent | undefined;
+      const serialized = progress === undefined ? undefined : JSON.stringify(progress);
+      if (progress !== undefined && serialized !== wait.progress) {
+        wait.progress = serialized;
+        onProgress?.(progress, task);
+      }
+      if (until?.(task)) {
+        wait.settle({ task });
+      } else if (task.status === "failed" || task.status === "cancelled") {
+        wait.settle({ error: new AtlasTaskFailedError(task) });
+      } else if (isTerminal(task.status)) {
+        wait.settle({ task });
+      }
+    } catch (error) {
+      wait.settle({ error });
+    }
+  }
+
+  private fail(ids: string[], error: unknown): void {
+    if (isTransient(error)) {
+      this.backOff = true;
+      return;
+    }
+    for (const id of ids) {
+      for (const wait of [...(this.waits.get(id) ?? [])]) wait.settle({ error });
+    }
+  }
+
+  private remove(wait: Wait): void {
+    const waits = this.waits.get(wait.taskId);
+    if (!waits?.delete(wait) || waits.size > 0) return;
+    this.waits.delete(wait.taskId);
+    this.tasks.delete(wait.taskId);
+    this.unseen.delete(wait.taskId);
+    if (this.waits.size === 0 && !this.cycle) this.schedule();
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Rate-limited telemetry publishing: keep the latest fix per entity and send
+ * only what changed, at most once per interval, through
+ * `updateEntityTelemetry`.
+ */
+
+import type { AtlasHttpClient } from "./httpClient.js";
+import type { TelemetryComponent } from "./types/components.js";
+import { TypedEmitter } from "./emitter.js";
+
+export type TelemetrySink = Pick<AtlasHttpClient, "updateEntityTelemetry">;
+
+/**
+ * Minimum change before a field is sent again. A field that has never been
+ * sent is always included; a change exactly at the threshold is not.
+ */
+export interface TelemetryDeadbands {
+  /** Great-circle distance in meters between the last sent and the latest position (default 0). */
+  distanceM?: number;
+  /** Heading change in degrees, measured the short way round (default 0). */
+  headingDeg?: number;
+  /** Speed change in meters/second (default 0). */
+  speedMS?: number;
+  /** Altitude change in meters (default 0). */
+  altitudeM?: number;
+}
+
+export interface TelemetryPublisherOptions {
+  /** Minimum time between two sends for the same entity, or a per-entity function (default 1000). */
+  intervalMs?: number | ((entityId: string) => number);
+  deadbands?: TelemetryDeadbands;
+  /** Requests in flight at once across all entities (default 4). */
+  maxConcurrency?: number;
+  /** Entities waiting for a free request slot before `publish` reports backpressure (default 100). */
+  backpressureThreshold?: number;
+  /** Deadline for each individual request in milliseconds. */
+  timeoutMs?: number;
+}
+
+export interface TelemetrySentEvent {
+  entityId: string;
+  /** The fields that were sent. */
+  telemetry: TelemetryComponent;
+}
+
+export interface TelemetryErrorEvent {
+  /** Empty when the error came from a `backpressure` or `drain` listener. */
+  entityId: string;
+  /**
+   * The fields that failed to send; they are retried with the entity's next
+   * send. For a throwing `sent` listener, the fields that were sent.
+   */
+  telemetry: TelemetryComponent;
+  error: unknown;
+}
+
+export interface TelemetryBackpressureEvent {
+  /** Entities due to send but waiting for a free request slot. */
+  queued: number;
+  inFlight: number;
+}
+
+export interface TelemetryPublisherEvents {
+  sent: TelemetrySentEvent;
+  /**
+   * A send failed. The publisher keeps the unsent fields and tries again after
+   * the interval. Also emitted (with the failing listener's error) when a
+   * `sent`, `backpressure` or `drain` listener throws; errors thrown by `error`
+   * listeners are dropped.
+   */
+  error: TelemetryErrorEvent;
+  /** The send queue reached `backpressureThreshold`. */
+  backpressure: TelemetryBackpressureEvent;
+  /** The send queue emptied after `backpressure` was emitted. */
+  drain: undefined;
+}
+
+export interface TelemetryPublisherStats {
+  /** Fixes passed to `publish`. */
+  published: number;
+  /** Successful requests. */
+  sent: number;
+  /** Failed requests. */
+  failed: number;
+  /** Entities due to send but waiting for a free request slot. */
+  queued: number;
+  inFlight: number;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_BACKPRESSURE_THRESHOLD = 100;
+const EARTH_RADIUS_M = 6_371_008.8;
+
+const FIELDS = ["latitude", "longitude", "altitude_m", "speed_m_s", "heading_deg"] as const;
+
+interface EntityState {
+  /** Latest value of every field published so far. */
+  latest: TelemetryComponent;
+  /** Last value of every field the server accepted. */
+  sent: TelemetryComponent;
+  lastSendAt: number;
+  inFlight: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Haversine distance in meters. */
+function distanceM(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function headingDelta(a: number, b: number): number {
+  const delta = Math.abs(a - b) % 360;
+  return delta > 180 ? 360 - delta : delta;
+}
+
+/**
+ * Coalesces high-rate telemetry into at most one `updateEntityTelemetry` call
+ * per entity per interval.
+ *
+ * Every `publish` overwrites the entity's latest fix; when the entity's
+ * interval has elapsed, the fields that moved past their deadband are sent.
+ * Entities that are due wait in a FIFO queue for one of `maxConcurrency`
+ * request slots, and `publish` returns `false` (and `backpressure` is emitted)
+ * while that queue is at or above `backpressureThreshold`. A failed send keeps
+ * its fields pending, so the next attempt carries the newest values.
+ */
+export class TelemetryPublisher extends TypedEmitter<TelemetryPublisherEvents> {
+  private readonly entities = new Map<string, EntityState>();
+  private readonly queue = new Set<string>();
+  private readonly sending = new Set<Promise<void>>();
+  private readonly deadbands: Required<TelemetryDeadbands>;
+  private readonly maxConcurrency: number;
+  private readonly backpressureThreshold: number;
+  private backpressured = false;
+  private closed = false;
+  private counts = { published: 0, sent: 0, failed: 0 };
+
+  constructor(
+    private readonly sink: TelemetrySink,
+    private readonly options: TelemetryPublisherOptions = {},
+  ) {
+    super();
+    this.deadbands = { distanceM: 0, headingDeg: 0, speedMS: 0, altitudeM: 0, ...options.deadbands };
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+    this.backpressureThreshold = options.backpressureThreshold ?? DEFAULT_BACKPRESSURE_THRESHOLD;
+  }
+
+  get stats(): TelemetryPublisherStats {
+    return { ...this.counts, queued: this.queue.size, inFlight: this.sending.size };
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Record the latest fix for `entityId`. Returns `false` when the send queue
+   * is backed up; the fix is still kept, but callers may want to slow down.
+   */
+  publish(entityId: string, telemetry: TelemetryComponent): boolean {
+    if (this.closed) {
+      throw new Error("TelemetryPublisher.publish called after close().");
+    }
+    this.counts.published += 1;
+    let state = this.entities.get(entityId);
+    if (!state) {
+      state = { latest: {}, sent: {}, lastSendAt: Number.NEGATIVE_INFINITY, inFlight: false };
+      this.entities.set(entityId, state);
+    }
+    for (const field of FIELDS) {
+      const value = telemetry[field];
+      if (value !== undefined) state.latest[field] = value;
+    }
+    this.schedule(entityId, state);
+    return this.queue.size < this.backpressureThreshold;
+  }
+
+  /** Send every pending change now, ignoring intervals, and wait for the requests to finish. */
+  async flush(): Promise<void> {
+    await this.settle();
+    for (const [entityId, state] of this.entities) {
+      if (Object.keys(this.changes(state)).length === 0) continue;
+      this.clearTimer(state);
+      this.queue.add(entityId);
+    }
+    this.pump();
+    await this.settle();
+  }
+
+  /**
+   * Stop accepting fixes, send everything still pending once, and wait for all
+   * requests. Failures in the final flush are emitted as `error` but not retried.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      await this.settle();
+      return;
+    }
+    this.closed = true;
+    await this.flush();
+    for (const state of this.entities.values()) this.clearTimer(state);
+  }
+
+  /** The fields of the latest fix that moved past their deadband since the last send. */
+  private changes(state: EntityState): TelemetryComponent {
+    const { latest, sent } = state;
+    const { distanceM: distance, headingDeg, speedMS, altitudeM } = this.deadbands;
+    const changes: TelemetryComponent = {};
+
+    if (
+      latest.latitude !== undefined &&
+      latest.longitude !== undefined &&
+      sent.latitude !== undefined &&
+      sent.longitude !== undefined
+    ) {
+      if (distanceM(sent.latitude, sent.longitude, latest.latitude, latest.longitude) > distance) {
+        changes.latitude = latest.latitude;
+        changes.longitude = latest.longitude;
+      }
+    } else {
+      if (latest.latitude !== undefined && latest.latitude !== sent.latitude) changes.latitude = latest.latitude;
+      if (latest.longitude !== undefined && latest.longitude !== sent.longitude) changes.longitude = latest.longitude;
+    }
+
+    const scalar = (
+      field: "altitude_m" | "speed_m_s" | "heading_deg",
+      threshold: number,
+      delta: (a: number, b: number) => number,
+    ) => {
+      const value = latest[field];
+      const previous = sent[field];
+      if (value !== undefined && (previous === undefined || delta(previous, value) > threshold)) {
+        changes[field] = value;
+      }
+    };
+    scalar("altitude_m", altitudeM, (a, b) => Math.abs(a - b));
+    scalar("speed_m_s", speedMS, (a, b) => Math.abs(a - b));
+    scalar("heading_deg", headingDeg, headingDelta);
+    return changes;
+  }
+
+  private intervalFor(entityId: string): number {
+    const { intervalMs = DEFAULT_INTERVAL_MS } = this.options;
+    return typeof intervalMs === "function" ? intervalMs(entityId) : intervalMs;
+  }
+
+  /** Queue the entity now, or arm a timer for when its interval has elapsed. */
+  private schedule(entityId: string, state: EntityState): void {
+    if (state.inFlight || state.timer !== undefined || this.queue.has(entityId)) return;
+    if (Object.keys(this.changes(state)).length === 0) return;
+    const wait = state.lastSendAt + this.intervalFor(entityId) - Date.now();
+    if (wait <= 0) {
+      this.enqueue(entityId);
+      return;
+    }
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      this.enqueue(entityId);
+    }, wait);
+  }
+
+  private enqueue(entityId: string): void {
+    this.queue.add(entityId);
+    this.pump();
+    if (!this.backpressured && this.queue.size >= this.backpressureThreshold) {
+      this.backpressured = true;
+      this.notify("backpressure", { queued: this.queue.size, inFlight: this.sending.size });
+    }
+  }
+
+  private pump(): void {
+    for (const entityId of this.queue) {
+      if (this.sending.size >= this.maxConcurrency) break;
+      this.queue.delete(entityId);
+      const state = this.entities.get(entityId)!;
+      const telemetry = this.changes(state);
+      if (Object.keys(telemetry).length === 0) continue;
+      const send = this.send(entityId, state, telemetry)
+        .catch((error) => this.notify("error", { entityId, telemetry, error }))
+        .finally(() => {
+          this.sending.delete(send);
+          this.pump();
+        });
+      this.sending.add(send);
+    }
+    if (this.backpressured && this.queue.size === 0) {
+      this.backpressured = false;
+      this.notify("drain", undefined);
+    }
+  }
+
+  private async send(entityId: string, state: EntityState, telemetry: TelemetryComponent): Promise<void> {
+    state.inFlight = true;
+    state.lastSendAt = Date.now();
+    let failure: { error: unknown } | undefined;
+    try {
+      await this.sink.updateEntityTelemetry(entityId, telemetry, { timeoutMs: this.options.timeoutMs });
+      Object.assign(state.sent, telemetry);
+    } catch (error) {
+      failure = { error };
+    } finally {
+      state.inFlight = false;
+    }
+    // Reschedule before telling listeners, so a failed entity's fields are
+    // retried whatever the listeners do.
+    if (!this.closed) this.schedule(entityId, state);
+    if (failure) {
+      this.counts.failed += 1;
+      this.notify("error", { entityId, telemetry, error: failure.error });
+    } else {
+      this.counts.sent += 1;
+      this.notify("sent", { entityId, telemetry });
+    }
+  }
+
+  /**
+   * Emit without letting a listener break sending: a throwing listener is
+   * reported as `error`, and one thrown by an `error` listener is dropped.
+   */
+  private notify<E extends keyof TelemetryPublisherEvents>(
+    event: E,
+    payload: TelemetryPublisherEvents[E],
+  ): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      if (event === "error") return;
+      const { entityId = "", telemetry = {} } = event === "sent" ? (payload as TelemetrySentEvent) : {};
+      this.notify("error", { entityId, telemetry, error });
+    }
+  }
+
+  /** Wait until no request is in flight. */
+  private async settle(): Promise<void> {
+    while (this.sending.size > 0) {
+      await Promise.allSettled([...this.sending]);
+    }
+  }
+
+  private clearTimer(state: EntityState): void {
+    if (state.timer !== undefined) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+  }
+}
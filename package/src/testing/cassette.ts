@@ -0,0 +1,406 @@
+/**
+ * Record/replay of `fetchImpl` traffic. Record once against a real Atlas
+ * Command, commit the JSON cassette, and replay it offline in later runs.
+ */
+
+import type { FetchImplementation } from "../httpClient.js";
+import { AtlasError } from "../errors.js";
+
+export type CassetteMode = "record" | "replay";
+
+/** A request or response body as stored in the cassette. */
+export type CassetteBody =
+  | { kind: "empty" }
+  | { kind: "json"; value: unknown }
+  | { kind: "text"; value: string }
+  | { kind: "base64"; value: string }
+  | { kind: "multipart"; fields: CassetteFormField[] };
+
+export interface CassetteFormField {
+  name: string;
+  /** Text value of a plain field. */
+  value?: string;
+  /** File parts: name, MIME type and base64 content. */
+  filename?: string;
+  contentType?: string;
+  base64?: string;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: CassetteBody;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: CassetteBody;
+  };
+}
+
+export interface CassetteData {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteMatchOptions {
+  /** Compare query parameters (default true). */
+  query?: boolean;
+  /** Compare request bodies (default true). */
+  body?: boolean;
+  /**
+   * Query parameters, JSON body keys (at any depth) and form fields left out of
+   * the comparison because they change between runs.
+   */
+  ignoreFields?: string[];
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Transport used while recording, and for unmatched requests in non-strict replay (default global `fetch`). */
+  fetchImpl?: FetchImplementation;
+  match?: CassetteMatchOptions;
+  /** Replay only: throw `AtlasCassetteError` for a request no unplayed interaction matches (default true). */
+  strict?: boolean;
+  /** Request headers whose values are replaced by `[REDACTED]` when recording (default `["authorization"]`). */
+  redactHeaders?: string[];
+}
+
+/** A replayed request matched nothing, or a cassette file is unusable. */
+export class AtlasCassetteError extends AtlasError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AtlasCassetteError";
+  }
+}
+
+export const DEFAULT_IGNORED_FIELDS = ["since", "timestamp", "sent_at", "created_at", "updated_at"];
+const REDACTED = "[REDACTED]";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function headerRecord(headers: Headers, redact: ReadonlySet<string> = new Set()): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = redact.has(name) ? REDACTED : value;
+  });
+  return record;
+}
+
+async function encodeForm(form: FormData): Promise<CassetteBody> {
+  const entries: Array<[string, FormDataEntryValue]> = [];
+  form.forEach((entry, name) => entries.push([name, entry]));
+  const fields: CassetteFormField[] = [];
+  for (const [name, entry] of entries) {
+    if (typeof entry === "string") {
+      fields.push({ name, value: entry });
+    } else {
+      fields.push({
+        name,
+        filename: (entry as File).name,
+        contentType: entry.type,
+        base64: toBase64(new Uint8Array(await entry.arrayBuffer())),
+      });
+    }
+  }
+  return { kind: "multipart", fields };
+}
+
+async function encodeRequestBody(input: RequestInfo, init: RequestInit | undefined): Promise<CassetteBody> {
+  const body = init?.body ?? undefined;
+  if (body instanceof FormData) {
+    return encodeForm(body);
+  }
+  let text: string;
+  if (typeof body === "string") {
+    text = body;
+  } else if (body !== undefined) {
+    text = await new Response(body).text();
+  } else if (typeof input !== "string" && input.body) {
+    if (input.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      return encodeForm(await input.clone().formData());
+    }
+    text = await input.clone().text();
+  } else {
+    return { kind: "empty" };
+  }
+  try {
+    return { kind: "json", value: JSON.parse(text) as unknown };
+  } catch {
+    return { kind: "text", value: text };
+  }
+}
+
+async function encodeResponseBody(response: Response): Promise<CassetteBody> {
+  const bytes = new Uint8Array(await response.clone().arrayBuffer());
+  if (bytes.byteLength === 0) {
+    return { kind: "empty" };
+  }
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.includes("json") || contentType.startsWith("text/")) {
+    const text = new TextDecoder().decode(bytes);
+    if (contentType.includes("json")) {
+      try {
+        return { kind: "json", value: JSON.parse(text) as unknown };
+      } catch {
+        // Not actually JSON; keep the text.
+      }
+    }
+    return { kind: "text", value: text };
+  }
+  return { kind: "base64", value: toBase64(bytes) };
+}
+
+function decodeBody(body: CassetteBody): BodyInit | null {
+  switch (body.kind) {
+    case "empty":
+      return null;
+    case "json":
+      return JSON.stringify(body.value);
+    case "text":
+      return body.value;
+    case "base64":
+      return fromBase64(body.value).buffer as ArrayBuffer;
+    case "multipart":
+      throw new AtlasCassetteError("Multipart bodies are only recorded for requests");
+  }
+}
+
+/** JSON with sorted keys and the ignored keys removed at every depth. */
+function canonical(value: unknown, ignored: ReadonlySet<string>): string {
+  const strip = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(strip);
+    if (node && typeof node === "object") {
+      return Object.fromEntries(
+        Object.keys(node)
+          .filter((key) => !ignored.has(key))
+          .sort()
+          .map((key) => [key, strip((node as Record<string, unknown>)[key])]),
+      );
+    }
+    return node;
+  };
+  return JSON.stringify(strip(value));
+}
+
+function bodyKey(body: CassetteBody, ignored: ReadonlySet<string>): string {
+  switch (body.kind) {
+    case "json":
+      return canonical(body.value, ignored);
+    case "multipart":
+      return canonical(
+        body.fields.filter((field) => !ignored.has(field.name)),
+        new Set<string>(),
+      );
+    case "empty":
+      return "";
+    default:
+      return body.value;
+  }
+}
+
+function queryKey(url: URL, ignored: ReadonlySet<string>): string {
+  return [...url.searchParams]
+    .filter(([name]) => !ignored.has(name))
+    .sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+}
+
+/**
+ * Records `fetchImpl` traffic into a cassette or replays it. Interactions are
+ * matched on method and path, plus query parameters and body unless disabled
+ * in `match`; `match.ignoreFields` (default `DEFAULT_IGNORED_FIELDS`) keeps
+ * timestamps from breaking the match. Each recorded interaction answers one
+ * request, in recorded order, so repeated identical calls replay the same
+ * sequence of responses.
+ *
+ * ```ts
+ * const cassette = await AtlasCassette.load("tests/cassettes/sync.json", {
+ *   mode: process.env.RECORD ? "record" : "replay",
+ * });
+ * const client = new AtlasHttpClient({ baseUrl, token, fetchImpl: cassette.fetch });
+ * // ... exercise the client ...
+ * await cassette.save();
+ * ```
+ */
+export class AtlasCassette {
+  readonly mode: CassetteMode;
+  private readonly recorded: CassetteInteraction[];
+  private readonly played = new Set<number>();
+  private readonly strict: boolean;
+  private readonly matchQuery: boolean;
+  private readonly matchBody: boolean;
+  private readonly ignored: ReadonlySet<string>;
+  private readonly redact: ReadonlySet<string>;
+  private readonly fetchImpl?: FetchImplementation;
+
+  constructor(
+    options: CassetteOptions,
+    data?: CassetteData,
+    private readonly filePath?: string,
+  ) {
+    this.mode = options.mode;
+    // Recording starts from an empty cassette; the file is rewritten by save().
+    this.recorded = options.mode === "record" ? [] : [...(data?.interactions ?? [])];
+    this.strict = options.strict ?? true;
+    this.matchQuery = options.match?.query ?? true;
+    this.matchBody = options.match?.body ?? true;
+    this.ignored = new Set(options.match?.ignoreFields ?? DEFAULT_IGNORED_FIELDS);
+    this.redact = new Set((options.redactHeaders ?? ["authorization"]).map((h) => h.toLowerCase()));
+    this.fetchImpl =
+      options.fetchImpl ??
+      (typeof globalThis.fetch === "function" ? globalThis.fetch.bind(globalThis) : undefined);
+  }
+
+  /**
+   * Open a cassette file. In replay mode the file must exist; in record mode it
+   * is only written by `save()`.
+   */
+  static async load(filePath: string, options: CassetteOptions): Promise<AtlasCassette> {
+    if (options.mode === "record") {
+      return new AtlasCassette(options, undefined, filePath);
+    }
+    const fs = await import("node:fs/promises");
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new AtlasCassetteError(`Cassette ${filePath} does not exist; record it first`);
+      }
+      throw error;
+    }
+    let data: CassetteData;
+    try {
+      data = JSON.parse(text) as CassetteData;
+    } catch {
+      throw new AtlasCassetteError(`Cassette ${filePath} is not valid JSON`);
+    }
+    if (data?.version !== 1 || !Array.isArray(data.interactions)) {
+      throw new AtlasCassetteError(`Cassette ${filePath} has an unsupported format`);
+    }
+    return new AtlasCassette(options, data, filePath);
+  }
+
+  /** `FetchImplementation` to pass as `fetchImpl`. */
+  readonly fetch: FetchImplementation = (input, init) =>
+    this.mode === "record" ? this.record(input, init) : this.replay(input, init);
+
+  get interactions(): readonly CassetteInteraction[] {
+    return this.recorded;
+  }
+
+  /** Recorded interactions no request has replayed yet. */
+  unplayed(): CassetteInteraction[] {
+    return this.recorded.filter((_, index) => !this.played.has(index));
+  }
+
+  toJSON(): CassetteData {
+    return { version: 1, interactions: this.recorded };
+  }
+
+  /** Write the recording to `filePath` (default: the file it was loaded from). No-op when replaying. */
+  async save(filePath = this.filePath): Promise<void> {
+    if (this.mode !== "record") {
+      return;
+    }
+    if (!filePath) {
+      throw new AtlasCassetteError("No cassette path to save to");
+    }
+    const fs = await import("node:fs/promises");
+    await fs.writeFile(filePath, `${JSON.stringify(this.toJSON(), null, 2)}\n`, "utf8");
+  }
+
+  private async record(input: RequestInfo, init?: RequestInit): Promise<Response> {
+    if (!this.fetchImpl) {
+      throw new AtlasCassetteError("fetch is not available; provide fetchImpl to record");
+    }
+    const body = await encodeRequestBody(input, init);
+    const response = await this.fetchImpl(input, init);
+    const method = (init?.method ?? (typeof input === "string" ? "GET" : input.method)).toUpperCase();
+    const headers = new Headers(init?.headers ?? (typeof input === "string" ? undefined : input.headers));
+    const responseBody = await encodeResponseBody(response);
+    const responseHeaders = headerRecord(response.headers);
+    if (responseBody.kind === "json") {
+      // Replay re-serializes JSON, so the original length may no longer hold.
+      delete responseHeaders["content-length"];
+    }
+    this.recorded.push({
+      request: {
+        method,
+        url: typeof input === "string" ? input : input.url,
+        headers: headerRecord(headers, this.redact),
+        body,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        body: responseBody,
+      },
+    });
+    return response;
+  }
+
+  private async replay(input: RequestInfo, init?: RequestInit): Promise<Response> {
+    const method = (init?.method ?? (typeof input === "string" ? "GET" : input.method)).toUpperCase();
+    const url = new URL(typeof input === "string" ? input : input.url);
+    const key = this.requestKey(method, url, await encodeRequestBody(input, init));
+    const index = this.recorded.findIndex(
+      (interaction, i) =>
+        !this.played.has(i) &&
+        this.requestKey(
+          interaction.request.method,
+          new URL(interaction.request.url),
+          interaction.request.body,
+        ) === key,
+    );
+    if (index === -1) {
+      if (!this.strict && this.fetchImpl) {
+        return this.fetchImpl(input, init);
+      }
+      const candidates = this.recorded
+        .filter((interaction) => interaction.request.method === method)
+        .map((interaction) => `  ${interaction.request.method} ${interaction.request.url}`)
+        .slice(0, 5)
+        .join("\n");
+      throw new AtlasCassetteError(
+        `No unplayed cassette interaction matches ${method} ${url.pathname}${url.search}` +
+          (candidates ? `\nRecorded ${method} requests:\n${candidates}` : ""),
+      );
+    }
+    this.played.add(index);
+    const { response } = this.recorded[index];
+    return new Response(decodeBody(response.body), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private requestKey(method: string, url: URL, body: CassetteBody): string {
+    return [
+      method.toUpperCase(),
+      url.pathname,
+      this.matchQuery ? queryKey(url, this.ignored) : "",
+      this.matchBody ? bodyKey(body, this.ignored) : "",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,897 @@
+/**
+ * In-memory stand-in for the Atlas Command REST API. Pass `server.fetch` as
+ * `fetchImpl` and every route `AtlasHttpClient` calls is served from local
+ * state, so consumer tests exercise real request shapes instead of
+ * hand-matched URLs.
+ */
+
+import type { FetchImplementation, JsonRecord } from "../httpClient.js";
+import type {
+  DeletedResource,
+  SerializedEntity,
+  SerializedObject,
+  SerializedTask,
+  TaskStatus,
+} from "../types/entities.js";
+import { abortReason } from "../abort.js";
+
+export interface AtlasFakeServerOptions {
+  /** Base URL to hand the client (default `http://atlas.fake`). */
+  baseUrl?: string;
+  /** Wall clock in epoch milliseconds; record timestamps are kept strictly increasing (default `Date.now`). */
+  now?: () => number;
+  /** Delay before every response in milliseconds (default 0). */
+  latencyMs?: number;
+  /** Answer object PATCHes without `If-Match` with 428 instead of applying them (default false). */
+  requireIfMatch?: boolean;
+}
+
+export type FakeEntitySeed = Partial<SerializedEntity> & { entity_id: string };
+export type FakeTaskSeed = Partial<SerializedTask> & { task_id: string };
+export type FakeObjectSeed = Partial<SerializedObject> & {
+  object_id: string;
+  /** Bytes served by `/download` and `/view`. */
+  content?: Uint8Array | string;
+};
+
+export interface FakeServerSeed {
+  entities?: FakeEntitySeed[];
+  tasks?: FakeTaskSeed[];
+  objects?: FakeObjectSeed[];
+}
+
+/** A scripted failure for requests matching `method` and `path`. */
+export interface FakeFault {
+  /** Only requests with this method (any method when unset). */
+  method?: string;
+  /** Exact path such as `/entities/e1`, or a pattern; any path when unset. */
+  path?: string | RegExp;
+  /** Number of matching requests affected (default 1; `Infinity` for all). */
+  times?: number;
+  /** Extra latency in milliseconds before the fault (or the real response). */
+  delayMs?: number;
+  /** Answer with this status instead of handling the request. */
+  status?: number;
+  /** Body for `status`; objects are sent as JSON (default `{ detail: "Injected fault" }`). */
+  body?: unknown;
+  headers?: HeadersInit;
+  /**
+   * `"request"`: reject like a network error without touching state.
+   * `"response"`: apply the request, then reject as if the response was lost.
+   * `"hang"`: never answer; only the request's signal ends the call.
+   */
+  drop?: "request" | "response" | "hang";
+}
+
+export interface FakeServerCall {
+  method: string;
+  /** Path relative to the base URL, e.g. `/entities/e1/checkin`. */
+  path: string;
+  query: Record<string, string>;
+  /** Request headers with lower-case names. */
+  headers: Record<string, string>;
+  /** Parsed JSON body, the `FormData` of an upload, or undefined. */
+  body: unknown;
+  /** Status the server answered with; undefined when the call was dropped or aborted. */
+  status?: number;
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  names: string[];
+  handler: RouteHandler;
+}
+
+interface PendingFault extends FakeFault {
+  remaining: number;
+}
+
+const DEFAULT_BASE_URL = "http://atlas.fake";
+const DEFAULT_QUERY_LIMIT = 100;
+
+function json(status: number, body: unknown, headers?: HeadersInit): Response {
+  const merged = new Headers(headers);
+  merged.set("content-type", "application/json");
+  return new Response(JSON.stringify(body), { status, headers: merged });
+}
+
+function problem(status: number, detail: string): Response {
+  return json(status, { detail });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+function toBytes(content: Uint8Array | string | undefined): Uint8Array {
+  if (content === undefined) return new Uint8Array();
+  return typeof content === "string" ? new TextEncoder().encode(content) : content;
+}
+
+function intParam(query: URLSearchParams, name: string, fallback: number): number {
+  const raw = query.get(name);
+  const value = raw === null ? Number.NaN : Number.parseInt(raw, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function wait(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      if (timer !== undefined) clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = Number.isFinite(ms)
+      ? setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, ms)
+      : undefined;
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Component-level merge patch: each key replaces that component, `null` deletes it. */
+function mergeComponents(current: JsonRecord, patch: JsonRecord): JsonRecord {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+/** Keyset position `<epoch ms>:<id>` so pages stay stable while records change. */
+function afterCursor(cursor: string | null, ms: number, id: string): boolean {
+  if (!cursor) return true;
+  const split = cursor.indexOf(":");
+  const cursorMs = Number(cursor.slice(0, split));
+  const cursorId = cursor.slice(split + 1);
+  return ms > cursorMs || (ms === cursorMs && id > cursorId);
+}
+
+/**
+ * Serves the entity, task, object, check-in and query routes of Atlas Command
+ * from memory.
+ *
+ * ```ts
+ * const server = new AtlasFakeServer();
+ * server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset" }] });
+ * const client = new AtlasHttpClient({ baseUrl: server.baseUrl, fetchImpl: server.fetch });
+ * ```
+ *
+ * Records use the serializer shape of `/queries/*` (`components`, `metadata`)
+ * on every route. Objects carry weak ETags that change on each write; a PATCH
+ * with a stale `If-Match` gets 412. Deletes leave tombstones for
+ * `/queries/changed-since`.
+ */
+export class AtlasFakeServer {
+  readonly baseUrl: string;
+  private readonly basePath: string;
+  private readonly now: () => number;
+  private readonly latencyMs: number;
+  private readonly requireIfMatch: boolean;
+  private readonly routes: Route[] = [];
+  private readonly entityRecords = new Map<string, SerializedEntity>();
+  private readonly taskRecords = new Map<string, SerializedTask>();
+  private readonly objectRecords = new Map<string, SerializedObject>();
+  private readonly objectContent = new Map<string, Uint8Array>();
+  private readonly objectVersions = new Map<string, number>();
+  private tombstones: DeletedResource[] = [];
+  private faults: PendingFault[] = [];
+  private readonly recorded: FakeServerCall[] = [];
+  private lastStamp = 0;
+  private etagCounter = 0;
+
+  constructor(options: AtlasFakeServerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.basePath = new URL(this.baseUrl).pathname.replace(/\/$/, "");
+    this.now = options.now ?? Date.now;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.requireIfMatch = options.requireIfMatch ?? false;
+    this.registerRoutes();
+  }
+
+  /** `FetchImplementation` bound to this server; pass it as `fetchImpl`. */
+  readonly fetch: FetchImplementation = (input, init) => this.handle(input, init);
+
+  // State ---------------------------------------------------------------------
+  get entities(): ReadonlyMap<string, SerializedEntity> {
+    return this.entityRecords;
+  }
+
+  get tasks(): ReadonlyMap<string, SerializedTask> {
+    return this.taskRecords;
+  }
+
+  get objects(): ReadonlyMap<string, SerializedObject> {
+    return this.objectRecords;
+  }
+
+  /** Tombstones in deletion order. */
+  get deleted(): readonly DeletedResource[] {
+    return this.tombstones;
+  }
+
+  /** Insert or replace records directly, filling in the fields the server would set. */
+  seed(seed: FakeServerSeed): this {
+    for (const entity of seed.entities ?? []) {
+      const entityType = entity.entity_type ?? entity.type ?? "asset";
+      this.entityRecords.set(entity.entity_id, {
+        components: {},
+        ...clone(entity),
+        entity_type: entityType,
+        type: entityType,
+        metadata: this.metadata(entity.metadata),
+      });
+    }
+    for (const task of seed.tasks ?? []) {
+      this.taskRecords.set(task.task_id, {
+        status: "pending",
+        components: {},
+        ...clone(task),
+        metadata: this.metadata(task.metadata),
+      });
+    }
+    for (const { content, ...object } of seed.objects ?? []) {
+      const bytes = toBytes(content);
+      this.objectRecords.set(object.object_id, {
+        usage_hints: [],
+        referenced_by: [],
+        size_bytes: bytes.byteLength,
+        ...clone(object),
+        metadata: this.metadata(object.metadata),
+      });
+      this.objectContent.set(object.object_id, bytes);
+      this.bumpEtag(object.object_id);
+    }
+    return this;
+  }
+
+  /** Drop all records, tombstones, faults and recorded calls. */
+  reset(): void {
+    this.entityRecords.clear();
+    this.taskRecords.clear();
+    this.objectRecords.clear();
+    this.objectContent.clear();
+    this.objectVersions.clear();
+    this.tombstones = [];
+    this.faults = [];
+    this.recorded.length = 0;
+  }
+
+  /** Current weak ETag of an object, as sent on GET and write responses. */
+  etagOf(objectId: string): string | undefined {
+    const version = this.objectVersions.get(objectId);
+    return version === undefined ? undefined : `W/"${version}"`;
+  }
+
+  // Faults --------------------------------------------------------------------
+  /** Queue a failure; faults are matched in the order they were added. */
+  inject(fault: FakeFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+    return this;
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  // Calls ---------------------------------------------------------------------
+  /** Every request received, in arrival order. */
+  get calls(): readonly FakeServerCall[] {
+    return this.recorded;
+  }
+
+  /** Recorded calls with `method` whose path equals or matches `path`. */
+  callsTo(method: string, path: string | RegExp): FakeServerCall[] {
+    return this.recorded.filter(
+      (call) => call.method === method.toUpperCase() && this.pathMatches(path, call.path),
+    );
+  }
+
+  /** Throw unless `method path` was received (exactly `times` times, when given). */
+  assertCalled(method: string, path: string | RegExp, times?: number): void {
+    const count = this.callsTo(method, path).length;
+    if (times === undefined ? count > 0 : count === times) {
+      return;
+    }
+    const expected = times === undefined ? "at least once" : `${times} time(s)`;
+    const seen = this.recorded.map((call) => `  ${call.method} ${call.path}`).join("\n") || "  (none)";
+    throw new Error(
+      `Expected ${method.toUpperCase()} ${String(path)} ${expected}, got ${count}. Received:\n${seen}`,
+    );
+  }
+
+  clearCalls(): void {
+    this.recorded.length = 0;
+  }
+
+  // Transport -----------------------------------------------------------------
+  private async handle(input: RequestInfo, init: RequestInit = {}): Promise<Response> {
+    const request = typeof input === "string" ? undefined : input;
+    const url = new URL(typeof input === "string" ? input : input.url);
+    const method = (init.method ?? request?.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers ?? request?.headers);
+    const signal = init.signal ?? request?.signal ?? undefined;
+    const path = url.pathname.startsWith(this.basePath)
+      ? url.pathname.slice(this.basePath.length) || "/"
+      : url.pathname;
+    const body = await this.readBody(init.body ?? undefined, request, headers);
+
+    const call: FakeServerCall = {
+      method,
+      path,
+      query: Object.fromEntries(url.searchParams),
+      headers: {},
+      body,
+    };
+    headers.forEach((value, name) => {
+      call.headers[name] = value;
+    });
+    this.recorded.push(call);
+
+    const fault = this.takeFault(method, path);
+    const delayMs = this.latencyMs + (fault?.delayMs ?? 0);
+    if (delayMs > 0 || signal?.aborted) {
+      await wait(delayMs, signal);
+    }
+    if (fault?.drop === "hang") {
+      await wait(Number.POSITIVE_INFINITY, signal);
+    }
+    if (fault?.drop === "request") {
+      throw new TypeError(`fetch failed: ${method} ${path} dropped by AtlasFakeServer`);
+    }
+
+    let response: Response;
+    if (fault?.status !== undefined) {
+      const faultBody = fault.body ?? { detail: "Injected fault" };
+      response =
+        typeof faultBody === "string"
+          ? new Response(faultBody, { status: fault.status, headers: fault.headers })
+          : json(fault.status, faultBody, fault.headers);
+    } else {
+      response = await this.route(method, path, { query: url.searchParams, headers, body });
+    }
+    if (fault?.drop === "response") {
+      throw new TypeError(`fetch failed: response to ${method} ${path} dropped by AtlasFakeServer`);
+    }
+    call.status = response.status;
+    return response;
+  }
+
+  private async readBody(
+    body: BodyInit | undefined,
+    request: Request | undefined,
+    headers: Headers,
+  ): Promise<unknown> {
+    if (body instanceof FormData) {
+      return body;
+    }
+    let text: string | undefined;
+    if (typeof body === "string") {
+      text = body;
+    } else if (body !== undefined) {
+      text = await new Response(body).text();
+    } else if (request?.body) {
+      if (headers.get("content-type")?.startsWith("multipart/form-data")) {
+        return request.clone().formData();
+      }
+      text = await request.clone().text();
+    }
+    if (text === undefined || text === "") {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  }
+
+  private takeFault(method: string, path: string): PendingFault | undefined {
+    const fault = this.faults.find(
+      (candidate) =>
+        candidate.remaining > 0 &&
+        (candidate.method === undefined || candidate.method.toUpperCase() === method) &&
+        (candidate.path === undefined || this.pathMatches(candidate.path, path)),
+    );
+    if (fault) {
+      fault.remaining -= 1;
+      this.faults = this.faults.filter((candidate) => candidate.remaining > 0);
+    }
+    return fault;
+  }
+
+  private pathMatches(pattern: string | RegExp, path: string): boolean {
+    return typeof pattern === "string" ? pattern === path : pattern.test(path);
+  }
+
+  private async route(
+    method: string,
+    path: string,
+    ctx: Omit<RouteContext, "params">,
+  ): Promise<Response> {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+      const params = Object.fromEntries(
+        route.names.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+      );
+      return route.handler({ ...ctx, params });
+    }
+    return pathMatched
+      ? problem(405, `Method ${method} not allowed on ${path}`)
+      : problem(404, `No route for ${method} ${path}`);
+  }
+
+  private on(method: string, template: string, handler: RouteHandler): void {
+    const names: string[] = [];
+    const source = template.replace(/:([a-z_]+)/g, (_, name: string) => {
+      names.push(name);
+      return "([^/]+)";
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), names, handler });
+  }
+
+  // Bookkeeping ---------------------------------------------------------------
+  /** Next record timestamp: the wall clock, nudged forward so no two writes share one. */
+  private stamp(): string {
+    this.lastStamp = Math.max(this.now(), this.lastStamp + 1);
+    return new Date(this.lastStamp).toISOString();
+  }
+
+  private metadata(seeded?: { created_at?: string; updated_at?: string }) {
+    const stamp = this.stamp();
+    return {
+      created_at: seeded?.created_at ?? stamp,
+      updated_at: seeded?.updated_at ?? seeded?.created_at ?? stamp,
+    };
+  }
+
+  private touch(record: { metadata: { created_at?: string; updated_at?: string } }): void {
+    record.metadata = { ...record.metadata, updated_at: this.stamp() };
+  }
+
+  private bumpEtag(objectId: string): string {
+    this.etagCounter += 1;
+    this.objectVersions.set(objectId, this.etagCounter);
+    return this.etagOf(objectId)!;
+  }
+
+  private tombstone(id: string, type: DeletedResource["type"]): void {
+    this.tombstones.push({ id, type, deleted_at: this.stamp() } as DeletedResource);
+  }
+
+  private objectResponse(status: number, objectId: string): Response {
+    return json(status, this.objectRecords.get(objectId), { etag: this.etagOf(objectId)! });
+  }
+
+  // Routes --------------------------------------------------------------------
+  private registerRoutes(): void {
+    this.on("GET", "/", () => json(200, { service: "atlas-command", fake: true }));
+    this.on("GET", "/health", () => json(200, { status: "ok" }));
+    this.on("GET", "/readiness", () => json(200, { status: "ready" }));
+
+    // Entities
+    this.on("GET", "/entities", ({ query }) =>
+      json(200, this.page("entities", [...this.entityRecords.values()], query)),
+    );
+    this.on("POST", "/entities", ({ body }) => this.createEntity(body as JsonRecord | undefined));
+    this.on("GET", "/entities/alias/:alias", ({ params }) => {
+      const entity = [...this.entityRecords.values()].find((e) => e.alias === params.alias);
+      return entity ? json(200, entity) : problem(404, `Entity with alias ${params.alias} not found`);
+    });
+    this.on("GET", "/entities/:id", ({ params }) => this.found("Entity", this.entityRecords, params.id));
+    this.on("PATCH", "/entities/:id", ({ params, body }) =>
+      this.withEntity(params.id, (entity) => {
+        const patch = (body ?? {}) as JsonRecord;
+        if (patch.components !== undefined) {
+          entity.components = mergeComponents(entity.components, patch.components as JsonRecord);
+        }
+        if (patch.subtype !== undefined) entity.subtype = patch.subtype as string;
+        this.touch(entity);
+        return json(200, entity);
+      }),
+    );
+    this.on("DELETE", "/entities/:id", ({ params }) =>
+      this.withEntity(params.id, () => {
+        this.entityRecords.delete(params.id);
+        this.tombstone(params.id, "entity");
+        return noContent();
+      }),
+    );
+    this.on("PATCH", "/entities/:id/telemetry", ({ params, body }) =>
+      this.withEntity(params.id, (entity) => {
+        this.applyTelemetry(entity, (body ?? {}) as JsonRecord);
+        this.touch(entity);
+        return json(200, entity);
+      }),
+    );
+    this.on("POST", "/entities/:id/checkin", ({ params, body, query }) =>
+      this.withEntity(params.id, (entity) => {
+        const { status, ...telemetry } = (body ?? {}) as JsonRecord;
+        this.applyTelemetry(entity, telemetry);
+        if (typeof status === "string") {
+          entity.components = {
+            ...entity.components,
+            status: { value: status, last_update: new Date(this.now()).toISOString() },
+          };
+        }
+        this.touch(entity);
+        const statuses = (query.get("status_filter") ?? "pending,acknowledged").split(",");
+        const since = query.get("since");
+        const tasks = [...this.taskRecords.values()]
+          .filter((task) => task.entity_id === params.id && statuses.includes(task.status))
+          .filter((task) => !since || Date.parse(task.metadata.updated_at!) > Date.parse(since))
+          .slice(0, intParam(query, "limit", 10));
+        return json(200, { entity, tasks });
+      }),
+    );
+    this.on("GET", "/entities/:id/tasks", ({ params, query }) =>
+      json(
+        200,
+        this.page(
+          "tasks",
+          [...this.taskRecords.values()].filter((task) => task.entity_id === params.id),
+          query,
+        ),
+      ),
+    );
+    this.on("GET", "/entities/:id/objects", ({ params, query }) =>
+      json(200, this.page("objects", this.objectsReferencing("entity_id", params.id), query)),
+    );
+
+    // Tasks
+    this.on("GET", "/tasks", ({ query }) =>
+      json(200, this.page("tasks", [...this.taskRecords.values()], query)),
+    );
+    this.on("POST", "/tasks", ({ body }) => this.createTask(body as JsonRecord | undefined));
+    this.on("GET", "/tasks/:id", ({ params }) => this.found("Task", this.taskRecords, params.id));
+    this.on("PATCH", "/tasks/:id", ({ params, body }) =>
+      this.withTask(params.id, (task) => {
+        const patch = (body ?? {}) as JsonRecord;
+        if (patch.components !== undefined) {
+          task.components = mergeComponents(task.components, patch.components as JsonRecord);
+        }
+        if (patch.status !== undefined) task.status = patch.status as TaskStatus;
+        if (patch.entity_id !== undefined) task.entity_id = patch.entity_id as string;
+        if (patch.extra !== undefined) task.extra = patch.extra as JsonRecord;
+        this.touch(task);
+        return json(200, task);
+      }),
+    );
+    this.on("DELETE", "/tasks/:id", ({ params }) =>
+      this.withTask(params.id, () => {
+        this.taskRecords.delete(params.id);
+        this.tombstone(params.id, "task");
+        return noContent();
+      }),
+    );
+    this.on("POST", "/tasks/:id/acknowledge", ({ params }) =>
+      this.transition(params.id, "acknowledged"),
+    );
+    this.on("POST", "/tasks/:id/complete", ({ params, body }) =>
+      this.transition(params.id, "completed", (task) => {
+        const { result } = (body ?? {}) as JsonRecord;
+        if (result !== undefined) task.extra = { ...task.extra, result };
+      }),
+    );
+    this.on("POST", "/tasks/:id/fail", ({ params, body }) =>
+      this.transition(params.id, "failed", (task) => {
+        // Stored as `extra.error` whether sent that way or as the `TaskFail` fields.
+        const { error, error_message, error_details } = (body ?? {}) as JsonRecord;
+        const stored =
+          error ??
+          (error_message !== undefined || error_details !== undefined
+            ? { message: error_message, details: error_details }
+            : undefined);
+        if (stored !== undefined) task.extra = { ...task.extra, error: stored };
+      }),
+    );
+    this.on("POST", "/tasks/:id/status", ({ params, body }) => {
+      const { status, progress, message } = (body ?? {}) as JsonRecord;
+      if (typeof status !== "string") {
+        return problem(422, "status is required");
+      }
+      return this.transition(params.id, status as TaskStatus, (task) => {
+        if (progress === undefined && message === undefined) return;
+        task.components = {
+          ...task.components,
+          progress: {
+            ...(task.components.progress as JsonRecord | undefined),
+            ...(progress !== undefined ? { percent: progress } : {}),
+            ...(message !== undefined ? { status_detail: message } : {}),
+            updated_at: new Date(this.now()).toISOString(),
+          },
+        };
+      });
+    });
+    this.on("GET", "/tasks/:id/objects", ({ params, query }) =>
+      json(200, this.page("objects", this.objectsReferencing("task_id", params.id), query)),
+    );
+
+    // Objects
+    this.on("GET", "/objects", ({ query }) =>
+      json(200, this.page("objects", [...this.objectRecords.values()], query)),
+    );
+    this.on("GET", "/objects/orphaned", ({ query }) =>
+      json(
+        200,
+        this.page(
+          "objects",
+          [...this.objectRecords.values()].filter((o) => (o.referenced_by ?? []).length === 0),
+          query,
+        ),
+      ),
+    );
+    this.on("POST", "/objects", ({ body }) => this.createObjectMetadata(body as JsonRecord | undefined));
+    this.on("POST", "/objects/upload", ({ body }) => this.upload(body));
+    this.on("GET", "/objects/:id", ({ params }) =>
+      this.objectRecords.has(params.id)
+        ? this.objectResponse(200, params.id)
+        : problem(404, `Object ${params.id} not found`),
+    );
+    this.on("PATCH", "/objects/:id", ({ params, body, headers }) => {
+      const object = this.objectRecords.get(params.id);
+      if (!object) {
+        return problem(404, `Object ${params.id} not found`);
+      }
+      const ifMatch = headers.get("if-match");
+      if (ifMatch === null && this.requireIfMatch) {
+        return problem(428, "If-Match header required");
+      }
+      if (ifMatch !== null && ifMatch !== "*" && ifMatch !== this.etagOf(params.id)) {
+        return new Response("precondition failed", { status: 412 });
+      }
+      const patch = (body ?? {}) as JsonRecord;
+      if (patch.usage_hints !== undefined) object.usage_hints = patch.usage_hints as string[];
+      if (patch.referenced_by !== undefined) {
+        object.referenced_by = clone(patch.referenced_by) as JsonRecord[];
+      }
+      this.touch(object);
+      this.bumpEtag(params.id);
+      return this.objectResponse(200, params.id);
+    });
+    this.on("DELETE", "/objects/:id", ({ params }) => {
+      if (!this.objectRecords.delete(params.id)) {
+        return problem(404, `Object ${params.id} not found`);
+      }
+      this.objectContent.delete(params.id);
+      this.objectVersions.delete(params.id);
+      this.tombstone(params.id, "object");
+      return noContent();
+    });
+    this.on("GET", "/objects/:id/download", ({ params }) => this.content(params.id));
+    this.on("GET", "/objects/:id/view", ({ params }) => this.content(params.id));
+
+    // Queries
+    this.on("GET", "/queries/changed-since", ({ query }) => this.changedSince(query));
+    this.on("GET", "/queries/full", ({ query }) => this.fullDataset(query));
+  }
+
+  private found<T>(kind: string, records: Map<string, T>, id: string): Response {
+    const record = records.get(id);
+    return record ? json(200, record) : problem(404, `${kind} ${id} not found`);
+  }
+
+  private withEntity(id: string, fn: (entity: SerializedEntity) => Response): Response {
+    const entity = this.entityRecords.get(id);
+    return entity ? fn(entity) : problem(404, `Entity ${id} not found`);
+  }
+
+  private withTask(id: string, fn: (task: SerializedTask) => Response): Response {
+    const task = this.taskRecords.get(id);
+    return task ? fn(task) : problem(404, `Task ${id} not found`);
+  }
+
+  private transition(id: string, status: TaskStatus, apply?: (task: SerializedTask) => void): Response {
+    return this.withTask(id, (task) => {
+      task.status = status;
+      apply?.(task);
+      this.touch(task);
+      return json(200, task);
+    });
+  }
+
+  private applyTelemetry(entity: SerializedEntity, telemetry: JsonRecord): void {
+    if (Object.keys(telemetry).length === 0) return;
+    entity.components = {
+      ...entity.components,
+      telemetry: { ...(entity.components.telemetry as JsonRecord | undefined), ...telemetry },
+    };
+  }
+
+  private page<T>(key: string, records: T[], query: URLSearchParams) {
+    const limit = intParam(query, "limit", DEFAULT_QUERY_LIMIT);
+    const offset = intParam(query, "offset", 0);
+    return { [key]: records.slice(offset, offset + limit), total: records.length, limit, offset };
+  }
+
+  private objectsReferencing(field: "entity_id" | "task_id", id: string): SerializedObject[] {
+    return [...this.objectRecords.values()].filter((object) =>
+      (object.referenced_by ?? []).some((ref) => ref[field] === id),
+    );
+  }
+
+  private createEntity(body: JsonRecord | undefined): Response {
+    const entityId = body?.entity_id;
+    const entityType = body?.entity_type;
+    if (typeof entityId !== "string" || typeof entityType !== "string") {
+      return problem(422, "entity_id and entity_type are required");
+    }
+    if (this.entityRecords.has(entityId)) {
+      return problem(409, `Entity ${entityId} already exists`);
+    }
+    this.seed({
+      entities: [
+        {
+          entity_id: entityId,
+          entity_type: entityType,
+          alias: body!.alias as string | undefined,
+          subtype: body!.subtype as string | undefined,
+          components: (body!.components as JsonRecord | undefined) ?? {},
+        },
+      ],
+    });
+    return json(201, this.entityRecords.get(entityId));
+  }
+
+  private createTask(body: JsonRecord | undefined): Response {
+    const taskId = body?.task_id;
+    if (typeof taskId !== "string") {
+      return problem(422, "task_id is required");
+    }
+    if (this.taskRecords.has(taskId)) {
+      return problem(409, `Task ${taskId} already exists`);
+    }
+    const { task_id: _id, ...rest } = body!;
+    this.seed({ tasks: [{ task_id: taskId, ...(rest as Partial<SerializedTask>) }] });
+    return json(201, this.taskRecords.get(taskId));
+  }
+
+  private createObjectMetadata(body: JsonRecord | undefined): Response {
+    const objectId = body?.object_id;
+    if (typeof objectId !== "string") {
+      return problem(422, "object_id is required");
+    }
+    if (this.objectRecords.has(objectId)) {
+      return problem(409, `Object ${objectId} already exists`);
+    }
+    const fields = Object.fromEntries(
+      Object.entries(body!).filter(([, value]) => value !== undefined && value !== null),
+    ) as FakeObjectSeed;
+    this.seed({ objects: [{ ...fields, object_id: objectId }] });
+    return this.objectResponse(201, objectId);
+  }
+
+  private async upload(body: unknown): Promise<Response> {
+    if (!(body instanceof FormData)) {
+      return problem(422, "expected a multipart form");
+    }
+    const objectId = body.get("object_id");
+    const file = body.get("file");
+    if (typeof objectId !== "string" || file === null || typeof file === "string") {
+      return problem(422, "object_id and file are required");
+    }
+    if (this.objectRecords.has(objectId)) {
+      return problem(409, `Object ${objectId} already exists`);
+    }
+    const usageHint = body.get("usage_hint");
+    const objectType = body.get("type");
+    const filename = (file as File).name || "upload.bin";
+    this.seed({
+      objects: [
+        {
+          object_id: objectId,
+          path: `objects/${objectId}/${filename}`,
+          content_type: file.type,
+          type: typeof objectType === "string" ? objectType : undefined,
+          usage_hints: typeof usageHint === "string" ? [usageHint] : [],
+          content: new Uint8Array(await file.arrayBuffer()),
+        },
+      ],
+    });
+    return this.objectResponse(201, objectId);
+  }
+
+  private content(objectId: string): Response {
+    const object = this.objectRecords.get(objectId);
+    if (!object) {
+      return problem(404, `Object ${objectId} not found`);
+    }
+    const bytes = this.objectContent.get(objectId) ?? new Uint8Array();
+    return new Response(bytes.slice().buffer as ArrayBuffer, {
+      status: 200,
+      headers: {
+        "content-type": object.content_type ?? "application/octet-stream",
+        "content-length": String(bytes.byteLength),
+      },
+    });
+  }
+
+  private changedSince(query: URLSearchParams): Response {
+    const since = query.get("since");
+    const sinceMs = since === null ? Number.NaN : Date.parse(since);
+    if (Number.isNaN(sinceMs)) {
+      return problem(422, "since must be an RFC 3339 timestamp");
+    }
+    const limit = Math.max(1, intParam(query, "limit_per_type", DEFAULT_QUERY_LIMIT));
+    const body: JsonRecord = { timestamp: this.stamp() };
+    const stream = <T>(
+      name: string,
+      cursorParam: string,
+      records: T[],
+      key: (record: T) => { ms: number; id: string },
+    ) => {
+      const cursor = query.get(cursorParam);
+      const pending = records
+        .map((record) => ({ record, ...key(record) }))
+        .filter(({ ms, id }) => ms > sinceMs && afterCursor(cursor, ms, id))
+        .sort((a, b) => a.ms - b.ms || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+      const page = pending.slice(0, limit);
+      body[name] = page.map(({ record }) => record);
+      if (pending.length > limit) {
+        const last = page[page.length - 1];
+        body[`has_more_${name}`] = true;
+        body[`next_${cursorParam}`] = `${last.ms}:${last.id}`;
+      }
+    };
+    const updated = (id: string, record: { metadata: { updated_at?: string } }) => ({
+      ms: Date.parse(record.metadata.updated_at ?? ""),
+      id,
+    });
+    stream("entities", "entity_cursor", [...this.entityRecords.values()], (e) => updated(e.entity_id, e));
+    stream("tasks", "task_cursor", [...this.taskRecords.values()], (t) => updated(t.task_id, t));
+    stream("objects", "object_cursor", [...this.objectRecords.values()], (o) => updated(o.object_id, o));
+    const tombstoneKey = (tombstone: DeletedResource) => ({
+      ms: Date.parse(tombstone.deleted_at ?? ""),
+      id: tombstone.id,
+    });
+    const deletedOf = (type: DeletedResource["type"]) =>
+      this.tombstones.filter((tombstone) => tombstone.type === type);
+    stream("deleted_entities", "deleted_entity_cursor", deletedOf("entity"), tombstoneKey);
+    stream("deleted_tasks", "deleted_task_cursor", deletedOf("task"), tombstoneKey);
+    stream("deleted_objects", "deleted_object_cursor", deletedOf("object"), tombstoneKey);
+    return json(200, body);
+  }
+
+  private fullDataset(query: URLSearchParams): Response {
+    const body: JsonRecord = {};
+    const stream = <T>(name: string, singular: string, records: Map<string, T>) => {
+      const limit = Math.max(1, intParam(query, `${singular}_limit`, DEFAULT_QUERY_LIMIT));
+      const cursor = query.get(`${singular}_cursor`);
+      const ids = [...records.keys()].sort().filter((id) => cursor === null || id > cursor);
+      const page = ids.slice(0, limit);
+      body[name] = page.map((id) => records.get(id));
+      if (ids.length > limit) {
+        body[`has_more_${name}`] = true;
+        body[`next_${singular}_cursor`] = page[page.length - 1];
+      }
+    };
+    stream("entities", "entity", this.entityRecords);
+    stream("tasks", "task", this.taskRecords);
+    stream("objects", "object", this.objectRecords);
+    return json(200, body);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Test helpers published as `@atlasnpm/atlas-api-helper/testing`. Kept out of
+ * the main entry point so production bundles never include them.
+ */
+
+export { AtlasFakeServer } from "./fakeServer.js";
+export type {
+  AtlasFakeServerOptions,
+  FakeEntitySeed,
+  FakeFault,
+  FakeObjectSeed,
+  FakeServerCall,
+  FakeServerSeed,
+  FakeTaskSeed
+} from "./fakeServer.js";
+export { AtlasCassette, AtlasCassetteError, DEFAULT_IGNORED_FIELDS } from "./cassette.js";
+export type {
+  CassetteBody,
+  CassetteData,
+  CassetteFormField,
+  CassetteInteraction,
+  CassetteMatchOptions,
+  CassetteMode,
+  CassetteOptions
+} from "./cassette.js";
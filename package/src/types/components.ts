@@ -241,37 +241,25 @@ export interface ObjectMetadata {
   [key: `custom_${string}`]: unknown;
 }
 
-// === Helper Functions ===
+// === Patches ===
 
 /**
- * Known entity component keys for validation.
+ * Sentinel that deletes a whole component in `updateEntity` / `updateTask`.
+ * It is sent as `null`, the JSON Merge Patch (RFC 7386) marker for removal.
  */
-const KNOWN_ENTITY_COMPONENTS = new Set([
-  "telemetry",
-  "geometry",
-  "task_catalog",
-  "media_refs",
-  "mil_view",
-  "health",
-  "sensor_refs",
-  "communications",
-  "task_queue",
-  "status",
-  "heartbeat",
-]);
+export const REMOVE: unique symbol = Symbol.for("@atlasnpm/atlas-api-helper/REMOVE");
+export type Remove = typeof REMOVE;
 
 /**
- * Validates that component keys are either known or prefixed with custom_.
+ * A component update: omitted keys are left unchanged, a value replaces that
+ * component, and `REMOVE` deletes it. `null` inside a component value is sent
+ * as is, so fields like `TaskQueueComponent.current_task_id` can be cleared.
  */
-export function validateEntityComponents(components: Record<string, unknown>): void {
-  for (const key of Object.keys(components)) {
-    if (!KNOWN_ENTITY_COMPONENTS.has(key) && !key.startsWith("custom_")) {
-      throw new Error(
-        `Unknown component '${key}' in entity components. Custom components must be prefixed with 'custom_'`
-      );
-    }
-  }
-}
+export type ComponentsPatch<T> = { [K in keyof T]?: T[K] | Remove };
+export type EntityComponentsPatch = ComponentsPatch<EntityComponents>;
+export type TaskComponentsPatch = ComponentsPatch<TaskComponents>;
+
+// === Helper Functions ===
 
 /**
  * Strips null and undefined values from an object recursively.
@@ -326,3 +314,55 @@ export function componentsToRecord(
 
   return stripNulls(components as Record<string, unknown>);
 }
+
+function dropUndefined(value: unknown, path: string): unknown {
+  if (value === REMOVE) {
+    throw new TypeError(`REMOVE deletes whole components; omit ${path} from the component value instead`);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => dropUndefined(item, `${path}[${index}]`));
+  }
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value as Record<string, unknown>)) {
+      if (inner !== undefined) result[key] = dropUndefined(inner, `${path}.${key}`);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Convert components or a component patch to the payload sent to Atlas
+ * Command. Unlike `componentsToRecord`, explicit `null` values are kept;
+ * `undefined` is dropped and `REMOVE` becomes `null`.
+ *
+ * @param components - Typed components, optionally containing `REMOVE`
+ * @returns Plain object suitable for JSON serialization
+ */
+export function componentsToPatch(
+  components: EntityComponentsPatch | TaskComponentsPatch | undefined,
+): Record<string, unknown> | undefined {
+  if (components === undefined) {
+    return undefined;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(components as Record<string, unknown>)) {
+    if (value === REMOVE) {
+      result[key] = null;
+    } else if (value !== undefined) {
+      result[key] = dropUndefined(value, key);
+    }
+  }
+  return result;
+}
+
+/** The components a patch sets, without the ones it removes. */
+export function patchedComponents(
+  components: EntityComponentsPatch | TaskComponentsPatch,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(components as Record<string, unknown>).filter(([, value]) => value !== REMOVE),
+  );
+}
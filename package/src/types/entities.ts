@@ -13,7 +13,7 @@ export interface Entity {
 
 export interface Task {
   task_id: string;
-  status: string;  // REQUIRED (promoted field at top level)
+  status: TaskStatus;  // REQUIRED (promoted field at top level)
   entity_id?: string;  // Promoted field at top level (optional)
   json: {
     // Do NOT include promoted fields in JSON - they're columns now (zero backwards compatibility)
@@ -104,8 +104,18 @@ export interface Telemetry {
 }
 
 // Task status interfaces
+
+/** Lifecycle states of a task; see `TASK_TRANSITIONS` for the moves between them. */
+export type TaskStatus =
+  | "pending"
+  | "acknowledged"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
 export interface TaskStatusUpdate {
-  status?: string;
+  status?: TaskStatus;
   components?: Record<string, unknown>;
   extra?: Record<string, unknown>;
 }
@@ -171,7 +181,8 @@ export interface SerializedEntity {
 /** Matches serializers.TaskResponse. */
 export interface SerializedTask {
   task_id: string;
-  status: string;
+  /** A `TaskStatus`, or a status the server added after this client was built. */
+  status: TaskStatus | (string & {});
   entity_id?: string | null;
   components: Record<string, unknown>;
   metadata: { created_at?: string; updated_at?: string };
@@ -192,6 +203,64 @@ export interface SerializedObject {
   payload?: Record<string, unknown>;
 }
 
+/**
+ * Envelope returned by the offset/limit list endpoints; `total` counts every
+ * matching record, not just this page.
+ */
+export interface EntityListResponse {
+  entities: SerializedEntity[];
+  total: number;
+  limit: number;
+  offset?: number;
+}
+
+export interface TaskListResponse {
+  tasks: SerializedTask[];
+  total: number;
+  limit: number;
+  offset?: number;
+}
+
+export interface ObjectListResponse {
+  objects: SerializedObject[];
+  total: number;
+  limit: number;
+  offset?: number;
+}
+
+/** POST /entities/{id}/checkin: the updated entity and its tasks matching `status_filter`. */
+export interface CheckinResponse {
+  entity: SerializedEntity;
+  tasks: SerializedTask[];
+}
+
+/** GET /health and GET /readiness. */
+export interface ServiceStatus {
+  status: string;
+  [key: string]: unknown;
+}
+
+/** `getObjectReferences`: the object's references, `[]` when it has none. */
+export interface ObjectReferences {
+  object_id: string;
+  referenced_by: ObjectReference[];
+}
+
+/** One row of `validateObjectReferences`: the stored reference plus its check result. */
+export interface ObjectReferenceCheck {
+  entity_id?: string | null;
+  task_id?: string | null;
+  status: "valid" | "invalid" | "invalid_format";
+  reason?: "reference_not_object" | "missing_entity_and_task" | "entity_not_found" | "task_not_found";
+  [key: string]: unknown;
+}
+
+/** `cleanupObjectReferences`: how many invalid references were dropped. */
+export interface ObjectReferenceCleanup {
+  object_id: string;
+  cleaned: number;
+}
+
 /** Tombstone from Atlas Command `changed-since`; use `id` + `type` (not legacy per-field keys). */
 export type DeletedEntityTombstone = { id: string; type: "entity"; deleted_at?: string };
 export type DeletedTaskTombstone = { id: string; type: "task"; deleted_at?: string };
@@ -236,8 +236,7 @@ export type ControllerFrame =
   | ListAckFrame
   | GetFrame
   | GetAckFrame
-  | ErrorFrame
-  | BaseFrame;
+  | ErrorFrame;
 
 export type SyncDataset = SyncAckPayload;
 
@@ -1,41 +1,116 @@
 import type {
   ControllerFrame,
+  CreateFrame,
   CreateAckFrame,
+  DeleteFrame,
   DeleteAckFrame,
-  EventFrame,
   ErrorFrame,
+  EventFrame,
+  GetFrame,
+  GetAckFrame,
+  HandshakeFrame,
   HandshakeAckFrame,
+  HeartbeatFrame,
   HeartbeatAckFrame,
+  ListFrame,
+  ListAckFrame,
+  SubscribeFrame,
+  SubscribeAckFrame,
+  SyncFrame,
   SyncAckFrame,
+  UnsubscribeFrame,
+  UnsubscribeAckFrame,
+  UpdateFrame,
   UpdateAckFrame,
 } from "./frames";
 
+/*
+ * Narrow an already-decoded frame by its `type`. These only look at the
+ * discriminant; use `parseFrame` to check the payload shape of untrusted input.
+ */
+
+export function isHandshakeFrame(frame: ControllerFrame): frame is HandshakeFrame {
+  return frame.type === "handshake";
+}
+
+export function isHandshakeAckFrame(frame: ControllerFrame): frame is HandshakeAckFrame {
+  return frame.type === "handshake:ack";
+}
+
+export function isHeartbeatFrame(frame: ControllerFrame): frame is HeartbeatFrame {
+  return frame.type === "heartbeat";
+}
+
+export function isHeartbeatAckFrame(frame: ControllerFrame): frame is HeartbeatAckFrame {
+  return frame.type === "heartbeat:ack";
+}
+
+export function isSyncFrame(frame: ControllerFrame): frame is SyncFrame {
+  return frame.type === "sync";
+}
+
 export function isSyncAckFrame(frame: ControllerFrame): frame is SyncAckFrame {
   return frame.type === "sync:ack";
 }
 
+export function isSubscribeFrame(frame: ControllerFrame): frame is SubscribeFrame {
+  return frame.type === "subscribe";
+}
+
+export function isSubscribeAckFrame(frame: ControllerFrame): frame is SubscribeAckFrame {
+  return frame.type === "subscribe:ack";
+}
+
+export function isUnsubscribeFrame(frame: ControllerFrame): frame is UnsubscribeFrame {
+  return frame.type === "unsubscribe";
+}
+
+export function isUnsubscribeAckFrame(frame: ControllerFrame): frame is UnsubscribeAckFrame {
+  return frame.type === "unsubscribe:ack";
+}
+
 export function isEventFrame(frame: ControllerFrame): frame is EventFrame {
   return frame.type === "event";
 }
 
-export function isHeartbeatAckFrame(frame: ControllerFrame): frame is HeartbeatAckFrame {
-  return frame.type === "heartbeat:ack";
+export function isCreateFrame(frame: ControllerFrame): frame is CreateFrame {
+  return frame.type === "create";
 }
 
 export function isCreateAckFrame(frame: ControllerFrame): frame is CreateAckFrame {
   return frame.type === "create:ack";
 }
 
+export function isUpdateFrame(frame: ControllerFrame): frame is UpdateFrame {
+  return frame.type === "update";
+}
+
 export function isUpdateAckFrame(frame: ControllerFrame): frame is UpdateAckFrame {
   return frame.type === "update:ack";
 }
 
+export function isDeleteFrame(frame: ControllerFrame): frame is DeleteFrame {
+  return frame.type === "delete";
+}
+
 export function isDeleteAckFrame(frame: ControllerFrame): frame is DeleteAckFrame {
   return frame.type === "delete:ack";
 }
 
-export function isHandshakeAckFrame(frame: ControllerFrame): frame is HandshakeAckFrame {
-  return frame.type === "handshake:ack";
+export function isListFrame(frame: ControllerFrame): frame is ListFrame {
+  return frame.type === "list";
+}
+
+export function isListAckFrame(frame: ControllerFrame): frame is ListAckFrame {
+  return frame.type === "list:ack";
+}
+
+export function isGetFrame(frame: ControllerFrame): frame is GetFrame {
+  return frame.type === "get";
+}
+
+export function isGetAckFrame(frame: ControllerFrame): frame is GetAckFrame {
+  return frame.type === "get:ack";
 }
 
 export function isErrorFrame(frame: ControllerFrame): frame is ErrorFrame {
@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AssetAgent } from "../src/assetAgent.js";
+import type { AssetAgentOptions } from "../src/assetAgent.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+
+const setup = async (options: AssetAgentOptions = {}) => {
+  const server = new AtlasFakeServer();
+  const client = new AtlasHttpClient({ baseUrl: server.baseUrl, fetchImpl: server.fetch });
+  server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset" }] });
+  const agent = new AssetAgent(client, "drone-01", { checkinIntervalMs: 60_000, ...options });
+  const task = (taskId: string, type: string) =>
+    client.createTask(taskId, { command: { type } }, { entity_id: "drone-01" });
+  return { server, client, agent, task };
+};
+
+/** Let queued requests and handlers run until `check` passes. */
+const waitFor = async (check: () => boolean) => {
+  for (let turn = 0; turn < 100 && !check(); turn += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  expect(check()).toBe(true);
+};
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe("AssetAgent", () => {
+  it("runs tasks through their handlers and drives the lifecycle", async () => {
+    const { server, agent, task } = await setup({
+      telemetry: () => ({ latitude: 1, longitude: 2 }),
+      status: () => "ready",
+      maxConcurrentTasks: 2,
+    });
+    await task("t1", "goto");
+    await task("t2", "dance");
+    const events: string[] = [];
+    agent.on("taskStarted", ({ task }) => events.push(`started ${task.task_id}`));
+    agent.on("taskCompleted", ({ task, result }) =>
+      events.push(`completed ${task.task_id} ${JSON.stringify(result)}`),
+    );
+    agent.on("taskFailed", ({ task }) => events.push(`failed ${task.task_id}`));
+    agent.handle("goto", async (task, { progress }) => {
+      expect(server.tasks.get(task.task_id)?.status).toBe("in_progress");
+      await progress(50, "halfway");
+      return { arrived: true };
+    });
+
+    await agent.start();
+    await agent.stop();
+
+    // t1 and t2 run concurrently, so only their own events are ordered.
+    expect(events.filter((event) => event.endsWith("t2"))).toEqual(["failed t2"]);
+    expect(events.filter((event) => !event.endsWith("t2"))).toEqual([
+      "started t1",
+      'completed t1 {"arrived":true}',
+    ]);
+    expect(server.tasks.get("t1")).toMatchObject({
+      status: "completed",
+      components: { progress: { percent: 50, status_detail: "halfway" } },
+      extra: { result: { arrived: true } },
+    });
+    expect(server.tasks.get("t2")).toMatchObject({
+      status: "failed",
+      extra: { error: { message: "No handler registered for command type 'dance'" } },
+    });
+    expect(server.entities.get("drone-01")?.components).toMatchObject({
+      telemetry: { latitude: 1, longitude: 2 },
+      status: { value: "ready" },
+    });
+  });
+
+  it("fails the task when its handler throws and never runs a task twice", async () => {
+    const { server, agent, task } = await setup({ maxConcurrentTasks: 2 });
+    const created = await task("t1", "scan");
+    let runs = 0;
+    agent.handle("scan", () => {
+      runs += 1;
+      throw new RangeError("sensor offline");
+    });
+
+    await agent.start();
+    await agent.checkin();
+    await agent.checkin();
+    await agent.stop();
+
+    expect(runs).toBe(1);
+    expect(server.tasks.get("t1")).toMatchObject({
+      status: "failed",
+      extra: { error: { message: "sensor offline", details: { name: "RangeError" } } },
+    });
+    expect(Date.parse(agent.since!)).toBeGreaterThanOrEqual(Date.parse(created.metadata.updated_at!));
+  });
+
+  it("caps concurrent tasks and picks deferred ones up on a later check-in", async () => {
+    const { server, agent, task } = await setup({ maxConcurrentTasks: 1 });
+    await task("t1", "goto");
+    await task("t2", "goto");
+    const gates = new Map([
+      ["t1", deferred()],
+      ["t2", deferred()],
+    ]);
+    const started: string[] = [];
+    agent.handle("goto", async (task) => {
+      started.push(task.task_id);
+      await gates.get(task.task_id)!.promise;
+    });
+
+    await agent.start();
+    await waitFor(() => started.length === 1);
+    await agent.checkin();
+    expect(agent.activeTasks).toEqual(["t1"]);
+    expect(server.tasks.get("t2")?.status).toBe("pending");
+
+    gates.get("t1")!.resolve();
+    await waitFor(() => agent.activeTasks.length === 0);
+    await agent.checkin();
+    await waitFor(() => started.length === 2);
+    expect(started).toEqual(["t1", "t2"]);
+
+    gates.get("t2")!.resolve();
+    await agent.stop();
+    expect([...server.tasks.values()].map((t) => t.status)).toEqual(["completed", "completed"]);
+  });
+
+  it("picks a task up again when acknowledging it fails with a 503", async () => {
+    const { server, agent, task } = await setup();
+    await task("t1", "goto");
+    const errors: unknown[] = [];
+    agent.on("error", (error) => errors.push(error));
+    let runs = 0;
+    agent.handle("goto", () => {
+      runs += 1;
+    });
+    server.inject({ method: "POST", path: "/tasks/t1/acknowledge", status: 503 });
+
+    await agent.start();
+    await waitFor(() => errors.length === 1 && agent.activeTasks.length === 0);
+    expect(server.tasks.get("t1")?.status).toBe("pending");
+
+    await agent.checkin();
+    await agent.stop();
+
+    expect(runs).toBe(1);
+    expect(server.tasks.get("t1")?.status).toBe("completed");
+  });
+
+  it("leaves a task alone when another agent took it first", async () => {
+    const { server, agent, task } = await setup();
+    await task("t1", "goto");
+    const errors: unknown[] = [];
+    agent.on("error", (error) => errors.push(error));
+    agent.handle("goto", () => undefined);
+    server.inject({ method: "POST", path: "/tasks/t1/acknowledge", status: 409 });
+
+    await agent.start();
+    await waitFor(() => errors.length === 1 && agent.activeTasks.length === 0);
+    await agent.checkin();
+    await agent.stop();
+
+    expect(server.callsTo("POST", "/tasks/t1/acknowledge")).toHaveLength(1);
+    expect(server.tasks.get("t1")?.status).toBe("pending");
+  });
+
+  it("keeps driving the lifecycle when event listeners throw", async () => {
+    const { server, agent, task } = await setup({ maxConcurrentTasks: 2 });
+    await task("t1", "goto");
+    await task("t2", "scan");
+    const errors: unknown[] = [];
+    agent.on("error", (error) => {
+      errors.push(error);
+      throw new Error("error listener broke");
+    });
+    for (const event of ["checkin", "taskStarted", "taskCompleted", "taskFailed"] as const) {
+      agent.on(event, () => {
+        throw new Error(`${event} listener broke`);
+      });
+    }
+    let runs = 0;
+    agent.handle("goto", () => {
+      runs += 1;
+      return { arrived: true };
+    });
+    agent.handle("scan", () => {
+      throw new Error("sensor offline");
+    });
+
+    await agent.start();
+    await agent.stop();
+
+    expect(runs).toBe(1);
+    expect(server.tasks.get("t1")?.status).toBe("completed");
+    expect(server.tasks.get("t2")?.status).toBe("failed");
+    expect((errors as Error[]).map((error) => error.message).sort()).toEqual([
+      "checkin listener broke",
+      "taskCompleted listener broke",
+      "taskFailed listener broke",
+      "taskStarted listener broke",
+      "taskStarted listener broke",
+    ]);
+  });
+
+  it("aborts handlers that outlive the shutdown grace period", async () => {
+    const { server, agent, task } = await setup();
+    await task("t1", "loiter");
+    agent.handle("loiter", (_task, { signal }) =>
+      new Promise((_, reject) => {
+        if (signal.aborted) reject(signal.reason);
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    );
+
+    await agent.start();
+    expect(agent.activeTasks).toEqual(["t1"]);
+    await agent.stop({ graceMs: 5 });
+
+    expect(agent.activeTasks).toEqual([]);
+    expect(server.tasks.get("t1")).toMatchObject({
+      status: "failed",
+      extra: { error: { message: "AssetAgent stopped" } },
+    });
+    await expect(agent.start()).rejects.toThrow(/cannot be restarted/);
+  });
+});
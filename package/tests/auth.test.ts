@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasUnauthorizedError } from "../src/errors.js";
+
+/** Accepts only the token in `valid.current`; everything else is a 401. */
+const authServer = (valid: { current: string }) => {
+  const seenTokens: Array<string | null> = [];
+  const fetchImpl = async (_input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const auth = new Headers(init?.headers).get("Authorization");
+    seenTokens.push(auth);
+    if (auth !== `Bearer ${valid.current}`) {
+      return new Response(JSON.stringify({ detail: "token expired" }), { status: 401 });
+    }
+    return new Response(JSON.stringify({ ok: true }));
+  };
+  return { seenTokens, fetchImpl };
+};
+
+describe("AtlasHttpClient tokenProvider", () => {
+  it("calls the provider lazily and caches the token", async () => {
+    let calls = 0;
+    const { seenTokens, fetchImpl } = authServer({ current: "tok-1" });
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      tokenProvider: async () => {
+        calls += 1;
+        return "tok-1";
+      },
+    });
+    expect(calls).toBe(0);
+
+    await client.getEntity("e1");
+    await client.listTasks();
+
+    expect(calls).toBe(1);
+    expect(seenTokens).toEqual(["Bearer tok-1", "Bearer tok-1"]);
+  });
+
+  it("refreshes once on 401 and replays the request", async () => {
+    const valid = { current: "tok-1" };
+    const issued = ["tok-1", "tok-2"];
+    const { seenTokens, fetchImpl } = authServer(valid);
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      tokenProvider: async () => issued.shift()!,
+    });
+
+    await client.getEntity("e1");
+    valid.current = "tok-2";
+    await expect(client.updateEntityTelemetry("e1", { latitude: 1 })).resolves.toEqual({
+      ok: true,
+    });
+
+    expect(seenTokens).toEqual(["Bearer tok-1", "Bearer tok-1", "Bearer tok-2"]);
+  });
+
+  it("surfaces AtlasUnauthorizedError when the refreshed token is also rejected", async () => {
+    let calls = 0;
+    const { seenTokens, fetchImpl } = authServer({ current: "never" });
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      tokenProvider: async () => `tok-${++calls}`,
+    });
+
+    await expect(client.getTask("t1")).rejects.toBeInstanceOf(AtlasUnauthorizedError);
+    expect(calls).toBe(2);
+    expect(seenTokens).toHaveLength(2);
+  });
+
+  it("deduplicates concurrent refreshes after a burst of 401s", async () => {
+    const valid = { current: "tok-1" };
+    let calls = 0;
+    const { fetchImpl } = authServer(valid);
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      tokenProvider: async () => {
+        calls += 1;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return `tok-${calls}`;
+      },
+    });
+
+    await client.getHealth();
+    valid.current = "tok-2";
+    const results = await Promise.all([
+      client.getEntity("a"),
+      client.getEntity("b"),
+      client.getEntity("c"),
+      client.getEntity("d"),
+    ]);
+
+    expect(results).toHaveLength(4);
+    expect(calls).toBe(2);
+  });
+
+  it("uses the provider token for multipart uploads", async () => {
+    const { seenTokens, fetchImpl } = authServer({ current: "tok-upload" });
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      token: "ignored-static-token",
+      tokenProvider: async () => "tok-upload",
+    });
+    const file = new File(["abc"], "a.bin", { type: "application/octet-stream" });
+    await client.createObject(file, "obj-1");
+    expect(seenTokens).toEqual(["Bearer tok-upload"]);
+  });
+});
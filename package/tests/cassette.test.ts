@@ -0,0 +1,127 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasNotFoundError } from "../src/errors.js";
+import { AtlasCassette, AtlasCassetteError, AtlasFakeServer } from "../src/testing/index.js";
+import type { CassetteData, CassetteOptions } from "../src/testing/index.js";
+
+const BASE_URL = "http://atlas.fake";
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) await rm(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+/** Record a session against a fake server and return the cassette contents. */
+const recordSession = async (
+  session: (client: AtlasHttpClient) => Promise<void>,
+  options: Partial<CassetteOptions> = {},
+): Promise<CassetteData> => {
+  const server = new AtlasFakeServer({ baseUrl: BASE_URL });
+  server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset" }] });
+  const cassette = new AtlasCassette({ mode: "record", fetchImpl: server.fetch, ...options });
+  await session(new AtlasHttpClient({ baseUrl: BASE_URL, token: "secret", fetchImpl: cassette.fetch }));
+  return JSON.parse(JSON.stringify(cassette.toJSON())) as CassetteData;
+};
+
+const replayClient = (data: CassetteData, options: Partial<CassetteOptions> = {}) => {
+  const cassette = new AtlasCassette({ mode: "replay", ...options }, data);
+  const client = new AtlasHttpClient({ baseUrl: BASE_URL, token: "other", fetchImpl: cassette.fetch });
+  return { cassette, client };
+};
+
+describe("AtlasCassette", () => {
+  it("replays recorded JSON traffic, including error responses, and redacts Authorization", async () => {
+    const data = await recordSession(async (client) => {
+      await client.updateEntityTelemetry("drone-01", { latitude: 1 });
+      await client.getEntity("missing").catch(() => undefined);
+    });
+
+    expect(data.interactions[0].request.headers.authorization).toBe("[REDACTED]");
+    expect(JSON.stringify(data)).not.toContain("secret");
+
+    const { cassette, client } = replayClient(data);
+    await expect(client.updateEntityTelemetry("drone-01", { latitude: 1 })).resolves.toMatchObject({
+      components: { telemetry: { latitude: 1 } },
+    });
+    await expect(client.getEntity("missing")).rejects.toBeInstanceOf(AtlasNotFoundError);
+    expect(cassette.unplayed()).toEqual([]);
+  });
+
+  it("round-trips multipart uploads and binary downloads", async () => {
+    const bytes = new Uint8Array([137, 80, 78, 71, 0, 255]);
+    const upload = () => new Blob([bytes], { type: "image/png" });
+    const data = await recordSession(async (client) => {
+      await client.createObject(upload(), "img-1", "thumbnail");
+      await client.downloadObject("img-1");
+    });
+
+    expect(data.interactions[0].request.body).toMatchObject({
+      kind: "multipart",
+      fields: expect.arrayContaining([{ name: "object_id", value: "img-1" }]),
+    });
+    expect(data.interactions[1].response.body.kind).toBe("base64");
+
+    const { client } = replayClient(data);
+    await expect(client.createObject(upload(), "img-1", "thumbnail")).resolves.toMatchObject({
+      object_id: "img-1",
+    });
+    await expect(client.downloadObject("img-1")).resolves.toEqual({
+      data: bytes,
+      contentType: "image/png",
+      contentLength: 6,
+    });
+  });
+
+  it("ignores volatile fields when matching and replays repeated calls in order", async () => {
+    const data = await recordSession(async (client) => {
+      await client.getChangedSince("2025-01-01T00:00:00Z", 10);
+      await client.updateEntityTelemetry("drone-01", { latitude: 1 });
+      await client.getChangedSince("2025-01-01T00:00:05Z", 10);
+    });
+
+    const { client } = replayClient(data);
+    const first = await client.getChangedSince("2030-06-01T00:00:00Z", 10);
+    await client.updateEntityTelemetry("drone-01", { latitude: 1 });
+    const second = await client.getChangedSince("2030-06-01T00:00:00Z", 10);
+
+    expect(first.entities).toHaveLength(1);
+    expect(second.entities?.[0].components).toEqual({ telemetry: { latitude: 1 } });
+  });
+
+  it("fails on unmatched requests in strict mode and passes them through otherwise", async () => {
+    const data = await recordSession((client) => client.getEntity("drone-01").then(() => undefined));
+
+    const strict = replayClient(data).client;
+    await expect(strict.getEntity("drone-02")).rejects.toThrow(AtlasCassetteError);
+    await expect(strict.updateEntityTelemetry("drone-01", { latitude: 2 })).rejects.toThrow(
+      /No unplayed cassette interaction matches PATCH \/entities\/drone-01\/telemetry/,
+    );
+
+    const live = new AtlasFakeServer({ baseUrl: BASE_URL });
+    live.seed({ entities: [{ entity_id: "drone-02", entity_type: "track" }] });
+    const lenient = replayClient(data, { strict: false, fetchImpl: live.fetch }).client;
+    await expect(lenient.getEntity("drone-02")).resolves.toMatchObject({ entity_type: "track" });
+    await expect(lenient.getEntity("drone-01")).resolves.toMatchObject({ entity_type: "asset" });
+  });
+
+  it("saves to and loads from a cassette file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "atlas-cassette-"));
+    const path = join(dir, "session.json");
+    await expect(AtlasCassette.load(path, { mode: "replay" })).rejects.toThrow(/record it first/);
+
+    const server = new AtlasFakeServer({ baseUrl: BASE_URL });
+    const recorder = await AtlasCassette.load(path, { mode: "record", fetchImpl: server.fetch });
+    await new AtlasHttpClient({ baseUrl: BASE_URL, fetchImpl: recorder.fetch }).getHealth();
+    await recorder.save();
+
+    expect(JSON.parse(await readFile(path, "utf8"))).toMatchObject({ version: 1 });
+    const player = await AtlasCassette.load(path, { mode: "replay" });
+    await expect(
+      new AtlasHttpClient({ baseUrl: "http://elsewhere", fetchImpl: player.fetch }).getHealth(),
+    ).resolves.toEqual({ status: "ok" });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import type { ChangedSinceBatch } from "../src/changedSince.js";
+
+const STREAMS = [
+  ["entities", "entity", "entity_id"],
+  ["tasks", "task", "task_id"],
+  ["objects", "object", "object_id"],
+  ["deleted_entities", "deleted_entity", "id"],
+  ["deleted_tasks", "deleted_task", "id"],
+  ["deleted_objects", "deleted_object", "id"],
+] as const;
+
+/**
+ * Pages each stream with an offset cursor. A stream without a cursor restarts
+ * from its first page, like Atlas Command does.
+ */
+const changedSinceServer = (counts: Partial<Record<(typeof STREAMS)[number][0], number>>) => {
+  const requests: URLSearchParams[] = [];
+  let clock = 0;
+  const fetchImpl = async (input: RequestInfo): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input.toString());
+    requests.push(url.searchParams);
+    const limit = Number(url.searchParams.get("limit_per_type") ?? 100);
+    const body: Record<string, unknown> = {
+      timestamp: `2025-01-01T00:00:0${clock++}Z`,
+    };
+    for (const [key, cursorName, idField] of STREAMS) {
+      const total = counts[key] ?? 0;
+      const start = Number(url.searchParams.get(`${cursorName}_cursor`) ?? 0);
+      const rows = Array.from({ length: Math.max(0, Math.min(limit, total - start)) }, (_, i) => ({
+        [idField]: `${key}-${start + i}`,
+        ...(idField === "id" ? { type: cursorName.replace("deleted_", "") } : {}),
+      }));
+      body[key] = rows;
+      if (start + rows.length < total) {
+        body[`has_more_${key}`] = true;
+        body[`next_${cursorName}_cursor`] = String(start + rows.length);
+      }
+    }
+    return new Response(JSON.stringify(body));
+  };
+  return { requests, fetchImpl };
+};
+
+const idsOf = (batches: ChangedSinceBatch[], key: keyof Omit<ChangedSinceBatch, "timestamp">) =>
+  batches.flatMap((batch) =>
+    (batch[key] as Array<Record<string, string>>).map((row) => row.entity_id ?? row.task_id ?? row.object_id ?? row.id),
+  );
+
+describe("AtlasHttpClient.drainChangedSince", () => {
+  it("follows each stream independently without dropping or repeating pages", async () => {
+    const { requests, fetchImpl } = changedSinceServer({
+      entities: 5,
+      tasks: 1,
+      objects: 3,
+      deleted_entities: 2,
+    });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const batches: ChangedSinceBatch[] = [];
+    for await (const batch of client.drainChangedSince("2024-12-31T00:00:00Z", {
+      limitPerType: 2,
+    })) {
+      batches.push(batch);
+    }
+
+    expect(idsOf(batches, "entities")).toEqual([
+      "entities-0",
+      "entities-1",
+      "entities-2",
+      "entities-3",
+      "entities-4",
+    ]);
+    expect(idsOf(batches, "tasks")).toEqual(["tasks-0"]);
+    expect(idsOf(batches, "objects")).toEqual(["objects-0", "objects-1", "objects-2"]);
+    expect(idsOf(batches, "deleted_entities")).toEqual(["deleted_entities-0", "deleted_entities-1"]);
+    expect(batches).toHaveLength(3);
+
+    expect(requests.map((params) => params.get("since"))).toEqual([
+      "2024-12-31T00:00:00Z",
+      "2024-12-31T00:00:00Z",
+      "2024-12-31T00:00:00Z",
+    ]);
+    expect(Object.fromEntries(requests[1])).toMatchObject({ entity_cursor: "2", object_cursor: "2" });
+    expect(requests[1].has("task_cursor")).toBe(false);
+    expect(Object.fromEntries(requests[2])).toMatchObject({ entity_cursor: "4" });
+    expect(requests[2].has("object_cursor")).toBe(false);
+  });
+
+  it("returns the first response timestamp as the next since", async () => {
+    const { fetchImpl } = changedSinceServer({ tasks: 3 });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const drain = client.drainChangedSince("2024-12-31T00:00:00Z", { limitPerType: 1 });
+    const timestamps: string[] = [];
+    let step = await drain.next();
+    while (!step.done) {
+      timestamps.push(step.value.timestamp);
+      step = await drain.next();
+    }
+
+    expect(timestamps).toEqual([
+      "2025-01-01T00:00:00Z",
+      "2025-01-01T00:00:00Z",
+      "2025-01-01T00:00:00Z",
+    ]);
+    expect(step.value).toBe("2025-01-01T00:00:00Z");
+  });
+
+  it("yields a single empty batch when nothing changed", async () => {
+    const { requests, fetchImpl } = changedSinceServer({});
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const batches: ChangedSinceBatch[] = [];
+    for await (const batch of client.drainChangedSince("2024-12-31T00:00:00Z")) {
+      batches.push(batch);
+    }
+    expect(batches).toHaveLength(1);
+    expect(batches[0].entities).toEqual([]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("reports remaining cursors per batch and resumes from them", async () => {
+    const { requests, fetchImpl } = changedSinceServer({ entities: 4, tasks: 1 });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const first = await client.drainChangedSince("s", { limitPerType: 2 }).next();
+    expect(first.done).toBe(false);
+    const batch = first.value as ChangedSinceBatch;
+    expect(batch.cursors).toEqual({ entityCursor: "2" });
+
+    const resumed: ChangedSinceBatch[] = [];
+    const drain = client.drainChangedSince("s", {
+      limitPerType: 2,
+      resume: { cursors: batch.cursors, timestamp: batch.timestamp },
+    });
+    let step = await drain.next();
+    while (!step.done) {
+      resumed.push(step.value);
+      step = await drain.next();
+    }
+
+    expect(idsOf(resumed, "entities")).toEqual(["entities-2", "entities-3"]);
+    expect(idsOf(resumed, "tasks")).toEqual([]);
+    expect(resumed[0].cursors).toEqual({});
+    expect(step.value).toBe(batch.timestamp);
+    expect(requests[1].get("entity_cursor")).toBe("2");
+  });
+
+  it("refuses to continue when a stream has more rows but no cursor", async () => {
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () =>
+        new Response(
+          JSON.stringify({ timestamp: "2025-01-01T00:00:00Z", tasks: [], has_more_tasks: true }),
+        ),
+    });
+    const drain = client.drainChangedSince("2024-12-31T00:00:00Z");
+    await expect(drain.next()).rejects.toThrow(/has_more_tasks without next_task_cursor/);
+  });
+});
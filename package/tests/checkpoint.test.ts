@@ -0,0 +1,210 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  JsonFileCheckpointStore,
+  MemoryCheckpointStore,
+  parseCheckpoint,
+} from "../src/checkpoint.js";
+import type { SyncCheckpoint } from "../src/checkpoint.js";
+import { AtlasCheckpointError } from "../src/errors.js";
+import { runResumableSync } from "../src/resumableSync.js";
+import type { SyncSource } from "../src/resumableSync.js";
+import type { ChangedSinceResponse, QueryStreamCursors } from "../src/types/entities.js";
+
+const task = (id: string) => ({ task_id: id, status: "pending" as const, components: {}, metadata: {} });
+
+/**
+ * Changed-since serves `pages` in order for any non-probe request and records
+ * the cursors it was asked for; the full dataset holds two entities.
+ */
+const syncSource = (pages: Array<Partial<ChangedSinceResponse> | Error> = []) => {
+  const calls: Array<{ since: string; cursors?: QueryStreamCursors }> = [];
+  let fullCalls = 0;
+  const source: SyncSource = {
+    getFullDataset: async () => {
+      fullCalls += 1;
+      return {
+        entities: [
+          { entity_id: "e1", entity_type: "asset", type: "asset", components: {}, metadata: {} },
+          { entity_id: "e2", entity_type: "asset", type: "asset", components: {}, metadata: {} },
+        ],
+      };
+    },
+    getChangedSince: async (since, limitPerType, cursors) => {
+      if (limitPerType === 1) return { timestamp: "probe-ts" };
+      calls.push({ since: since as string, cursors });
+      const next = pages.shift() ?? {};
+      if (next instanceof Error) throw next;
+      return { timestamp: `ts-${calls.length}`, ...next };
+    },
+  };
+  return { source, calls, fullCalls: () => fullCalls };
+};
+
+describe("parseCheckpoint", () => {
+  it("accepts completed and in-flight checkpoints", () => {
+    expect(parseCheckpoint({ since: "t1" }, "x")).toEqual({ since: "t1" });
+    expect(
+      parseCheckpoint(
+        { since: "t1", resume: { timestamp: "t2", cursors: { taskCursor: "c", extra: "ignored" } } },
+        "x",
+      ),
+    ).toEqual({ since: "t1", resume: { timestamp: "t2", cursors: { taskCursor: "c" } } });
+  });
+
+  it("rejects malformed values with AtlasCheckpointError", () => {
+    expect(() => parseCheckpoint(null, "x")).toThrow(AtlasCheckpointError);
+    expect(() => parseCheckpoint({ since: "" }, "x")).toThrow(/'since'/);
+    expect(() => parseCheckpoint({ since: "t", resume: { cursors: {} } }, "x")).toThrow(
+      /resume.timestamp/,
+    );
+    expect(() =>
+      parseCheckpoint({ since: "t", resume: { timestamp: "t", cursors: { taskCursor: 3 } } }, "x"),
+    ).toThrow(/resume.cursors.taskCursor/);
+  });
+});
+
+describe("JsonFileCheckpointStore", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "atlas-checkpoint-"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips a checkpoint and leaves no temp files behind", async () => {
+    const store = new JsonFileCheckpointStore(join(dir, "sync.json"));
+    expect(await store.load()).toBeUndefined();
+
+    const checkpoint: SyncCheckpoint = {
+      since: "t1",
+      resume: { timestamp: "t2", cursors: { entityCursor: "c1" } },
+    };
+    await store.save(checkpoint);
+    await store.save({ since: "t3" });
+
+    expect(await store.load()).toEqual({ since: "t3" });
+    expect(await readdir(dir)).toEqual(["sync.json"]);
+    expect(JSON.parse(await readFile(join(dir, "sync.json"), "utf8"))).toEqual({ since: "t3" });
+
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it("reports corrupt files as AtlasCheckpointError", async () => {
+    const path = join(dir, "sync.json");
+    await writeFile(path, "{ not json");
+    const store = new JsonFileCheckpointStore(path);
+    await expect(store.load()).rejects.toBeInstanceOf(AtlasCheckpointError);
+    await writeFile(path, JSON.stringify({ since: 42 }));
+    await expect(store.load()).rejects.toThrow(/'since'/);
+  });
+});
+
+describe("runResumableSync", () => {
+  it("bootstraps without a checkpoint and saves the probe timestamp", async () => {
+    const { source } = syncSource();
+    const store = new MemoryCheckpointStore();
+    const applied: string[] = [];
+    let resets = 0;
+
+    const result = await runResumableSync(source, {
+      store,
+      reset: () => {
+        resets += 1;
+      },
+      applyRecord: (item) => {
+        if (item.kind === "entity") applied.push(item.record.entity_id);
+      },
+      applyBatch: () => {
+        throw new Error("no batches during a bootstrap");
+      },
+    });
+
+    expect(result).toEqual({ mode: "bootstrap", checkpoint: { since: "probe-ts" } });
+    expect(applied).toEqual(["e1", "e2"]);
+    expect(resets).toBe(1);
+    expect(await store.load()).toEqual({ since: "probe-ts" });
+  });
+
+  it("saves cursors after each applied batch and resumes from them after a failure", async () => {
+    const { source, calls } = syncSource([
+      { tasks: [task("t1")], has_more_tasks: true, next_task_cursor: "c1" },
+      new Error("worker crashed"),
+      { tasks: [task("t2")] },
+    ]);
+    const store = new MemoryCheckpointStore({ since: "t0" });
+    const applied: string[] = [];
+    const saved: SyncCheckpoint[] = [];
+    const originalSave = store.save.bind(store);
+    store.save = async (checkpoint) => {
+      saved.push(checkpoint);
+      await originalSave(checkpoint);
+    };
+    const options = {
+      store,
+      applyRecord: () => undefined,
+      applyBatch: (batch: { tasks: Array<{ task_id: string }> }) => {
+        applied.push(...batch.tasks.map((t) => t.task_id));
+      },
+    };
+
+    await expect(runResumableSync(source, options)).rejects.toThrow("worker crashed");
+    expect(await store.load()).toEqual({
+      since: "t0",
+      resume: { timestamp: "ts-1", cursors: { taskCursor: "c1" } },
+    });
+
+    const result = await runResumableSync(source, options);
+    expect(result).toEqual({ mode: "resume", checkpoint: { since: "ts-1" } });
+    expect(applied).toEqual(["t1", "t2"]);
+    expect(calls.map((c) => [c.since, c.cursors?.taskCursor])).toEqual([
+      ["t0", undefined],
+      ["t0", "c1"],
+      ["t0", "c1"],
+    ]);
+    expect(saved).toHaveLength(2);
+  });
+
+  it("does not checkpoint a batch whose apply failed", async () => {
+    const { source } = syncSource([{ tasks: [task("t1")] }]);
+    const store = new MemoryCheckpointStore({ since: "t0" });
+    await expect(
+      runResumableSync(source, {
+        store,
+        applyRecord: () => undefined,
+        applyBatch: async () => {
+          throw new Error("database down");
+        },
+      }),
+    ).rejects.toThrow("database down");
+    expect(await store.load()).toEqual({ since: "t0" });
+  });
+
+  it("falls back to a full resync when the checkpoint is corrupt", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "atlas-checkpoint-"));
+    try {
+      const path = join(dir, "sync.json");
+      await writeFile(path, "garbage");
+      const { source, fullCalls } = syncSource();
+      const errors: unknown[] = [];
+
+      const result = await runResumableSync(source, {
+        store: new JsonFileCheckpointStore(path),
+        onCheckpointError: (error) => errors.push(error),
+        applyRecord: () => undefined,
+        applyBatch: () => undefined,
+      });
+
+      expect(result.mode).toBe("bootstrap");
+      expect(fullCalls()).toBe(1);
+      expect(errors[0]).toBeInstanceOf(AtlasCheckpointError);
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ since: "probe-ts" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
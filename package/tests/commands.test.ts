@@ -0,0 +1,121 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasComponentValidationError } from "../src/errors.js";
+import { CommandRegistry } from "../src/commands.js";
+import type { CommandTaskComponents, RegisteredCommand } from "../src/commands.js";
+import type { CommandDefinition } from "../src/types/entities.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+
+declare module "../src/commands.js" {
+  interface CommandParameterTypes {
+    goto: { latitude: number; longitude: number; speed_m_s?: number };
+    scan: { sweeps?: number };
+  }
+}
+
+const definitions: CommandDefinition[] = [
+  {
+    id: 1,
+    name: "goto",
+    parameters_schema: {
+      type: "object",
+      properties: {
+        latitude: { type: "number", minimum: -90, maximum: 90 },
+        longitude: { type: "number", minimum: -180, maximum: 180 },
+        speed_m_s: { type: "number", exclusiveMinimum: 0 },
+      },
+      required: ["latitude", "longitude"],
+      additionalProperties: false,
+    },
+  },
+  { id: 2, name: "scan", parameters_schema: { type: "object", properties: { sweeps: { type: "integer" } } } },
+  { id: 3, name: "return_home" },
+];
+
+const setup = (registry = new CommandRegistry(definitions)) => {
+  const server = new AtlasFakeServer();
+  const client = new AtlasHttpClient({ baseUrl: server.baseUrl, fetchImpl: server.fetch, commands: registry });
+  return { server, client };
+};
+
+/** Validation runs before any request, so the call throws synchronously. */
+const issuesOf = (call: () => unknown) => {
+  expect(call).toThrow(AtlasComponentValidationError);
+  try {
+    call();
+  } catch (error) {
+    return (error as AtlasComponentValidationError).issues;
+  }
+};
+
+describe("CommandRegistry", () => {
+  it("types createTask parameters from CommandParameterTypes", () => {
+    expectTypeOf<RegisteredCommand>().toEqualTypeOf<"goto" | "scan">();
+    expectTypeOf<CommandTaskComponents<"goto">["parameters"]>().toEqualTypeOf<{
+      latitude: number;
+      longitude: number;
+      speed_m_s?: number;
+    }>();
+    expectTypeOf<{ command: { type: "scan" } }>().toExtend<CommandTaskComponents<"scan">>();
+    expectTypeOf<{ command: { type: "goto" } }>().not.toExtend<CommandTaskComponents<"goto">>();
+
+    const { client } = setup();
+    const create = () =>
+      client.createTask<"goto">("t1", {
+        command: { type: "goto" },
+        // @ts-expect-error speed_m_s must be a number
+        parameters: { latitude: 1, longitude: 2, speed_m_s: "fast" },
+      });
+    expect(typeof create).toBe("function");
+  });
+
+  it("validates parameters against the command's schema before sending", async () => {
+    const { server, client } = setup();
+
+    await client.createTask<"goto">("t1", {
+      command: { type: "goto" },
+      parameters: { latitude: 47.6, longitude: -122.3, speed_m_s: 12 },
+    });
+    expect(server.tasks.get("t1")?.components.parameters).toEqual({ latitude: 47.6, longitude: -122.3, speed_m_s: 12 });
+
+    const issues = issuesOf(() =>
+      client.createTask("t2", {
+        command: { type: "goto" },
+        parameters: { latitude: 140, speed_m_s: 0, heading: 90 },
+      } as never),
+    );
+    expect(issues).toEqual([
+      { path: "parameters.longitude", message: "is required" },
+      { path: "parameters.latitude", message: "expected a number <= 90, got 140" },
+      { path: "parameters.speed_m_s", message: "expected a number > 0, got 0" },
+      { path: "parameters.heading", message: "is not allowed" },
+    ]);
+    expect(server.tasks.has("t2")).toBe(false);
+  });
+
+  it("rejects unregistered command types unless the registry allows them", async () => {
+    const { client } = setup();
+    expect(issuesOf(() => client.createTask("t1", { command: { type: "dance" } }))).toEqual([
+      { path: "command.type", message: "'dance' is not a registered command type" },
+    ]);
+    expect(
+      issuesOf(() => client.updateTask("t1", { command: { type: "dance" }, parameters: { latitude: 95 } })),
+    ).toEqual([
+      { path: "command.type", message: "'dance' is not a registered command type" },
+      { path: "parameters.latitude", message: "expected a number between -90 and 90, got 95" },
+    ]);
+
+    const open = setup(new CommandRegistry(definitions, { allowUnknown: true }));
+    await open.client.createTask("t1", { command: { type: "dance" }, parameters: { latitude: 1 } });
+    await open.client.createTask("t2", { command: { type: "return_home" } });
+    expect([...open.server.tasks.keys()]).toEqual(["t1", "t2"]);
+  });
+
+  it("registers definitions by name", () => {
+    const registry = new CommandRegistry().register({ name: "loiter" });
+    expect(registry.names).toEqual(["loiter"]);
+    expect(registry.has("loiter")).toBe(true);
+    expect(registry.get("goto")).toBeUndefined();
+    expect(() => registry.register({ id: 4 } as CommandDefinition)).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,208 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { COMPONENT_SCHEMAS, validateAgainstSchema } from "../src/componentSchemas.js";
+import { entityComponentIssues, taskComponentIssues } from "../src/componentValidation.js";
+import type * as C from "../src/types/components.js";
+
+type Schemas = typeof COMPONENT_SCHEMAS;
+
+type Equal<A, B> = (<G>() => G extends A ? 1 : 2) extends <G>() => G extends B ? 1 : 2 ? true : false;
+
+/** Declared keys of `T`, without the `custom_${string}` index signature. */
+type KnownKeys<T> = Exclude<keyof T, `custom_${string}`>;
+type RequiredKeys<T> = { [K in KnownKeys<T>]-?: {} extends Pick<T, K> ? never : K }[KnownKeys<T>];
+type AllowsCustom<T> = `custom_${string}` extends keyof T ? true : false;
+
+type SchemaKeys<S> = S extends { properties: infer P } ? { [K in keyof P]: P[K] extends false ? never : K }[keyof P] : never;
+type SchemaRequired<S> = S extends { required: readonly (infer R)[] } ? R : never;
+type SchemaAllowsCustom<S> = S extends { patternProperties: { "^custom_": unknown } } ? true : false;
+
+/** `true` when the interface and schema agree on keys, required keys and `custom_` support. */
+type InSync<T, Name extends keyof Schemas> = [
+  Equal<KnownKeys<T>, SchemaKeys<Schemas[Name]>>,
+  Equal<RequiredKeys<T>, SchemaRequired<Schemas[Name]>>,
+  Equal<AllowsCustom<T>, SchemaAllowsCustom<Schemas[Name]>>,
+];
+type Synced = [true, true, true];
+
+type Enum<Name extends keyof Schemas, Key extends string> = Schemas[Name] extends {
+  properties: { [K in Key]: { enum: readonly (infer E)[] } };
+}
+  ? E
+  : never;
+
+type GeometryBranch = Schemas["GeometryComponent"]["oneOf"][number];
+type GeometryKeys<G> = G extends unknown ? keyof G : never;
+
+describe("component JSON Schemas", () => {
+  it("cover every exported component type", () => {
+    const source = readFileSync(new URL("../src/types/components.ts", import.meta.url), "utf8");
+    // Patch types and helpers follow the data model and have no schema of their own.
+    const model = source.slice(0, source.indexOf("// === Patches ==="));
+    const declared = [...model.matchAll(/^export (?:interface|type) (\w+)/gm)].map((match) => match[1]);
+
+    expect(Object.keys(COMPONENT_SCHEMAS).sort()).toEqual(declared.sort());
+  });
+
+  it("are plain draft 2020-12 documents", () => {
+    for (const [name, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+      expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+      expect(schema.$id).toBe(`urn:atlas-command:schema:${name}`);
+      expect(schema.title).toBe(name);
+      expect(JSON.parse(JSON.stringify(schema))).toEqual(schema);
+    }
+  });
+
+  it("stay in sync with the TypeScript types", () => {
+    expectTypeOf<InSync<C.TelemetryComponent, "TelemetryComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.TaskCatalogComponent, "TaskCatalogComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.MediaRefItem, "MediaRefItem">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.MilViewComponent, "MilViewComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.HealthComponent, "HealthComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.SensorRefItem, "SensorRefItem">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.CommunicationsComponent, "CommunicationsComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.TaskQueueComponent, "TaskQueueComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.StatusComponent, "StatusComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.HeartbeatComponent, "HeartbeatComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.EntityComponents, "EntityComponents">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.CommandComponent, "CommandComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.TaskParametersComponent, "TaskParametersComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.TaskProgressComponent, "TaskProgressComponent">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.TaskComponents, "TaskComponents">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.ObjectReferenceItem, "ObjectReferenceItem">>().toEqualTypeOf<Synced>();
+    expectTypeOf<InSync<C.ObjectMetadata, "ObjectMetadata">>().toEqualTypeOf<Synced>();
+
+    expectTypeOf<Enum<"MediaRefItem", "role">>().toEqualTypeOf<C.MediaRefItem["role"]>();
+    expectTypeOf<Enum<"MilViewComponent", "classification">>().toEqualTypeOf<
+      C.MilViewComponent["classification"]
+    >();
+    expectTypeOf<Enum<"CommunicationsComponent", "link_state">>().toEqualTypeOf<
+      C.CommunicationsComponent["link_state"]
+    >();
+    expectTypeOf<GeometryBranch["properties"]["type"]["const"]>().toEqualTypeOf<
+      NonNullable<C.GeometryComponent["type"]>
+    >();
+    expectTypeOf<SchemaKeys<GeometryBranch>>().toEqualTypeOf<GeometryKeys<C.GeometryComponent>>();
+  });
+
+  it("accept well-typed components", () => {
+    const entity: C.EntityComponents = {
+      telemetry: { latitude: -33.9, longitude: 151.2, altitude_m: -10, speed_m_s: 0, heading_deg: 359.9 },
+      geometry: { type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] },
+      task_catalog: { supported_tasks: ["move", "loiter"] },
+      media_refs: [{ object_id: "img-1", role: "thumbnail" }],
+      mil_view: { classification: "neutral", last_seen: "2025-06-01T12:00:00.123+02:00" },
+      health: { battery_percent: 100 },
+      sensor_refs: [{ sensor_id: "r1", type: "radar", horizontal_fov: 120, vertical_orientation: -5 }],
+      communications: { link_state: "degraded" },
+      task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+      status: { value: "ready", last_update: "2025-06-01T12:00:00Z" },
+      heartbeat: { last_seen: "2024-02-29T23:59:60Z" },
+      custom_payload: { anything: [1, "two"] },
+    };
+    const task: C.TaskComponents = {
+      command: { type: "goto" },
+      parameters: { latitude: 1, longitude: 2, altitude_m: 30, custom_speed: 5 },
+      progress: { percent: 40, updated_at: "2025-01-01T00:00:00Z", status_detail: "en route" },
+      custom_notes: "x",
+    };
+    const metadata: C.ObjectMetadata = {
+      bucket: "media",
+      size_bytes: 1024,
+      usage_hints: ["thumbnail"],
+      referenced_by: [{ entity_id: "e1" }, { task_id: "t1" }],
+      checksum: "sha256:abc",
+      expiry_time: "2030-01-01T00:00:00Z",
+      custom_source: "camera-3",
+    };
+
+    expect(validateAgainstSchema("EntityComponents", entity)).toEqual([]);
+    expect(validateAgainstSchema("TaskComponents", task)).toEqual([]);
+    expect(validateAgainstSchema("ObjectMetadata", metadata)).toEqual([]);
+    expect(validateAgainstSchema("TelemetryComponent", entity.telemetry)).toEqual([]);
+    expect(validateAgainstSchema("GeometryComponent", { point_lat: 10, point_lng: 20 })).toEqual([]);
+  });
+
+  it("flag the same paths as the component validators", () => {
+    const entitySamples: Record<string, unknown>[] = [
+      { telemetry: { latitude: 200, longitude: "east", speed_m_s: -1, heading_deg: 361 } },
+      { health: { battery_percent: 140 } },
+      { mil_view: { classification: "enemy", last_seen: "yesterday" } },
+      { media_refs: [{ object_id: "img-1", role: "thumbnail" }, { object_id: "", role: "poster" }] },
+      { sensor_refs: [{ sensor_id: "s1", type: "radar", vertical_fov: 200 }] },
+      { communications: {} },
+      { task_queue: { queued_task_ids: [1] } },
+      { heartbeat: { last_seen: "2025-02-30T10:00:00Z" } },
+      { task_catalog: { supported_tasks: "move" } },
+      { weather: {} },
+    ];
+    for (const sample of entitySamples) {
+      const expected = entityComponentIssues(sample).map((issue) => issue.path);
+      expect(expected).not.toEqual([]);
+      expect(validateAgainstSchema("EntityComponents", sample).map((issue) => issue.path)).toEqual(expected);
+    }
+
+    const taskSamples: Record<string, unknown>[] = [
+      { command: { type: "" } },
+      { command: {} },
+      { parameters: { latitude: -91, speed: 5 } },
+      { progress: { percent: 101, updated_at: "soon" } },
+      { payload: "start" },
+    ];
+    for (const sample of taskSamples) {
+      const expected = taskComponentIssues(sample).map((issue) => issue.path);
+      expect(expected).not.toEqual([]);
+      expect(validateAgainstSchema("TaskComponents", sample).map((issue) => issue.path)).toEqual(expected);
+    }
+  });
+
+  it("accept and reject the same geometries as the component validators", () => {
+    const geometries: unknown[] = [
+      { point_lat: 10, point_lng: 20 },
+      { type: "point", point_lat: 10, point_lng: 20 },
+      { type: "circle", point_lat: 10, point_lng: 20, radius_m: 50 },
+      { radius_m: 50, point_lat: 10, point_lng: 20 },
+      { polygon: [[0, 0], [0, 1], [1, 1]] },
+      { type: "line", line: [[0, 0], [1, 1]] },
+      { type: "Point", coordinates: [151.2, -33.9, 12] },
+      { type: "LineString", coordinates: [[0, 0], [1, 1]] },
+      { type: "circle", point_lat: 10, point_lng: 20, radius_m: 0 },
+      { type: "point", point_lat: 10, point_lng: 20, polygon: [] },
+      { polygon: [[0, 0], [0, 1]] },
+      { line: [[0, 0]] },
+      { line: [[0, 0, 0], [1, 1]] },
+      { type: "LineString", coordinates: [[0, 95], [0, 0]] },
+      { type: "Point", coordinates: [1, 2, 3, 4] },
+      { type: "Point", point_lat: 1, point_lng: 2 },
+      { type: "hexagon" },
+      { radius: 5 },
+      "circle",
+    ];
+    for (const geometry of geometries) {
+      const valid = entityComponentIssues({ geometry }).length === 0;
+      expect(validateAgainstSchema("GeometryComponent", geometry).length === 0, JSON.stringify(geometry)).toBe(
+        valid,
+      );
+    }
+  });
+
+  it("validate against caller-supplied schemas", () => {
+    const schema = {
+      type: "object",
+      properties: { tags: { type: "array", items: { $ref: "#/$defs/tag" }, maxItems: 2 } },
+      $defs: { tag: { type: "string", pattern: "^[a-z]+$" } },
+    };
+
+    expect(validateAgainstSchema(schema, { tags: ["a", "b"] })).toEqual([]);
+    expect(validateAgainstSchema(schema, { tags: ["a", "B", "c"] })).toEqual([
+      { path: "tags", message: "expected at most 2 items, got 3" },
+      { path: "tags[1]", message: "expected a string matching ^[a-z]+$" },
+    ]);
+    expect(validateAgainstSchema("HealthComponent", { battery_percent: "full" })).toEqual([
+      { path: "battery_percent", message: "expected number, got string" },
+    ]);
+    expect(() => validateAgainstSchema("Weather" as "HealthComponent", {})).toThrow(
+      "Unknown component schema 'Weather'",
+    );
+  });
+});
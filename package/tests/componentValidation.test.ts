@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasComponentValidationError } from "../src/errors.js";
+import {
+  entityComponentIssues,
+  taskComponentIssues,
+  validateEntityComponents,
+  validateTaskComponents,
+} from "../src/componentValidation.js";
+
+describe("entity component validation", () => {
+  it("accepts every well-formed component", () => {
+    expect(
+      entityComponentIssues({
+        telemetry: { latitude: -33.9, longitude: 151.2, altitude_m: -10, speed_m_s: 0, heading_deg: 359.9 },
+        task_catalog: { supported_tasks: ["move", "loiter"] },
+        media_refs: [{ object_id: "img-1", role: "thumbnail" }],
+        mil_view: { classification: "neutral", last_seen: "2025-06-01T12:00:00.123+02:00" },
+        health: { battery_percent: 100 },
+        sensor_refs: [{ sensor_id: "r1", type: "radar", horizontal_fov: 120, vertical_orientation: -5 }],
+        communications: { link_state: "degraded" },
+        task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+        status: { value: "ready", last_update: "2025-06-01T12:00:00Z" },
+        heartbeat: { last_seen: "2024-02-29T23:59:60Z" },
+        custom_payload: { anything: [1, "two"] },
+      }),
+    ).toEqual([]);
+  });
+
+  it("collects every violation with its path", () => {
+    expect(
+      entityComponentIssues({
+        telemetry: { latitude: 200, longitude: "east", speed_m_s: -1 },
+        health: { battery_percent: 140 },
+        mil_view: { classification: "enemy" },
+        media_refs: [{ object_id: "img-1", role: "thumbnail" }, { object_id: "", role: "poster" }],
+        task_queue: { queued_task_ids: [1] },
+        heartbeat: { last_seen: "2025-02-30T10:00:00Z" },
+        status: { value: "ready", last_update: "yesterday" },
+        weather: {},
+      }),
+    ).toEqual([
+      { path: "telemetry.latitude", message: "expected a number between -90 and 90, got 200" },
+      { path: "telemetry.longitude", message: "expected a number, got string" },
+      { path: "telemetry.speed_m_s", message: "expected a number at least 0, got -1" },
+      { path: "health.battery_percent", message: "expected a number between 0 and 100, got 140" },
+      {
+        path: "mil_view.classification",
+        message: 'expected one of friendly, hostile, neutral, unknown, civilian, got "enemy"',
+      },
+      { path: "media_refs[1].object_id", message: 'expected a non-empty string, got ""' },
+      {
+        path: "media_refs[1].role",
+        message: 'expected one of camera_feed, thumbnail, heatmap_data, got "poster"',
+      },
+      { path: "task_queue.current_task_id", message: "is required" },
+      { path: "task_queue.queued_task_ids[0]", message: "expected a string, got number" },
+      {
+        path: "heartbeat.last_seen",
+        message: 'expected an RFC 3339 timestamp, got "2025-02-30T10:00:00Z"',
+      },
+      { path: "status.last_update", message: 'expected an RFC 3339 timestamp, got "yesterday"' },
+      { path: "weather", message: "Unknown component; custom components must be prefixed with 'custom_'" },
+    ]);
+  });
+
+  it("checks ATLAS and GeoJSON geometry shapes", () => {
+    const geometryIssues = (geometry: unknown) => entityComponentIssues({ geometry });
+
+    expect(geometryIssues({ point_lat: 10, point_lng: 20 })).toEqual([]);
+    expect(geometryIssues({ type: "circle", point_lat: 10, point_lng: 20, radius_m: 50 })).toEqual([]);
+    expect(geometryIssues({ polygon: [[0, 0], [0, 1], [1, 1]] })).toEqual([]);
+    expect(geometryIssues({ type: "Point", coordinates: [151.2, -33.9, 12] })).toEqual([]);
+    expect(
+      geometryIssues({ type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] }),
+    ).toEqual([]);
+
+    expect(geometryIssues({ type: "circle", point_lat: 10, point_lng: 20, radius_m: 0 })).toEqual([
+      { path: "geometry.radius_m", message: "expected a positive number, got 0" },
+    ]);
+    expect(geometryIssues({ type: "point", point_lat: 10, point_lng: 20, polygon: [] })).toEqual([
+      { path: "geometry.polygon", message: "is not allowed on a point geometry" },
+    ]);
+    expect(geometryIssues({ line: [[0, 0]] })).toEqual([
+      { path: "geometry.line", message: "expected at least 2 vertices, got 1" },
+    ]);
+    expect(geometryIssues({ type: "LineString", coordinates: [[0, 95], [0, 0]] })).toEqual([
+      { path: "geometry.coordinates[0][1]", message: "expected a number between -90 and 90, got 95" },
+    ]);
+    expect(
+      geometryIssues({ type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] }),
+    ).toEqual([
+      {
+        path: "geometry.coordinates[0]",
+        message: "expected a closed ring (first position equal to last)",
+      },
+    ]);
+    expect(geometryIssues({ type: "hexagon" })).toEqual([
+      {
+        path: "geometry.type",
+        message: 'expected one of point, circle, polygon, line, Point, LineString, Polygon, got "hexagon"',
+      },
+    ]);
+    expect(geometryIssues({ radius: 5 })).toHaveLength(1);
+  });
+
+  it("throws AtlasComponentValidationError summarising the first violation", () => {
+    expect(() => validateEntityComponents({ health: { battery_percent: 140 }, custom_x: 1 })).toThrow(
+      new AtlasComponentValidationError("entity", [
+        { path: "health.battery_percent", message: "expected a number between 0 and 100, got 140" },
+      ]),
+    );
+    expect(() => validateEntityComponents({ custom_x: 1 })).not.toThrow();
+  });
+});
+
+describe("task component validation", () => {
+  it("checks command, parameters and progress", () => {
+    expect(
+      taskComponentIssues({
+        command: { type: "goto" },
+        parameters: { latitude: 1, longitude: 2, altitude_m: 30, custom_speed: 5 },
+        progress: { percent: 40, updated_at: "2025-01-01T00:00:00Z", status_detail: "en route" },
+        custom_notes: "x",
+      }),
+    ).toEqual([]);
+
+    expect(
+      taskComponentIssues({
+        command: {},
+        parameters: { latitude: -91, speed: 5 },
+        progress: { percent: 101 },
+        payload: "start",
+      }),
+    ).toEqual([
+      { path: "command.type", message: "is required" },
+      { path: "parameters.latitude", message: "expected a number between -90 and 90, got -91" },
+      { path: "parameters.speed", message: "Unknown parameter; custom parameters must be prefixed with 'custom_'" },
+      { path: "progress.percent", message: "expected a number between 0 and 100, got 101" },
+      { path: "payload", message: "Unknown component; custom components must be prefixed with 'custom_'" },
+    ]);
+    expect(() => validateTaskComponents({ progress: { percent: -1 } })).toThrow(
+      /Invalid task components at progress.percent/,
+    );
+  });
+});
+
+describe("client component validation", () => {
+  it("validates components before create and update requests are sent", () => {
+    let sent = 0;
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () => {
+        sent += 1;
+        return new Response("{}");
+      },
+    });
+
+    expect(() =>
+      client.createEntity("e1", "asset", "E1", "drone", { telemetry: { latitude: 200 } }),
+    ).toThrow(AtlasComponentValidationError);
+    expect(() => client.updateEntity("e1", { communications: { link_state: "up" as "unknown" } })).toThrow(
+      /communications.link_state/,
+    );
+    expect(() => client.createTask("t1", { progress: { percent: 140 } })).toThrow(
+      AtlasComponentValidationError,
+    );
+    expect(() => client.updateTask("t1", { command: { type: "" } })).toThrow(/command.type/);
+    expect(sent).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import {
+  AtlasConflictError,
+  AtlasNotFoundError,
+  AtlasTimeoutError,
+  ObjectPreconditionFailedError,
+} from "../src/errors.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+import { REMOVE } from "../src/types/components.js";
+import type { AtlasFakeServerOptions } from "../src/testing/index.js";
+
+const setup = (options: AtlasFakeServerOptions = {}, retry = false) => {
+  const server = new AtlasFakeServer(options);
+  const client = new AtlasHttpClient({
+    baseUrl: server.baseUrl,
+    fetchImpl: server.fetch,
+    retry: retry ? { maxAttempts: 3, initialDelayMs: 1, jitter: "none" } : undefined,
+  });
+  return { server, client };
+};
+
+describe("AtlasFakeServer", () => {
+  it("serves entity CRUD, alias lookup and paginated listing", async () => {
+    const { server, client } = setup();
+
+    await client.createEntity("drone-01", "asset", "Alpha", "quadcopter", {
+      telemetry: { latitude: 1, longitude: 2 },
+    });
+    await client.createEntity("drone-02", "asset", "Bravo", "quadcopter");
+    await expect(client.createEntity("drone-01", "asset", "Dup", "x")).rejects.toBeInstanceOf(
+      AtlasConflictError,
+    );
+
+    await client.updateEntity("drone-01", { status: { value: "ready" } });
+    const byAlias = (await client.getEntityByAlias("Alpha")) as Record<string, any>;
+    expect(byAlias.components).toEqual({
+      telemetry: { latitude: 1, longitude: 2 },
+      status: { value: "ready" },
+    });
+
+    const ids: string[] = [];
+    for await (const entity of client.iterateEntities({ pageSize: 1 })) ids.push(entity.entity_id);
+    expect(ids).toEqual(["drone-01", "drone-02"]);
+
+    await client.deleteEntity("drone-02");
+    await expect(client.getEntity("drone-02")).rejects.toBeInstanceOf(AtlasNotFoundError);
+    expect(server.deleted).toMatchObject([{ id: "drone-02", type: "entity" }]);
+  });
+
+  it("deletes components patched with REMOVE and stores explicit nulls", async () => {
+    const { client } = setup();
+
+    await client.createEntity("drone-01", "asset", "Alpha", "quadcopter", {
+      task_queue: { current_task_id: "t1", queued_task_ids: ["t2"] },
+      custom_legacy: { v: 1 },
+    });
+    const updated = await client.updateEntity("drone-01", {
+      task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+      custom_legacy: REMOVE,
+    });
+
+    expect(updated.components).toEqual({
+      task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+    });
+  });
+
+  it("returns an entity's open tasks from check-in and applies task transitions", async () => {
+    const { server, client } = setup();
+    server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset" }] });
+    await client.createTask("t1", { command: { type: "move" } }, { entity_id: "drone-01" });
+    await client.createTask("t2", undefined, { entity_id: "drone-01", status: "completed" });
+
+    const checkin = (await client.checkinEntity(
+      "drone-01",
+      { latitude: 5, longitude: 6 },
+      { status: "active" },
+    )) as Record<string, any>;
+
+    expect(checkin.tasks.map((t: { task_id: string }) => t.task_id)).toEqual(["t1"]);
+    expect(server.entities.get("drone-01")?.components).toMatchObject({
+      telemetry: { latitude: 5, longitude: 6 },
+      status: { value: "active" },
+    });
+    expect(server.callsTo("POST", "/entities/drone-01/checkin")[0].query).toEqual({
+      status_filter: "pending,acknowledged",
+      limit: "10",
+    });
+
+    await client.acknowledgeTask("t1");
+    await client.transitionTaskStatus("t1", "in_progress", { progress: 40, message: "en route" });
+    expect(server.tasks.get("t1")).toMatchObject({
+      status: "in_progress",
+      components: { progress: { percent: 40, status_detail: "en route" } },
+    });
+    await client.failTask("t1", "blocked");
+    expect(server.tasks.get("t1")).toMatchObject({
+      status: "failed",
+      extra: { error: { message: "blocked" } },
+    });
+  });
+
+  it("stores uploads, serves their bytes and enforces If-Match on object writes", async () => {
+    const { server, client } = setup();
+    server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset" }] });
+    const bytes = new Uint8Array([0, 1, 2, 255]);
+
+    await client.createObject(new Blob([bytes], { type: "image/png" }), "img-1", "thumbnail", [
+      { entity_id: "drone-01" },
+    ]);
+
+    const download = await client.downloadObject("img-1");
+    expect(download).toEqual({ data: bytes, contentType: "image/png", contentLength: 4 });
+    expect(server.objects.get("img-1")).toMatchObject({
+      usage_hints: ["thumbnail"],
+      referenced_by: [{ entity_id: "drone-01" }],
+    });
+    expect(await client.getObjectsByEntity("drone-01")).toMatchObject({ total: 1 });
+
+    const { etag } = await client.getObjectWithEtag("img-1");
+    await client.updateObject("img-1", ["preview"]);
+    await expect(client.updateObject("img-1", ["stale"], undefined, etag!)).rejects.toBeInstanceOf(
+      ObjectPreconditionFailedError,
+    );
+    expect(server.objects.get("img-1")?.usage_hints).toEqual(["preview"]);
+    expect(server.callsTo("PATCH", "/objects/img-1").map((call) => call.status)).toEqual([
+      200, // reference added by createObject
+      200,
+      412,
+    ]);
+  });
+
+  it("pages changed-since with cursors and reports tombstones", async () => {
+    let clock = Date.parse("2025-01-01T00:00:00Z");
+    const { server, client } = setup({ now: () => clock });
+    server.seed({
+      entities: [
+        { entity_id: "a", entity_type: "asset" },
+        { entity_id: "b", entity_type: "asset" },
+      ],
+    });
+    const since = new Date(clock + 60_000).toISOString();
+    clock += 120_000;
+    await client.createEntity("c", "track", "C", "radar");
+    await client.updateEntity("a", { status: { value: "moved" } });
+    await client.createTask("t1");
+    await client.deleteEntity("b");
+
+    const entities: string[] = [];
+    const deleted: string[] = [];
+    const drain = client.drainChangedSince(since, { limitPerType: 1 });
+    let step = await drain.next();
+    while (!step.done) {
+      entities.push(...step.value.entities.map((e) => e.entity_id));
+      deleted.push(...step.value.deleted_entities.map((d) => d.id));
+      step = await drain.next();
+    }
+
+    expect(entities).toEqual(["c", "a"]);
+    expect(deleted).toEqual(["b"]);
+    expect(server.callsTo("GET", "/queries/changed-since")).toHaveLength(2);
+    expect(Date.parse(step.value)).toBeGreaterThan(clock);
+  });
+
+  it("streams the full dataset with per-type cursors", async () => {
+    const { server, client } = setup();
+    server.seed({
+      entities: [
+        { entity_id: "e2", entity_type: "asset" },
+        { entity_id: "e1", entity_type: "track" },
+      ],
+      tasks: [{ task_id: "t1" }],
+      objects: [{ object_id: "o1", content: "hello" }],
+    });
+
+    const seen: string[] = [];
+    for await (const item of client.iterateFullDataset({ pageSize: 1 })) {
+      const id =
+        item.kind === "entity"
+          ? item.record.entity_id
+          : item.kind === "task"
+            ? item.record.task_id
+            : item.record.object_id;
+      seen.push(`${item.kind}:${id}`);
+    }
+
+    expect(seen.sort()).toEqual(["entity:e1", "entity:e2", "object:o1", "task:t1"]);
+    expect((await client.viewObject("o1")).data).toBe("hello");
+  });
+
+  it("injects status codes, latency and dropped responses", async () => {
+    const { server, client } = setup({}, true);
+    server.seed({ tasks: [{ task_id: "t1" }] });
+
+    server.inject({ method: "GET", path: "/tasks/t1", status: 503, times: 2 });
+    await expect(client.getTask("t1")).resolves.toMatchObject({ task_id: "t1" });
+    server.assertCalled("GET", "/tasks/t1", 3);
+
+    server.inject({ path: /^\/tasks\//, delayMs: 50 });
+    await expect(client.getTask("t1", { timeoutMs: 10 })).rejects.toBeInstanceOf(AtlasTimeoutError);
+
+    server.inject({ method: "POST", path: "/tasks", drop: "response" });
+    await expect(client.createTask("t2")).rejects.toThrow(/dropped by AtlasFakeServer/);
+    expect(server.tasks.has("t2")).toBe(true);
+
+    server.inject({ method: "DELETE", drop: "request", times: 3 });
+    await expect(client.deleteTask("t1")).rejects.toBeInstanceOf(TypeError);
+    expect(server.tasks.has("t1")).toBe(true);
+
+    expect(() => server.assertCalled("GET", "/entities")).toThrow(
+      /Expected GET \/entities at least once, got 0/,
+    );
+  });
+});
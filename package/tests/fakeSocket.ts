@@ -0,0 +1,105 @@
+import type { RealtimeSocket } from "../src/realtime.js";
+
+type Frame = { type: string; meta?: Record<string, unknown>; payload?: Record<string, unknown> };
+
+/** Client side of an in-memory socket; the test drives the server side. */
+export class FakeSocket implements RealtimeSocket {
+  readonly sent: Frame[] = [];
+  closedWith?: { code?: number; reason?: string };
+  /** When set, `send` throws it, like a socket that is already closing. */
+  sendError?: Error;
+  private readonly listeners = new Map<string, Array<(event: any) => void>>();
+
+  constructor(
+    readonly url: string,
+    private readonly onSend: (socket: FakeSocket, frame: Frame) => void,
+  ) {}
+
+  addEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(data: string): void {
+    if (this.sendError) throw this.sendError;
+    const frame = JSON.parse(data) as Frame;
+    this.sent.push(frame);
+    this.onSend(this, frame);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = { code, reason };
+  }
+
+  /** Frames of `type` the client sent on this socket. */
+  sentOfType(type: string): Frame[] {
+    return this.sent.filter((frame) => frame.type === type);
+  }
+
+  // Server side ---------------------------------------------------------------
+  open(): void {
+    this.dispatch("open", {});
+  }
+
+  receive(frame: Frame | string): void {
+    this.dispatch("message", { data: typeof frame === "string" ? frame : JSON.stringify(frame) });
+  }
+
+  /** Deliver `data` as is, e.g. a binary message. */
+  receiveRaw(data: unknown): void {
+    this.dispatch("message", { data });
+  }
+
+  drop(code = 1006, reason = ""): void {
+    this.dispatch("close", { code, reason });
+  }
+
+  private dispatch(type: string, event: unknown): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+}
+
+export interface FakeServerOptions {
+  /** Open each socket on the next microtask (default true). */
+  autoOpen?: boolean;
+  /** Answer `handshake` with `handshake:ack` (default true). */
+  autoHandshake?: boolean;
+  /** Answer `heartbeat` with `heartbeat:ack` (default true). */
+  autoHeartbeat?: boolean;
+  /** Called for every other frame the client sends. */
+  onFrame?: (socket: FakeSocket, frame: Frame) => void;
+}
+
+/** A stand-in realtime server: hands out `FakeSocket`s and answers protocol frames. */
+export const fakeRealtimeServer = (options: FakeServerOptions = {}) => {
+  const { autoOpen = true, autoHandshake = true, onFrame } = options;
+  const state = { autoHeartbeat: options.autoHeartbeat ?? true };
+  const sockets: FakeSocket[] = [];
+  const onSend = (socket: FakeSocket, frame: Frame) => {
+    if (frame.type === "handshake" && autoHandshake) {
+      queueMicrotask(() =>
+        socket.receive({ type: "handshake:ack", payload: { server_version: "1.2.3" } }),
+      );
+    } else if (frame.type === "heartbeat") {
+      if (state.autoHeartbeat) queueMicrotask(() => socket.receive({ type: "heartbeat:ack" }));
+    } else {
+      onFrame?.(socket, frame);
+    }
+  };
+  const factory = (url: string) => {
+    const socket = new FakeSocket(url, onSend);
+    sockets.push(socket);
+    if (autoOpen) queueMicrotask(() => socket.open());
+    return socket;
+  };
+  return {
+    sockets,
+    factory,
+    /** The most recently opened socket. */
+    get current(): FakeSocket {
+      return sockets[sockets.length - 1];
+    },
+    setAutoHeartbeat(enabled: boolean) {
+      state.autoHeartbeat = enabled;
+    },
+  };
+};
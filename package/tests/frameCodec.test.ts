@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { FRAME_TYPES, encodeFrame, isControllerFrame, parseFrame } from "../src/frameCodec.js";
+import { AtlasFrameError } from "../src/errors.js";
+import { isEventFrame, isListAckFrame } from "../src/types/guards.js";
+
+const issuesOf = (raw: unknown) => {
+  const result = parseFrame(raw);
+  return result.ok ? [] : result.issues;
+};
+
+describe("parseFrame", () => {
+  it("accepts a minimal valid frame of every type", () => {
+    const payloads: Record<string, Record<string, unknown> | undefined> = {
+      "sync:ack": {},
+      event: { table: "entities", operation: "delete" },
+      create: { data: {} },
+      update: { data: {} },
+      delete: {},
+      error: { code: "x", message: "y" },
+    };
+    expect(FRAME_TYPES).toHaveLength(22);
+    for (const type of FRAME_TYPES) {
+      const result = parseFrame({ type, payload: payloads[type] });
+      expect(result.ok, type).toBe(true);
+    }
+  });
+
+  it("decodes JSON text and narrows with the guards", () => {
+    const result = parseFrame(
+      JSON.stringify({
+        type: "event",
+        meta: { sequence: 4, entity_type: "asset" },
+        payload: { table: "entities", operation: "update", id: "e1", data: { alias: "a" } },
+      }),
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok && isEventFrame(result.frame)) {
+      expect(result.frame.payload.id).toBe("e1");
+    } else {
+      throw new Error("expected an event frame");
+    }
+  });
+
+  it("reports malformed JSON and non-frame values at the root", () => {
+    expect(issuesOf("{nope")).toEqual([{ path: "", message: expect.stringMatching(/^invalid JSON/) }]);
+    expect(issuesOf([1, 2])).toEqual([{ path: "", message: "expected a frame object, got an array" }]);
+    expect(issuesOf({ type: "bogus" })).toEqual([
+      { path: "type", message: 'expected a known frame type, got "bogus"' },
+    ]);
+  });
+
+  it("reports every structural problem with a precise path", () => {
+    expect(
+      issuesOf({
+        type: "event",
+        meta: { sequence: "7" },
+        payload: { table: 1, operation: "upsert" },
+      }),
+    ).toEqual([
+      { path: "meta.sequence", message: "expected a number, got string" },
+      { path: "payload.table", message: "expected a string, got number" },
+      { path: "payload.operation", message: 'expected one of create, update, delete, got "upsert"' },
+    ]);
+    expect(issuesOf({ type: "error" })).toEqual([{ path: "payload", message: "is required" }]);
+    expect(
+      issuesOf({
+        type: "sync:ack",
+        payload: { entities: { entities: [{ entity_id: "a" }, { entity_type: "asset" }], total: 2 } },
+      }),
+    ).toEqual([
+      { path: "payload.entities.entities[1].entity_id", message: "is required" },
+      { path: "payload.entities.limit", message: "is required" },
+    ]);
+  });
+
+  it("lets unknown payload keys through", () => {
+    const result = parseFrame({ type: "list:ack", payload: { entities: [], cursor: "c1" } });
+    expect(result.ok && isListAckFrame(result.frame)).toBe(true);
+    expect(isControllerFrame({ type: "get", payload: {} })).toBe(false);
+  });
+});
+
+describe("encodeFrame", () => {
+  it("stamps message_id and sent_at unless already set", () => {
+    const fresh = JSON.parse(encodeFrame({ type: "heartbeat" }));
+    expect(typeof fresh.meta.message_id).toBe("string");
+    expect(Number.isNaN(Date.parse(fresh.meta.sent_at))).toBe(false);
+
+    const kept = JSON.parse(
+      encodeFrame({ type: "get", meta: { message_id: "m1", sent_at: "t" }, payload: { entity_id: "e1" } }),
+    );
+    expect(kept.meta).toEqual({ message_id: "m1", sent_at: "t" });
+    expect(JSON.parse(encodeFrame({ type: "heartbeat" })).meta.message_id).not.toBe(fresh.meta.message_id);
+  });
+
+  it("refuses to encode a malformed frame", () => {
+    expect(() => encodeFrame({ type: "create", payload: { data: null } } as never)).toThrow(AtlasFrameError);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { collectAll } from "../src/pagination.js";
+
+const STREAMS = [
+  ["entities", "entity", "entity_id"],
+  ["tasks", "task", "task_id"],
+  ["objects", "object", "object_id"],
+] as const;
+
+/**
+ * Pages each stream with an offset cursor. A stream without a cursor restarts
+ * from its first page, like Atlas Command does.
+ */
+const fullDatasetServer = (counts: Partial<Record<(typeof STREAMS)[number][0], number>>) => {
+  const requests: URLSearchParams[] = [];
+  const fetchImpl = async (input: RequestInfo): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input.toString());
+    requests.push(url.searchParams);
+    const body: Record<string, unknown> = {};
+    for (const [key, cursorName, idField] of STREAMS) {
+      const total = counts[key] ?? 0;
+      const limit = Number(url.searchParams.get(`${cursorName}_limit`) ?? 100);
+      const start = Number(url.searchParams.get(`${cursorName}_cursor`) ?? 0);
+      body[key] = Array.from({ length: Math.max(0, Math.min(limit, total - start)) }, (_, i) => ({
+        [idField]: `${key}-${start + i}`,
+      }));
+      if (start + limit < total) {
+        body[`has_more_${key}`] = true;
+        body[`next_${cursorName}_cursor`] = String(start + limit);
+      }
+    }
+    return new Response(JSON.stringify(body));
+  };
+  return { requests, fetchImpl };
+};
+
+describe("AtlasHttpClient.iterateFullDataset", () => {
+  it("pages every stream to completion and tags records with their kind", async () => {
+    const { requests, fetchImpl } = fullDatasetServer({ entities: 5, tasks: 1, objects: 3 });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const records = await collectAll(client.iterateFullDataset({ pageSize: 2 }));
+    const ids = (kind: string) =>
+      records
+        .filter((r) => r.kind === kind)
+        .map((r) =>
+          r.kind === "entity" ? r.record.entity_id : r.kind === "task" ? r.record.task_id : r.record.object_id,
+        );
+
+    expect(ids("entity")).toEqual(["entities-0", "entities-1", "entities-2", "entities-3", "entities-4"]);
+    expect(ids("task")).toEqual(["tasks-0"]);
+    expect(ids("object")).toEqual(["objects-0", "objects-1", "objects-2"]);
+
+    expect(requests).toHaveLength(3);
+    expect(Object.fromEntries(requests[0])).toEqual({
+      entity_limit: "2",
+      task_limit: "2",
+      object_limit: "2",
+    });
+    expect(Object.fromEntries(requests[1])).toMatchObject({ entity_cursor: "2", object_cursor: "2" });
+    expect(requests[1].has("task_cursor")).toBe(false);
+    expect(requests[2].get("entity_cursor")).toBe("4");
+    expect(requests[2].has("object_cursor")).toBe(false);
+  });
+
+  it("fetches the next page only as records are consumed", async () => {
+    const { requests, fetchImpl } = fullDatasetServer({ entities: 10 });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const iterator = client.iterateFullDataset({ pageSize: 2 });
+    await iterator.next();
+    await iterator.next();
+    expect(requests).toHaveLength(1);
+    await iterator.next();
+    expect(requests).toHaveLength(2);
+    await iterator.return();
+  });
+
+  it("refuses to continue when a stream has more rows but no cursor", async () => {
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () => new Response(JSON.stringify({ objects: [], has_more_objects: true })),
+    });
+    await expect(collectAll(client.iterateFullDataset())).rejects.toThrow(
+      /has_more_objects without next_object_cursor/,
+    );
+  });
+
+  it("stops when the signal aborts mid-page", async () => {
+    const { requests, fetchImpl } = fullDatasetServer({ tasks: 10 });
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const controller = new AbortController();
+    let seen = 0;
+    await expect(
+      (async () => {
+        for await (const _ of client.iterateFullDataset({ pageSize: 4, signal: controller.signal })) {
+          seen += 1;
+          if (seen === 2) controller.abort();
+        }
+      })(),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(seen).toBe(2);
+    expect(requests).toHaveLength(1);
+  });
+});
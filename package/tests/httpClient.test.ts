@@ -1,5 +1,15 @@
 import { describe, expect, it, vi } from "vitest";
 import { AtlasHttpClient } from "../src/httpClient.js";
+import { REMOVE } from "../src/types/components.js";
+import {
+  AtlasConflictError,
+  AtlasHttpError,
+  AtlasNotFoundError,
+  AtlasServerError,
+  AtlasUnauthorizedError,
+  AtlasValidationError,
+  ObjectPreconditionFailedError,
+} from "../src/errors.js";
 
 type RecordedRequest = {
   url: string;
@@ -173,21 +183,52 @@ describe("AtlasHttpClient entities helpers", () => {
       },
     });
   });
+
+  it("keeps explicit nulls and sends REMOVE as null in component updates", async () => {
+    const { calls, client } = createRecorder();
+
+    await client.createEntity("drone-01", "asset", "Alpha", "drone", {
+      task_queue: { current_task_id: null, queued_task_ids: [] },
+    });
+    expect((calls.at(-1)?.body as Record<string, unknown>).components).toEqual({
+      task_queue: { current_task_id: null, queued_task_ids: [] },
+    });
+
+    await client.updateEntity("drone-01", {
+      task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+      health: undefined,
+      custom_stale: REMOVE,
+    });
+    expect(calls.at(-1)?.body).toEqual({
+      components: {
+        task_queue: { current_task_id: null, queued_task_ids: ["t2"] },
+        custom_stale: null,
+      },
+    });
+
+    await client.updateTask("t1", { command: { type: "goto" }, progress: REMOVE });
+    expect(calls.at(-1)?.body).toEqual({ components: { command: { type: "goto" }, progress: null } });
+
+    expect(() => client.updateEntity("drone-01", { custom_meta: { owner: REMOVE } })).toThrow(
+      "REMOVE deletes whole components; omit custom_meta.owner from the component value instead",
+    );
+    expect(calls).toHaveLength(3);
+  });
 });
 
 describe("AtlasHttpClient task helpers", () => {
   it("handles lifecycle operations and payloads", async () => {
     const { calls, client } = createRecorder();
 
-    await client.createTask("task-1", { payload: "start" });
+    await client.createTask("task-1", { custom_payload: "start" });
     expect(calls.at(-1)?.body).toEqual({
       task_id: "task-1",
       status: "pending",
-      components: { payload: "start" },
+      components: { custom_payload: "start" },
     });
 
-    await client.updateTask("task-1", { payload: "update" });
-    expect(calls.at(-1)?.body).toEqual({ components: { payload: "update" } });
+    await client.updateTask("task-1", { custom_payload: "update" });
+    expect(calls.at(-1)?.body).toEqual({ components: { custom_payload: "update" } });
 
     expect(() => client.updateTask("task-1")).toThrow(
       /requires a components payload/,
@@ -537,3 +578,63 @@ describe("AtlasHttpClient getTasksByEntity compatibility", () => {
     warn.mockRestore();
   });
 });
+
+describe("AtlasHttpClient errors", () => {
+  const clientReturning = (status: number, body: string, headers?: Record<string, string>) =>
+    new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () => new Response(body, { status, headers }),
+    });
+
+  it("maps statuses to typed errors with request and response details", async () => {
+    const client = clientReturning(
+      404,
+      JSON.stringify({ detail: "Entity not found", code: "ENTITY_NOT_FOUND" }),
+      { "x-request-id": "req-1" },
+    );
+    const error = await client.getEntity("missing").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AtlasNotFoundError);
+    expect(error).toBeInstanceOf(AtlasHttpError);
+    const httpError = error as AtlasNotFoundError;
+    expect(httpError.status).toBe(404);
+    expect(httpError.method).toBe("GET");
+    expect(httpError.url).toBe("http://atlas.local/entities/missing");
+    expect(httpError.detail).toEqual({ detail: "Entity not found", code: "ENTITY_NOT_FOUND" });
+    expect(httpError.code).toBe("ENTITY_NOT_FOUND");
+    expect(httpError.headers.get("x-request-id")).toBe("req-1");
+    expect(httpError.message).toMatch(/^HTTP 404: /);
+  });
+
+  it.each([
+    [400, AtlasValidationError],
+    [401, AtlasUnauthorizedError],
+    [409, AtlasConflictError],
+    [422, AtlasValidationError],
+    [503, AtlasServerError],
+  ])("raises the matching subclass for HTTP %i", async (status, errorClass) => {
+    const client = clientReturning(status, "nope");
+    await expect(client.createEntity("e1", "asset", "E1", "drone")).rejects.toBeInstanceOf(
+      errorClass,
+    );
+  });
+
+  it("keeps non-JSON bodies raw and leaves detail undefined", async () => {
+    const client = clientReturning(502, "<html>bad gateway</html>");
+    const error = (await client.downloadObject("obj-1").catch((e: unknown) => e)) as AtlasHttpError;
+    expect(error).toBeInstanceOf(AtlasServerError);
+    expect(error.body).toBe("<html>bad gateway</html>");
+    expect(error.detail).toBeUndefined();
+  });
+
+  it("raises ObjectPreconditionFailedError as part of the hierarchy", async () => {
+    const client = clientReturning(412, "stale etag");
+    const error = await client.updateObject("obj-1", ["hint"], undefined, 'W/"old"').catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(ObjectPreconditionFailedError);
+    expect(error).toBeInstanceOf(AtlasHttpError);
+    expect((error as ObjectPreconditionFailedError).objectId).toBe("obj-1");
+    expect((error as ObjectPreconditionFailedError).status).toBe(412);
+    expect((error as ObjectPreconditionFailedError).url).toBe("http://atlas.local/objects/obj-1");
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import type { AtlasMiddleware, AtlasRequest } from "../src/middleware.js";
+import { AtlasNotFoundError } from "../src/errors.js";
+
+type Seen = Pick<AtlasRequest, "operation" | "method" | "path" | "attempt"> & {
+  params?: Record<string, unknown>;
+  body?: unknown;
+};
+
+const recordingFetch = () => {
+  const calls: Array<{ url: string; method: string; headers: Headers; body?: BodyInit | null }> = [];
+  const fetchImpl = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input.toString();
+    calls.push({
+      url,
+      method: init?.method || "GET",
+      headers: new Headers(init?.headers),
+      body: init?.body,
+    });
+    const path = new URL(url).pathname;
+    if (path === "/objects/obj-1" && (init?.method || "GET") === "GET") {
+      return new Response(JSON.stringify({ object_id: "obj-1", referenced_by: [] }), {
+        headers: { etag: 'W/"v1"' },
+      });
+    }
+    return new Response(JSON.stringify({ ok: true }));
+  };
+  return { calls, fetchImpl };
+};
+
+const observer = (seen: Seen[]): AtlasMiddleware => async (request, next) => {
+  seen.push({
+    operation: request.operation,
+    method: request.method,
+    path: request.path,
+    attempt: request.attempt,
+    params: request.params,
+    body: request.body,
+  });
+  return next(request);
+};
+
+describe("AtlasHttpClient middleware", () => {
+  it("exposes the logical operation, method, path, params and body", async () => {
+    const seen: Seen[] = [];
+    const { fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [observer(seen)],
+    });
+
+    await client.createEntity("e1", "asset", "E1", "drone");
+    await client.listTasks(5, 10);
+
+    expect(seen[0]).toMatchObject({
+      operation: "createEntity",
+      method: "POST",
+      path: "/entities",
+      attempt: 1,
+      body: { entity_id: "e1", entity_type: "asset", alias: "E1", subtype: "drone" },
+    });
+    expect(seen[1]).toMatchObject({
+      operation: "listTasks",
+      method: "GET",
+      path: "/tasks",
+      params: { limit: 5, offset: 10 },
+    });
+  });
+
+  it("attributes every request of a compound helper to the public method", async () => {
+    const seen: Seen[] = [];
+    const { calls, fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [observer(seen)],
+    });
+
+    await client.addObjectReference("obj-1", "e1");
+
+    expect(seen.map((s) => [s.operation, s.method])).toEqual([
+      ["addObjectReference", "GET"],
+      ["addObjectReference", "PATCH"],
+    ]);
+    expect(calls[1].headers.get("If-Match")).toBe('W/"v1"');
+  });
+
+  it("runs middleware in order and lets them mutate headers, path and params", async () => {
+    const order: string[] = [];
+    const { calls, fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [
+        async (request, next) => {
+          order.push("tracing");
+          request.headers.set("traceparent", `00-${request.operation}`);
+          return next(request);
+        },
+        async (request, next) => {
+          order.push("rewrite");
+          request.baseUrl = "http://gateway.local";
+          request.path = `/atlas${request.path}`;
+          request.params = { ...request.params, tenant: "blue" };
+          return next(request);
+        },
+      ],
+    });
+
+    await client.getEntity("e1");
+
+    expect(order).toEqual(["tracing", "rewrite"]);
+    expect(calls[0].url).toBe("http://gateway.local/atlas/entities/e1?tenant=blue");
+    expect(calls[0].headers.get("traceparent")).toBe("00-getEntity");
+  });
+
+  it("can short-circuit without calling fetchImpl", async () => {
+    const { calls, fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [
+        async (request, next) =>
+          request.operation === "getHealth"
+            ? new Response(JSON.stringify({ status: "cached" }))
+            : next(request),
+      ],
+    });
+
+    await expect(client.getHealth()).resolves.toEqual({ status: "cached" });
+    expect(calls).toHaveLength(0);
+  });
+
+  it("reports the short-circuited request in typed errors", async () => {
+    const { fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [async () => new Response("blocked", { status: 404 })],
+    });
+
+    const error = await client.getTask("t1").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AtlasNotFoundError);
+    expect((error as AtlasNotFoundError).url).toBe("http://atlas.local/tasks/t1");
+  });
+
+  it("can inspect and replace responses, including multipart uploads", async () => {
+    const statuses: Array<[string, number]> = [];
+    const { calls, fetchImpl } = recordingFetch();
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      middleware: [
+        async (request, next) => {
+          const response = await next(request);
+          statuses.push([request.operation, response.status]);
+          if (request.operation === "createObject") {
+            return new Response(JSON.stringify({ object_id: "renamed" }), {
+              headers: response.headers,
+            });
+          }
+          return response;
+        },
+      ],
+    });
+
+    const file = new File(["abc"], "a.bin", { type: "application/octet-stream" });
+    await expect(client.createObject(file, "obj-9")).resolves.toEqual({ object_id: "renamed" });
+    expect(calls[0].body).toBeInstanceOf(FormData);
+    expect(calls[0].headers.get("content-type")).toBeNull();
+    expect(statuses).toEqual([["createObject", 200]]);
+  });
+
+  it("runs once per retry attempt with a fresh request", async () => {
+    const seen: Seen[] = [];
+    let count = 0;
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async (input) => {
+        count += 1;
+        expect(String(input)).toBe("http://atlas.local/entities/e1/v");
+        return count === 1 ? new Response("busy", { status: 503 }) : new Response("{}");
+      },
+      retry: { initialDelayMs: 0, jitter: "none" },
+      middleware: [
+        async (request, next) => {
+          request.path = `${request.path}/v`;
+          return next(request);
+        },
+        observer(seen),
+      ],
+    });
+
+    await client.getEntity("e1");
+    expect(seen.map((s) => [s.attempt, s.path])).toEqual([
+      [1, "/entities/e1/v"],
+      [2, "/entities/e1/v"],
+    ]);
+  });
+});
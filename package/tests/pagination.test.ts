@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { collectAll, extractPageItems } from "../src/pagination.js";
+
+/** Serves `count` records per collection path, honouring limit/offset. */
+const listServer = (count: number, shape: "array" | "envelope" = "array") => {
+  const requests: Array<{ path: string; limit: number; offset: number }> = [];
+  const fetchImpl = async (input: RequestInfo): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input.toString());
+    const limit = Number(url.searchParams.get("limit"));
+    const offset = Number(url.searchParams.get("offset"));
+    requests.push({ path: url.pathname, limit, offset });
+    const key = url.pathname.endsWith("tasks") ? "tasks" : url.pathname.endsWith("entities") ? "entities" : "objects";
+    const idField = key === "tasks" ? "task_id" : key === "entities" ? "entity_id" : "object_id";
+    const rows = Array.from({ length: Math.max(0, Math.min(limit, count - offset)) }, (_, i) => ({
+      [idField]: `${key}-${offset + i}`,
+    }));
+    const body = shape === "array" ? rows : { [key]: rows, total: count, limit };
+    return new Response(JSON.stringify(body));
+  };
+  return { requests, fetchImpl };
+};
+
+describe("extractPageItems", () => {
+  it("accepts bare arrays and envelopes", () => {
+    expect(extractPageItems([1, 2], "entities")).toEqual([1, 2]);
+    expect(extractPageItems({ entities: [3], total: 1 }, "entities")).toEqual([3]);
+    expect(extractPageItems({ items: [4] }, "tasks")).toEqual([4]);
+    expect(() => extractPageItems({ nope: true }, "tasks")).toThrow(/Unexpected list response/);
+  });
+});
+
+describe("AtlasHttpClient iterators", () => {
+  it("walks pages until a short page comes back", async () => {
+    const { requests, fetchImpl } = listServer(5);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+
+    const ids: string[] = [];
+    for await (const entity of client.iterateEntities({ pageSize: 2 })) {
+      ids.push(entity.entity_id);
+    }
+
+    expect(ids).toEqual(["entities-0", "entities-1", "entities-2", "entities-3", "entities-4"]);
+    expect(requests.map((r) => r.offset)).toEqual([0, 2, 4]);
+  });
+
+  it("issues one extra request when the total is an exact multiple of the page size", async () => {
+    const { requests, fetchImpl } = listServer(4);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const tasks = await collectAll(client.iterateTasks({ pageSize: 2 }));
+    expect(tasks).toHaveLength(4);
+    expect(requests.map((r) => r.offset)).toEqual([0, 2, 4]);
+  });
+
+  it("stops at the envelope total without an extra request", async () => {
+    const { requests, fetchImpl } = listServer(4, "envelope");
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const objects = await collectAll(client.iterateObjects({ pageSize: 2 }));
+    expect(objects.map((o) => o.object_id)).toEqual([
+      "objects-0",
+      "objects-1",
+      "objects-2",
+      "objects-3",
+    ]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("honours maxItems and shrinks the last page request", async () => {
+    const { requests, fetchImpl } = listServer(100);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const tasks = await collectAll(
+      client.iterateTasksByEntity("asset-1", { pageSize: 4, maxItems: 6 }),
+    );
+    expect(tasks).toHaveLength(6);
+    expect(requests).toEqual([
+      { path: "/entities/asset-1/tasks", limit: 4, offset: 0 },
+      { path: "/entities/asset-1/tasks", limit: 2, offset: 4 },
+    ]);
+  });
+
+  it("covers the per-entity, per-task and orphaned object listings", async () => {
+    const { requests, fetchImpl } = listServer(1);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    await collectAll(client.iterateObjectsByEntity("e1"));
+    await collectAll(client.iterateObjectsByTask("t1"));
+    await collectAll(client.iterateOrphanedObjects());
+    expect(requests.map((r) => r.path)).toEqual([
+      "/entities/e1/objects",
+      "/tasks/t1/objects",
+      "/objects/orphaned",
+    ]);
+  });
+
+  it("stops when the signal aborts between pages", async () => {
+    const { requests, fetchImpl } = listServer(10);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    const controller = new AbortController();
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const entity of client.iterateEntities({
+          pageSize: 2,
+          signal: controller.signal,
+        })) {
+          seen.push(entity.entity_id);
+          if (seen.length === 3) controller.abort();
+        }
+      })(),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(seen).toHaveLength(3);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("collectAll refuses to exceed its safety cap", async () => {
+    const { fetchImpl } = listServer(50);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    await expect(collectAll(client.iterateEntities({ pageSize: 10 }), { maxItems: 25 })).rejects.toThrow(
+      /exceeded maxItems \(25\)/,
+    );
+  });
+});
@@ -0,0 +1,446 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AtlasRealtimeClient } from "../src/realtime.js";
+import {
+  AtlasFrameError,
+  AtlasRealtimeError,
+  AtlasRealtimeRequestError,
+  AtlasTimeoutError,
+} from "../src/errors.js";
+import { fakeRealtimeServer } from "./fakeSocket.js";
+
+const noJitter = { initialDelayMs: 100, maxDelayMs: 1000, jitter: "none" as const };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AtlasRealtimeClient", () => {
+  it("performs the handshake and exposes the server info", async () => {
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://atlas.local/ws",
+      webSocketFactory: server.factory,
+      clientType: "agent",
+      clientVersion: "0.3.0",
+    });
+    const opened = vi.fn();
+    client.on("open", opened);
+
+    await expect(client.connect()).resolves.toEqual({ server_version: "1.2.3" });
+
+    expect(client.state).toBe("open");
+    expect(client.serverInfo).toEqual({ server_version: "1.2.3" });
+    expect(server.current.url).toBe("ws://atlas.local/ws");
+    expect(server.current.sentOfType("handshake")[0].payload).toEqual({
+      client_type: "agent",
+      client_version: "0.3.0",
+    });
+    expect(opened).toHaveBeenCalledWith({
+      serverInfo: { server_version: "1.2.3" },
+      reconnected: false,
+    });
+    client.close();
+  });
+
+  it("emits received frames and reports unparseable messages", async () => {
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    const frames: string[] = [];
+    const errors: unknown[] = [];
+    client.on("frame", (frame) => frames.push(frame.type));
+    client.on("error", (error) => errors.push(error));
+    await client.connect();
+
+    server.current.receive({ type: "event", payload: { table: "entities", operation: "create" } });
+    server.current.receive("not json");
+    server.current.receive(JSON.stringify([1, 2]));
+
+    expect(frames).toEqual(["event"]);
+    expect(errors).toHaveLength(2);
+    client.close();
+  });
+
+  it("decodes binary messages and reports ones it cannot read", async () => {
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    const frames: unknown[] = [];
+    const errors: unknown[] = [];
+    client.on("frame", (frame) => frames.push(frame));
+    client.on("error", (error) => errors.push(error));
+    await client.connect();
+
+    const text = JSON.stringify({ type: "heartbeat:ack", payload: {} });
+    server.current.receiveRaw(new TextEncoder().encode(text).buffer);
+    server.current.receiveRaw(Buffer.from(text));
+    server.current.receiveRaw(new Blob([text]));
+
+    expect(frames).toEqual([
+      { type: "heartbeat:ack", payload: {} },
+      { type: "heartbeat:ack", payload: {} },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(AtlasRealtimeError);
+    expect((errors[0] as Error).message).toMatch(/Blob/);
+    client.close();
+  });
+
+  it("survives throwing listeners and sockets that throw on send", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      heartbeatIntervalMs: 1000,
+      reconnect: noJitter,
+    });
+    const errors: string[] = [];
+    client.on("error", (error) => {
+      errors.push((error as Error).message);
+      throw new Error("error listener broke");
+    });
+    for (const event of ["open", "frame", "close", "reconnecting"] as const) {
+      client.on(event, () => {
+        throw new Error(`${event} listener broke`);
+      });
+    }
+    await client.connect();
+    server.current.receive({ type: "heartbeat:ack" });
+    server.current.sendError = new Error("socket is closing");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(server.sockets[0].closedWith?.code).toBe(4000);
+    expect(client.state).toBe("reconnecting");
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(server.sockets).toHaveLength(2);
+    expect(client.state).toBe("open");
+    expect(errors).toEqual([
+      "open listener broke",
+      "frame listener broke",
+      "close listener broke",
+      "reconnecting listener broke",
+      "open listener broke",
+    ]);
+    client.close();
+  });
+
+  it("sends heartbeats and keeps the connection while acks arrive", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      heartbeatIntervalMs: 1000,
+    });
+    await client.connect();
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(server.current.sentOfType("heartbeat")).toHaveLength(5);
+    expect(server.sockets).toHaveLength(1);
+    expect(client.state).toBe("open");
+    client.close();
+  });
+
+  it("drops the connection after missed heartbeat acks and reconnects with backoff", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      heartbeatIntervalMs: 1000,
+      maxMissedHeartbeats: 2,
+      reconnect: noJitter,
+    });
+    const closes: unknown[] = [];
+    const opens: boolean[] = [];
+    const reconnecting: unknown[] = [];
+    client.on("close", (event) => closes.push(event));
+    client.on("open", (event) => opens.push(event.reconnected));
+    client.on("reconnecting", (event) => reconnecting.push(event));
+    await client.connect();
+    const first = server.current;
+    server.setAutoHeartbeat(false);
+
+    // Two heartbeats go unanswered; the third tick gives up on the socket.
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(first.sentOfType("heartbeat")).toHaveLength(2);
+    expect(first.closedWith?.code).toBe(4000);
+    expect(client.state).toBe("reconnecting");
+    expect(closes[0]).toMatchObject({ code: 4000, willReconnect: true });
+    expect((closes[0] as { error: unknown }).error).toBeInstanceOf(AtlasRealtimeError);
+    expect(reconnecting).toEqual([{ attempt: 1, delayMs: 100 }]);
+
+    server.setAutoHeartbeat(true);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(server.sockets).toHaveLength(2);
+    expect(client.state).toBe("open");
+    expect(opens).toEqual([false, true]);
+    client.close();
+  });
+
+  it("backs off exponentially while the server keeps refusing connections", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer({ autoOpen: false });
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      reconnect: noJitter,
+    });
+    const delays: number[] = [];
+    client.on("reconnecting", (event) => delays.push(event.delayMs));
+    const connecting = client.connect();
+
+    for (let i = 0; i < 5; i++) {
+      server.current.drop();
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+    expect(delays).toEqual([100, 200, 400, 800, 1000]);
+
+    server.current.open();
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(connecting).resolves.toEqual({ server_version: "1.2.3" });
+    client.close();
+  });
+
+  it("retries when the handshake is not acknowledged in time", async () => {
+    vi.useFakeTimers();
+    let attempts = 0;
+    const server = fakeRealtimeServer({ autoHandshake: false });
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: (url) => {
+        const socket = server.factory(url);
+        if (++attempts > 1) {
+          queueMicrotask(() =>
+            queueMicrotask(() => socket.receive({ type: "handshake:ack", payload: {} })),
+          );
+        }
+        return socket;
+      },
+      handshakeTimeoutMs: 500,
+      reconnect: noJitter,
+    });
+    const connecting = client.connect();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(server.sockets[0].closedWith?.reason).toMatch(/handshake:ack/);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(connecting).resolves.toEqual({});
+    client.close();
+  });
+
+  it("gives up when reconnecting is disabled", async () => {
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      reconnect: false,
+    });
+    const closes: unknown[] = [];
+    client.on("close", (event) => closes.push(event));
+    await client.connect();
+
+    server.current.drop(1011, "server restart");
+
+    expect(client.state).toBe("closed");
+    expect(closes).toEqual([
+      { code: 1011, reason: "server restart", error: undefined, willReconnect: false },
+    ]);
+    expect(() => client.send({ type: "heartbeat" })).toThrow(AtlasRealtimeError);
+  });
+
+  it("stops reconnecting after maxAttempts and rejects connect", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer({ autoOpen: false });
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      reconnect: { ...noJitter, maxAttempts: 2 },
+    });
+    const connecting = client.connect();
+    const settled = connecting.catch((error: unknown) => error);
+
+    server.current.drop();
+    await vi.advanceTimersByTimeAsync(100);
+    server.current.drop();
+    await vi.advanceTimersByTimeAsync(200);
+    server.current.drop(1006, "refused");
+
+    const error = await settled;
+    expect(error).toBeInstanceOf(AtlasRealtimeError);
+    expect(server.sockets).toHaveLength(3);
+    expect(client.state).toBe("closed");
+  });
+
+  it("close() cancels a pending reconnect", async () => {
+    vi.useFakeTimers();
+    const server = fakeRealtimeServer();
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      reconnect: noJitter,
+    });
+    await client.connect();
+    server.current.drop();
+    expect(client.state).toBe("reconnecting");
+
+    client.close();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(server.sockets).toHaveLength(1);
+    expect(client.state).toBe("closed");
+  });
+
+  it("requires a WebSocket implementation", () => {
+    vi.stubGlobal("WebSocket", undefined);
+    try {
+      expect(() => new AtlasRealtimeClient({ url: "ws://x" })).toThrow(/webSocketFactory/);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("AtlasRealtimeClient requests", () => {
+  /** Answers every request with its `:ack`, echoing the message id, unless `reply` overrides it. */
+  const ackServer = (
+    reply: (frame: { type: string; payload?: Record<string, unknown> }) => Record<string, unknown> | null = (frame) => ({
+      type: `${frame.type}:ack`,
+      payload: { echo: frame.payload },
+    }),
+  ) =>
+    fakeRealtimeServer({
+      onFrame: (socket, frame) => {
+        const answer = reply(frame);
+        if (answer) {
+          queueMicrotask(() =>
+            socket.receive({ ...answer, meta: { message_id: frame.meta?.message_id } } as never),
+          );
+        }
+      },
+    });
+
+  it("stamps a message id and resolves with the matching ack payload", async () => {
+    const server = ackServer((frame) =>
+      frame.type === "get"
+        ? { type: "get:ack", payload: { entity: { entity_id: "e1", entity_type: "asset" } } }
+        : { type: `${frame.type}:ack` },
+    );
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    await client.connect();
+
+    const got = await client.get({ entity_type: "asset", entity_id: "e1" });
+    expect(got.entity?.entity_id).toBe("e1");
+    await expect(client.delete({ entity_id: "e1" })).resolves.toEqual({});
+
+    const [getFrame, deleteFrame] = server.current.sent.filter((f) => f.type !== "handshake");
+    expect(getFrame).toMatchObject({ type: "get", payload: { entity_id: "e1" } });
+    expect(typeof getFrame.meta?.sent_at).toBe("string");
+    expect(getFrame.meta?.message_id).not.toBe(deleteFrame.meta?.message_id);
+    client.close();
+  });
+
+  it("correlates concurrent requests by message id, not arrival order", async () => {
+    const held: Array<() => void> = [];
+    const server = fakeRealtimeServer({
+      onFrame: (socket, frame) => {
+        held.push(() =>
+          socket.receive({
+            type: `${frame.type}:ack`,
+            meta: { message_id: frame.meta?.message_id },
+            payload: { total: frame.type === "list" ? 1 : 0, ...(frame.payload ?? {}) },
+          }),
+        );
+      },
+    });
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    await client.connect();
+
+    const created = client.create({ entity_type: "asset", data: { alias: "a" } });
+    const listed = client.list({ entity_type: "asset", limit: 5 });
+    held.reverse().forEach((answer) => answer());
+
+    await expect(listed).resolves.toMatchObject({ total: 1, limit: 5 });
+    await expect(created).resolves.toMatchObject({ data: { alias: "a" } });
+    client.close();
+  });
+
+  it("rejects with AtlasRealtimeRequestError when an error frame references the request", async () => {
+    const server = ackServer(() => ({
+      type: "error",
+      payload: { code: "not_found", message: "no such entity", details: { entity_id: "nope" } },
+    }));
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    await client.connect();
+
+    const error = await client.update({ entity_id: "nope", data: {} }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AtlasRealtimeRequestError);
+    expect(error).toMatchObject({ code: "not_found", details: { entity_id: "nope" } });
+    client.close();
+  });
+
+  it("rejects a request whose answer is malformed instead of waiting for the timeout", async () => {
+    const server = ackServer(() => ({ type: "error", payload: { message: "no code" } }));
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    const errors: unknown[] = [];
+    client.on("error", (error) => errors.push(error));
+    await client.connect();
+
+    const error = await client.get({ entity_id: "e1" }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AtlasFrameError);
+    expect((error as AtlasFrameError).issues).toEqual([
+      { path: "payload.code", message: "is required" },
+    ]);
+    expect(errors).toEqual([error]);
+    client.close();
+  });
+
+  it("ignores acks of the wrong type and times out", async () => {
+    vi.useFakeTimers();
+    const server = ackServer(() => ({ type: "list:ack" }));
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      ackTimeoutMs: 250,
+    });
+    await client.connect();
+
+    const pending = client.get({ entity_id: "e1" }).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(250);
+    expect(await pending).toBeInstanceOf(AtlasTimeoutError);
+    client.close();
+  });
+
+  it("honours a per-call timeout and abort signal", async () => {
+    vi.useFakeTimers();
+    const server = ackServer(() => null);
+    const client = new AtlasRealtimeClient({ url: "ws://x", webSocketFactory: server.factory });
+    await client.connect();
+
+    const timedOut = client.list({}, { timeoutMs: 50 }).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(await timedOut).toMatchObject({ timeoutMs: 50 });
+
+    const controller = new AbortController();
+    const aborted = client.list({}, { signal: controller.signal }).catch((e: unknown) => e);
+    controller.abort();
+    expect(await aborted).toMatchObject({ name: "AbortError" });
+    client.close();
+  });
+
+  it("fails pending requests when the connection drops and refuses to send while closed", async () => {
+    const server = ackServer(() => null);
+    const client = new AtlasRealtimeClient({
+      url: "ws://x",
+      webSocketFactory: server.factory,
+      reconnect: false,
+    });
+    await client.connect();
+
+    const pending = client.create({ data: {} });
+    server.current.drop();
+    await expect(pending).rejects.toThrow(/Connection lost before 'create:ack'/);
+    await expect(client.get({ entity_id: "e1" })).rejects.toBeInstanceOf(AtlasRealtimeError);
+  });
+});
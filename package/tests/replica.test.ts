@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import { AtlasReplica } from "../src/replica.js";
+import type { ReplicaSource } from "../src/replica.js";
+import type {
+  ChangedSinceResponse,
+  FullDatasetResponse,
+  SerializedEntity,
+  SerializedTask,
+  TaskStatus,
+} from "../src/types/entities.js";
+
+const entity = (id: string, name = id): SerializedEntity => ({
+  entity_id: id,
+  entity_type: "asset",
+  type: "asset",
+  alias: name,
+  components: {},
+  metadata: {},
+});
+
+const task = (id: string, status: TaskStatus = "pending"): SerializedTask => ({
+  task_id: id,
+  status,
+  components: {},
+  metadata: {},
+});
+
+/** Serves `snapshot` from the full dataset and replays `changes` in order from changed-since. */
+const scriptedSource = (
+  snapshot: FullDatasetResponse,
+  changes: Array<Partial<ChangedSinceResponse> | Error> = [],
+) => {
+  const sinces: string[] = [];
+  let probes = 0;
+  const source: ReplicaSource = {
+    getFullDataset: async () => snapshot,
+    getChangedSince: async (since, limitPerType) => {
+      if (typeof since !== "string") throw new Error("expected a since string");
+      // The bootstrap probe only wants the server clock and asks for one row per stream.
+      if (limitPerType === 1) {
+        probes += 1;
+        return { timestamp: probes === 1 ? "t0" : `p${probes}` };
+      }
+      sinces.push(since);
+      const next = changes.shift() ?? {};
+      if (next instanceof Error) throw next;
+      return { timestamp: `t${sinces.length}`, ...next };
+    },
+  };
+  return { source, sinces };
+};
+
+describe("AtlasReplica", () => {
+  it("bootstraps from the full dataset and records the probe timestamp", async () => {
+    const { source } = scriptedSource({
+      entities: [entity("e1"), entity("e2")],
+      tasks: [task("t1")],
+    });
+    const replica = new AtlasReplica(source);
+    const added: string[] = [];
+    const synced: unknown[] = [];
+    replica.on("added", (event) => added.push(`${event.kind}:${event.id}`));
+    replica.on("synced", (event) => synced.push(event));
+
+    await replica.sync();
+
+    expect(added).toEqual(["entity:e1", "entity:e2", "task:t1"]);
+    expect(replica.entities.size).toBe(2);
+    expect(replica.getTask("t1")?.status).toBe("pending");
+    expect(replica.timestamp).toBe("t0");
+    expect(synced).toEqual([{ timestamp: "t0", bootstrap: true }]);
+  });
+
+  it("applies upserts and tombstones from changed-since and advances the high-water mark", async () => {
+    const { source, sinces } = scriptedSource({ entities: [entity("e1"), entity("e2")] }, [
+      {
+        entities: [entity("e1", "renamed"), entity("e3")],
+        deleted_entities: [{ id: "e2", type: "entity", entity_id: "e2" }],
+      },
+      {},
+    ]);
+    const replica = new AtlasReplica(source);
+    await replica.sync();
+
+    const events: string[] = [];
+    replica.on("added", (e) => events.push(`added ${e.id}`));
+    replica.on("updated", (e) => {
+      if (e.kind === "entity") events.push(`updated ${e.id} ${e.previous.alias} -> ${e.record.alias}`);
+    });
+    replica.on("removed", (e) => events.push(`removed ${e.id}`));
+
+    await replica.sync();
+    await replica.sync();
+
+    expect(events).toEqual(["updated e1 e1 -> renamed", "added e3", "removed e2"]);
+    expect([...replica.entities.keys()].sort()).toEqual(["e1", "e3"]);
+    expect(sinces).toEqual(["t0", "t1"]);
+    expect(replica.timestamp).toBe("t2");
+  });
+
+  it("emits nothing when a change re-delivers an identical record", async () => {
+    const { source } = scriptedSource({ tasks: [task("t1")] }, [{ tasks: [task("t1")] }]);
+    const replica = new AtlasReplica(source);
+    await replica.sync();
+    let events = 0;
+    replica.on("updated", () => (events += 1));
+    replica.on("added", () => (events += 1));
+    await replica.sync();
+    expect(events).toBe(0);
+  });
+
+  it("keeps the high-water mark when a poll fails partway through paging", async () => {
+    const { source, sinces } = scriptedSource({}, [
+      { tasks: [task("t1", "in_progress")], has_more_tasks: true, next_task_cursor: "c1" },
+      new Error("connection reset"),
+      { tasks: [task("t1", "in_progress")], has_more_tasks: true, next_task_cursor: "c1" },
+      { tasks: [task("t2")] },
+    ]);
+    const replica = new AtlasReplica(source);
+    await replica.sync();
+
+    await expect(replica.sync()).rejects.toThrow("connection reset");
+    expect(replica.timestamp).toBe("t0");
+    expect(replica.getTask("t1")?.status).toBe("in_progress");
+
+    await replica.sync();
+    expect(sinces).toEqual(["t0", "t0", "t0", "t0"]);
+    expect(replica.timestamp).toBe("t3");
+    expect([...replica.tasks.keys()]).toEqual(["t1", "t2"]);
+  });
+
+  it("removes records missing from a fresh snapshot on resync", async () => {
+    const snapshot: FullDatasetResponse = { entities: [entity("e1"), entity("e2")] };
+    const { source } = scriptedSource(snapshot);
+    const replica = new AtlasReplica(source);
+    await replica.sync();
+
+    snapshot.entities = [entity("e2")];
+    const removed: string[] = [];
+    replica.on("removed", (e) => removed.push(e.id));
+    await replica.resync();
+
+    expect(removed).toEqual(["e1"]);
+    expect(replica.timestamp).toBe("p2");
+  });
+
+  it("polls on an interval after start and stops cleanly", async () => {
+    const { source, sinces } = scriptedSource({ entities: [entity("e1")] });
+    const replica = new AtlasReplica(source, { pollIntervalMs: 5 });
+    const synced: boolean[] = [];
+    replica.on("synced", (e) => synced.push(e.bootstrap));
+
+    await replica.start();
+    expect(replica.isRunning).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await replica.stop();
+    const pollsAtStop = sinces.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(replica.isRunning).toBe(false);
+    expect(synced[0]).toBe(true);
+    expect(pollsAtStop).toBeGreaterThanOrEqual(2);
+    expect(sinces.length).toBe(pollsAtStop);
+  });
+
+  it("reports background poll failures as error events and keeps polling", async () => {
+    const { source, sinces } = scriptedSource({}, [new Error("boom")]);
+    const replica = new AtlasReplica(source, { pollIntervalMs: 5 });
+    const errors: unknown[] = [];
+    replica.on("error", (error) => errors.push(error));
+
+    await replica.start();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await replica.stop();
+
+    expect(errors).toHaveLength(1);
+    expect(sinces.length).toBeGreaterThanOrEqual(2);
+    expect(replica.timestamp).not.toBe("t0");
+  });
+
+  it("applies the whole batch and keeps polling when listeners throw", async () => {
+    const { source, sinces } = scriptedSource({ entities: [entity("e1"), entity("e2")] }, [
+      {
+        entities: [entity("e1", "renamed"), entity("e3")],
+        deleted_entities: [{ id: "e2", type: "entity", entity_id: "e2" }],
+      },
+      new Error("boom"),
+    ]);
+    const replica = new AtlasReplica(source, { pollIntervalMs: 5 });
+    const errors: string[] = [];
+    replica.on("error", (error) => {
+      errors.push((error as Error).message);
+      throw new Error("error listener broke");
+    });
+    for (const event of ["added", "updated", "removed", "synced"] as const) {
+      replica.on(event, () => {
+        throw new Error(`${event} listener broke`);
+      });
+    }
+
+    await replica.start();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await replica.stop();
+
+    expect([...replica.entities.keys()].sort()).toEqual(["e1", "e3"]);
+    expect(replica.getEntity("e1")?.alias).toBe("renamed");
+    expect(sinces.slice(0, 3)).toEqual(["t0", "t1", "t1"]);
+    expect(errors.slice(0, 8)).toEqual([
+      "added listener broke",
+      "added listener broke",
+      "synced listener broke",
+      "updated listener broke",
+      "added listener broke",
+      "removed listener broke",
+      "synced listener broke",
+      "boom",
+    ]);
+  });
+
+  it("skips the bootstrap when resuming from a known timestamp", async () => {
+    let fullCalls = 0;
+    const { source, sinces } = scriptedSource({});
+    const replica = new AtlasReplica(
+      {
+        getChangedSince: source.getChangedSince,
+        getFullDataset: async () => {
+          fullCalls += 1;
+          return {};
+        },
+      },
+      { since: "2025-01-01T00:00:00Z" },
+    );
+    await replica.sync();
+    expect(fullCalls).toBe(0);
+    expect(sinces).toEqual(["2025-01-01T00:00:00Z"]);
+  });
+
+  it("rejects start and stays stopped when the bootstrap fails", async () => {
+    const replica = new AtlasReplica({
+      getChangedSince: async () => ({ timestamp: "t0" }),
+      getFullDataset: async () => {
+        throw new Error("unavailable");
+      },
+    });
+    await expect(replica.start()).rejects.toThrow("unavailable");
+    expect(replica.isRunning).toBe(false);
+    expect(replica.timestamp).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import type { ClientOptions } from "../src/httpClient.js";
+import { AtlasResponseValidationError } from "../src/errors.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+import type {
+  CheckinResponse,
+  EntityListResponse,
+  SerializedEntity,
+  SerializedObject,
+  SerializedTask,
+} from "../src/types/entities.js";
+
+/** Client whose every response body is `body`. */
+const clientReturning = (body: unknown, options: Partial<ClientOptions> = {}) =>
+  new AtlasHttpClient({
+    baseUrl: "http://atlas.local",
+    fetchImpl: async () => new Response(JSON.stringify(body)),
+    ...options,
+  });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("typed responses", () => {
+  it("declares the serializer shapes and envelopes as return types", () => {
+    const client = clientReturning({});
+    expectTypeOf(client.getEntity).returns.resolves.toEqualTypeOf<SerializedEntity>();
+    expectTypeOf(client.listEntities).returns.resolves.toEqualTypeOf<EntityListResponse>();
+    expectTypeOf(client.checkinEntity).returns.resolves.toEqualTypeOf<CheckinResponse>();
+    expectTypeOf(client.completeTask).returns.resolves.toEqualTypeOf<SerializedTask>();
+    expectTypeOf(client.updateObject).returns.resolves.toEqualTypeOf<SerializedObject>();
+    expectTypeOf(client.deleteEntity).returns.resolves.toBeVoid();
+  });
+
+  it("accepts every well-formed response in strict mode", async () => {
+    const server = new AtlasFakeServer();
+    const client = new AtlasHttpClient({
+      baseUrl: server.baseUrl,
+      fetchImpl: server.fetch,
+      validateResponses: "strict",
+    });
+    server.seed({ entities: [{ entity_id: "drone-01", entity_type: "asset", alias: "Alpha" }] });
+
+    await client.getHealth();
+    await client.createEntity("drone-02", "asset", "Bravo", "quadcopter");
+    await client.createTask("t1", undefined, { entity_id: "drone-01" });
+    const checkin = await client.checkinEntity("drone-01", { latitude: 1 });
+    expect(checkin.tasks[0].task_id).toBe("t1");
+    await client.transitionTaskStatus("t1", "in_progress", { progress: 10 });
+    await client.createObject(new Blob(["x"], { type: "text/plain" }), "o1", undefined, [
+      { entity_id: "drone-01" },
+    ]);
+    await client.removeObjectReference("o1", "drone-01");
+    await expect(client.getObjectReferences("o1")).resolves.toEqual({
+      object_id: "o1",
+      referenced_by: [],
+    });
+    expect((await client.listEntities()).total).toBe(2);
+    await client.getEntityByAlias("Alpha");
+    await client.getChangedSince("2000-01-01T00:00:00Z");
+    await client.getFullDataset();
+    await client.deleteTask("t1");
+  });
+
+  it("rejects a drifted response in strict mode with every offending path", async () => {
+    const client = clientReturning(
+      { entity_id: 7, entity_type: "asset", components: {}, metadata: {} },
+      { validateResponses: "strict" },
+    );
+
+    const error = await client.getEntity("drone-01").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AtlasResponseValidationError);
+    expect(error).toMatchObject({
+      operation: "getEntity",
+      issues: [
+        { path: "entity_id", message: "expected a string, got number" },
+        { path: "type", message: "is required" },
+      ],
+      body: { entity_id: 7 },
+    });
+    expect((error as Error).message).toBe(
+      "Invalid getEntity response at entity_id: expected a string, got number (and 1 more)",
+    );
+  });
+
+  it("accepts a task status the client does not know in strict mode", async () => {
+    const task = { task_id: "t1", status: "paused", components: {}, metadata: {} };
+    const client = clientReturning(task, { validateResponses: "strict" });
+
+    await expect(client.getTask("t1")).resolves.toMatchObject({ status: "paused" });
+  });
+
+  it("reports nested paths inside envelopes", async () => {
+    const entity = { entity_id: "e", entity_type: "asset", type: "asset", components: {}, metadata: {} };
+    const client = clientReturning(
+      { entity, tasks: [{ task_id: "t1" }] },
+      { validateResponses: "strict" },
+    );
+
+    await expect(client.checkinEntity("e", {})).rejects.toMatchObject({
+      issues: [
+        { path: "tasks[0].status", message: "is required" },
+        { path: "tasks[0].components", message: "is required" },
+        { path: "tasks[0].metadata", message: "is required" },
+      ],
+    });
+  });
+
+  it("warns once per drifted field and still resolves in warn mode", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const client = clientReturning({ tasks: "nope", total: 0, limit: 25 }, { validateResponses: "warn" });
+
+    await expect(client.listTasks()).resolves.toMatchObject({ tasks: "nope" });
+    await client.listTasks();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      "Invalid listTasks response at tasks: expected an array, got string",
+    );
+  });
+
+  it("does not validate by default", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    await expect(clientReturning({ success: true }).getTask("t1")).resolves.toEqual({ success: true });
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
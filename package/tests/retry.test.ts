@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasServerError } from "../src/errors.js";
+import {
+  computeBackoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../src/retry.js";
+
+const scripted = (responses: Array<() => Response | Promise<Response>>) => {
+  const calls: Array<{ url: string; method: string }> = [];
+  const fetchImpl = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    calls.push({
+      url: typeof input === "string" ? input : input.toString(),
+      method: init?.method || "GET",
+    });
+    const next = responses[Math.min(calls.length - 1, responses.length - 1)];
+    return next();
+  };
+  return { calls, fetchImpl };
+};
+
+const fastRetry = { initialDelayMs: 0, jitter: "none" as const };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("retry policy helpers", () => {
+  it("disables retries unless configured", () => {
+    expect(resolveRetryPolicy(undefined).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy(true).maxAttempts).toBe(3);
+    expect(resolveRetryPolicy({ maxAttempts: 5 }).retryOnStatus).toContain(503);
+  });
+
+  it("grows the backoff exponentially up to the cap", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: "none" });
+    expect(computeBackoffDelay(policy, 1)).toBe(100);
+    expect(computeBackoffDelay(policy, 2)).toBe(200);
+    expect(computeBackoffDelay(policy, 3)).toBe(350);
+    const jittered = resolveRetryPolicy({ initialDelayMs: 100, jitter: "full" });
+    expect(computeBackoffDelay(jittered, 2, () => 0.5)).toBe(100);
+  });
+
+  it("parses Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+  });
+});
+
+describe("AtlasHttpClient retry", () => {
+  it("makes a single attempt when retry is not configured", async () => {
+    const { calls, fetchImpl } = scripted([() => new Response("down", { status: 503 })]);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    await expect(client.getEntity("e1")).rejects.toBeInstanceOf(AtlasServerError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("retries idempotent requests on retryable statuses and network errors", async () => {
+    const { calls, fetchImpl } = scripted([
+      () => {
+        throw new TypeError("fetch failed");
+      },
+      () => new Response("bad gateway", { status: 502 }),
+      () => new Response(JSON.stringify({ entity_id: "e1" })),
+    ]);
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      retry: { ...fastRetry, maxAttempts: 3 },
+    });
+    await expect(client.getEntity("e1")).resolves.toEqual({ entity_id: "e1" });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up after maxAttempts and surfaces the last error", async () => {
+    const { calls, fetchImpl } = scripted([() => new Response("down", { status: 500 })]);
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      retry: { ...fastRetry, maxAttempts: 2 },
+    });
+    await expect(client.listEntities()).rejects.toBeInstanceOf(AtlasServerError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("does not retry statuses outside retryOnStatus", async () => {
+    const { calls, fetchImpl } = scripted([() => new Response("missing", { status: 404 })]);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl, retry: fastRetry });
+    await expect(client.getTask("t1")).rejects.toThrow(/HTTP 404/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("only retries POST and PATCH when retryNonIdempotent is set", async () => {
+    const failing = () => new Response("unavailable", { status: 503 });
+    const ok = () => new Response(JSON.stringify({ tasks: [] }));
+
+    const first = scripted([failing, ok]);
+    const defaultClient = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: first.fetchImpl,
+      retry: fastRetry,
+    });
+    await expect(defaultClient.checkinEntity("asset-1", { latitude: 1 })).rejects.toBeInstanceOf(
+      AtlasServerError,
+    );
+    expect(first.calls).toHaveLength(1);
+
+    const second = scripted([failing, ok]);
+    const optInClient = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: second.fetchImpl,
+      retry: { ...fastRetry, retryNonIdempotent: true },
+    });
+    await optInClient.checkinEntity("asset-1", { latitude: 1 });
+    await optInClient.updateEntityTelemetry("asset-1", { latitude: 2 });
+    expect(second.calls.map((c) => c.method)).toEqual(["POST", "POST", "PATCH"]);
+  });
+
+  it("honours Retry-After on 429", async () => {
+    vi.useFakeTimers();
+    const { calls, fetchImpl } = scripted([
+      () => new Response("slow down", { status: 429, headers: { "retry-after": "2" } }),
+      () => new Response(JSON.stringify({ status: "ok" })),
+    ]);
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl, retry: fastRetry });
+    const pending = client.getHealth();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual({ status: "ok" });
+    expect(calls).toHaveLength(2);
+  });
+
+  it("applies to multipart uploads and binary downloads", async () => {
+    const { calls, fetchImpl } = scripted([
+      () => new Response("unavailable", { status: 503 }),
+      () => new Response(JSON.stringify({ object_id: "obj-1" })),
+      () => new Response("unavailable", { status: 503 }),
+      () => new Response(new Uint8Array([7, 8])),
+    ]);
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl,
+      retry: { ...fastRetry, retryNonIdempotent: true },
+    });
+    const file = new File(["abc"], "a.bin", { type: "application/octet-stream" });
+    await expect(client.createObject(file, "obj-1")).resolves.toEqual({ object_id: "obj-1" });
+    const download = await client.downloadObject("obj-1");
+    expect(download.data).toEqual(new Uint8Array([7, 8]));
+    expect(calls.map((c) => c.method)).toEqual(["POST", "POST", "GET", "GET"]);
+  });
+});
@@ -0,0 +1,260 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AtlasRealtimeClient } from "../src/realtime.js";
+import { RealtimeSubscriptionManager } from "../src/subscriptions.js";
+import type { SubscriptionManagerOptions } from "../src/subscriptions.js";
+import type { ChangedSinceSource } from "../src/changedSince.js";
+import type { ChangedSinceResponse } from "../src/types/entities.js";
+import type { EventFrame } from "../src/types/frames.js";
+import { fakeRealtimeServer } from "./fakeSocket.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Acks subscribe/unsubscribe; the changed-since source serves `backfills` in order. */
+const setup = async (
+  backfills: Array<Partial<ChangedSinceResponse> | Error> = [],
+  options: SubscriptionManagerOptions = {},
+) => {
+  const server = fakeRealtimeServer({
+    onFrame: (socket, frame) =>
+      queueMicrotask(() =>
+        socket.receive({ type: `${frame.type}:ack`, meta: { message_id: frame.meta?.message_id } }),
+      ),
+  });
+  const realtime = new AtlasRealtimeClient({
+    url: "ws://x",
+    webSocketFactory: server.factory,
+    reconnect: { initialDelayMs: 10, jitter: "none" },
+  });
+  const sinces: string[] = [];
+  const source: ChangedSinceSource = {
+    getChangedSince: async (since, limitPerType) => {
+      if (limitPerType === 1) return { timestamp: "2025-01-01T00:00:00Z" };
+      sinces.push(since as string);
+      const next = backfills.shift() ?? {};
+      if (next instanceof Error) throw next;
+      return { timestamp: `2025-01-01T00:10:0${sinces.length}Z`, ...next };
+    },
+  };
+  await realtime.connect();
+  const manager = new RealtimeSubscriptionManager(realtime, source, {
+    reorderWindowMs: 50,
+    ...options,
+  });
+  const events: EventFrame[] = [];
+  manager.on("event", (frame) => events.push(frame));
+  return { server, realtime, manager, events, sinces };
+};
+
+const event = (sequence: number, id = `e${sequence}`) => ({
+  type: "event",
+  meta: { sequence, sent_at: `2025-01-01T00:00:${String(sequence).padStart(2, "0")}Z` },
+  payload: { table: "entities", operation: "update", id },
+});
+
+const ids = (events: EventFrame[]) => events.map((e) => e.payload.id);
+
+describe("RealtimeSubscriptionManager", () => {
+  it("subscribes with channels and filters and tracks the subscription", async () => {
+    const { server, manager, realtime } = await setup();
+
+    const sub = await manager.subscribe(["entities", "tasks"], { entity_type: "asset" });
+
+    expect(server.current.sentOfType("subscribe")[0].payload).toEqual({
+      channels: ["entities", "tasks"],
+      filters: { entity_type: "asset" },
+    });
+    expect(manager.subscriptions.map((s) => s.channels)).toEqual([["entities", "tasks"]]);
+    expect(manager.timestamp).toBe("2025-01-01T00:00:00Z");
+
+    await sub.unsubscribe();
+    expect(server.current.sentOfType("unsubscribe")[0].payload).toEqual({
+      channels: ["entities", "tasks"],
+    });
+    expect(manager.subscriptions).toEqual([]);
+    realtime.close();
+  });
+
+  it("only unsubscribes channels no other subscription still uses", async () => {
+    const { server, manager, realtime } = await setup();
+    const a = await manager.subscribe(["entities", "tasks"]);
+    await manager.subscribe(["tasks"]);
+
+    await a.unsubscribe();
+
+    expect(server.current.sentOfType("unsubscribe")[0].payload).toEqual({ channels: ["entities"] });
+    realtime.close();
+  });
+
+  it("restores order within the reorder window and drops duplicates", async () => {
+    const { server, manager, events, sinces, realtime } = await setup();
+    await manager.subscribe(["entities"]);
+
+    for (const sequence of [1, 3, 2, 2, 4, 1]) server.current.receive(event(sequence));
+    await manager.idle();
+
+    expect(ids(events)).toEqual(["e1", "e2", "e3", "e4"]);
+    expect(sinces).toEqual([]);
+    realtime.close();
+  });
+
+  it("backfills from the last applied timestamp when a gap does not close", async () => {
+    vi.useFakeTimers();
+    const { server, manager, events, sinces, realtime } = await setup([
+      {
+        entities: [
+          {
+            entity_id: "missed",
+            entity_type: "asset",
+            type: "asset",
+            components: {},
+            metadata: { created_at: "2025-01-01T00:00:03Z" },
+          },
+        ],
+        deleted_tasks: [{ id: "t9", type: "task", task_id: "t9" }],
+      },
+    ]);
+    await manager.subscribe(["entities"]);
+    const gaps: unknown[] = [];
+    manager.on("gap", (gap) => gaps.push(gap));
+
+    server.current.receive(event(1));
+    server.current.receive(event(2));
+    server.current.receive(event(5));
+    server.current.receive(event(6));
+    await vi.advanceTimersByTimeAsync(50);
+    await manager.idle();
+    server.current.receive(event(7));
+    await manager.idle();
+
+    expect(gaps).toEqual([{ expected: 3, received: 5 }]);
+    expect(sinces).toEqual(["2025-01-01T00:00:02Z"]);
+    expect(ids(events)).toEqual(["e1", "e2", "missed", "t9", "e5", "e6", "e7"]);
+    expect(events[2].payload.operation).toBe("create");
+    expect(events[3].payload).toMatchObject({ table: "tasks", operation: "delete" });
+    expect(events[2].meta?.backfill).toBe(true);
+    realtime.close();
+  });
+
+  it("backfills immediately when too many frames are held", async () => {
+    const { server, manager, events, sinces, realtime } = await setup([], {
+      maxBufferedEvents: 2,
+      reorderWindowMs: 60_000,
+      since: "2025-01-01T00:00:00Z",
+    });
+
+    for (const sequence of [1, 3, 4, 5]) server.current.receive(event(sequence));
+    await manager.idle();
+
+    expect(ids(events)).toEqual(["e1", "e3", "e4", "e5"]);
+    expect(sinces).toEqual(["2025-01-01T00:00:01Z"]);
+    realtime.close();
+  });
+
+  it("resubscribes and backfills after a reconnect, accepting the new sequence numbering", async () => {
+    vi.useFakeTimers();
+    const { server, manager, events, sinces, realtime } = await setup([
+      {
+        tasks: [{ task_id: "t1", status: "in_progress", components: {}, metadata: {} }],
+      },
+    ]);
+    await manager.subscribe(["tasks"], { status: "in_progress" });
+    server.current.receive(event(40));
+    await manager.idle();
+
+    server.current.drop();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(realtime.state).toBe("open");
+    await manager.idle();
+
+    expect(server.sockets).toHaveLength(2);
+    expect(server.current.sentOfType("subscribe")[0].payload).toEqual({
+      channels: ["tasks"],
+      filters: { status: "in_progress" },
+    });
+    expect(sinces).toEqual(["2025-01-01T00:00:40Z"]);
+
+    server.current.receive(event(1, "after"));
+    await manager.idle();
+    expect(ids(events)).toEqual(["e40", "t1", "after"]);
+    realtime.close();
+  });
+
+  it("keeps delivering after event and error listeners throw", async () => {
+    vi.useFakeTimers();
+    const { server, manager, events, realtime } = await setup([new Error("HTTP 503")], {
+      since: "2025-01-01T00:00:00Z",
+      reorderWindowMs: 10,
+    });
+    const errors: string[] = [];
+    manager.on("error", (error) => {
+      errors.push((error as Error).message);
+      throw new Error("error listener broke");
+    });
+    manager.on("event", (frame) => {
+      if (frame.payload.id === "e1") throw new Error("event listener broke");
+    });
+
+    server.current.receive(event(1));
+    server.current.receive(event(3));
+    await vi.advanceTimersByTimeAsync(10);
+    await manager.idle();
+    server.current.receive(event(4));
+    server.current.receive(event(5));
+    await manager.idle();
+
+    expect(errors).toEqual(["event listener broke", "HTTP 503"]);
+    expect(ids(events)).toEqual(["e1", "e3", "e4", "e5"]);
+    expect(manager.timestamp).toBe("2025-01-01T00:00:01Z");
+    manager.dispose();
+    realtime.close();
+  });
+
+  it("compares sent_at timestamps as instants, not strings", async () => {
+    const { server, manager, realtime } = await setup([], { since: "2025-01-01T00:00:00.500Z" });
+    const sentAt = (sequence: number, sent_at: string) => ({
+      ...event(sequence),
+      meta: { sequence, sent_at },
+    });
+
+    server.current.receive(sentAt(1, "2025-01-01T00:00:00Z"));
+    server.current.receive(sentAt(2, "2025-01-01T01:00:00+01:00"));
+    await manager.idle();
+    expect(manager.timestamp).toBe("2025-01-01T00:00:00.500Z");
+
+    server.current.receive(sentAt(3, "2025-01-01T00:00:01Z"));
+    await manager.idle();
+    expect(manager.timestamp).toBe("2025-01-01T00:00:01Z");
+    manager.dispose();
+    realtime.close();
+  });
+
+  it("reports a failed backfill, keeps the stream going and retries from the same timestamp", async () => {
+    vi.useFakeTimers();
+    const { server, manager, events, sinces, realtime } = await setup([new Error("HTTP 503")], {
+      since: "2025-01-01T00:00:00Z",
+      reorderWindowMs: 10,
+    });
+    const errors: unknown[] = [];
+    manager.on("error", (error) => errors.push(error));
+
+    server.current.receive(event(1));
+    server.current.receive(event(3));
+    await vi.advanceTimersByTimeAsync(10);
+    await manager.idle();
+
+    expect(errors).toHaveLength(1);
+    expect(ids(events)).toEqual(["e1", "e3"]);
+    expect(manager.timestamp).toBe("2025-01-01T00:00:01Z");
+
+    server.current.receive(event(5));
+    await vi.advanceTimersByTimeAsync(10);
+    await manager.idle();
+
+    expect(sinces).toEqual(["2025-01-01T00:00:01Z", "2025-01-01T00:00:01Z"]);
+    expect(manager.timestamp).toBe("2025-01-01T00:10:02Z");
+    manager.dispose();
+    realtime.close();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasTaskTransitionError } from "../src/errors.js";
+import {
+  TASK_STATUSES,
+  TASK_TRANSITIONS,
+  assertTaskTransition,
+  canTransition,
+  isTaskStatus,
+  isTerminal,
+} from "../src/taskStatus.js";
+import type { TaskStatus } from "../src/types/entities.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+
+const setup = (checkTaskTransitions: boolean) => {
+  const server = new AtlasFakeServer();
+  const client = new AtlasHttpClient({
+    baseUrl: server.baseUrl,
+    fetchImpl: server.fetch,
+    checkTaskTransitions,
+  });
+  const seed = (status: TaskStatus) => server.seed({ tasks: [{ task_id: "t1", status }] });
+  const posts = () =>
+    server.calls.filter((call) => call.method !== "GET").map((call) => `${call.method} ${call.path}`);
+  return { server, client, seed, posts };
+};
+
+describe("task status table", () => {
+  it("lets every open status move on and nothing leave a terminal one", () => {
+    expect(TASK_STATUSES).toEqual(["pending", "acknowledged", "in_progress", "completed", "failed", "cancelled"]);
+    for (const status of TASK_STATUSES) {
+      expect(isTerminal(status)).toBe(TASK_TRANSITIONS[status].length === 0);
+    }
+    expect(canTransition("pending", "acknowledged")).toBe(true);
+    expect(canTransition("in_progress", "in_progress")).toBe(true);
+    expect(canTransition("acknowledged", "completed")).toBe(false);
+    expect(canTransition("completed", "failed")).toBe(false);
+  });
+
+  it("treats statuses the client does not know as open and unchecked", () => {
+    expect(isTaskStatus("paused")).toBe(false);
+    expect(isTaskStatus("toString")).toBe(false);
+    expect(isTerminal("paused")).toBe(false);
+    expect(canTransition("paused", "completed")).toBe(false);
+    expect(() => assertTaskTransition("t1", "paused", "completed")).not.toThrow();
+  });
+});
+
+describe("checkTaskTransitions", () => {
+  it("refuses an illegal move locally with a typed error", async () => {
+    const { client, seed, posts } = setup(true);
+    seed("completed");
+
+    const error = await client.failTask("t1", "late").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AtlasTaskTransitionError);
+    expect(error).toMatchObject({ taskId: "t1", from: "completed", to: "failed", allowed: [] });
+    expect((error as Error).message).toBe(
+      "Task t1 cannot move from completed to failed (allowed: none, the task is finished)",
+    );
+    expect(posts()).toEqual([]);
+  });
+
+  it("checks every lifecycle method against the current status", async () => {
+    const { client, server, seed, posts } = setup(true);
+    seed("pending");
+
+    await expect(client.completeTask("t1")).rejects.toThrow(
+      "cannot move from pending to completed (allowed: acknowledged, in_progress, failed, cancelled)",
+    );
+    await client.acknowledgeTask("t1");
+    await expect(client.startTask("t1")).rejects.toBeInstanceOf(AtlasTaskTransitionError);
+    await client.transitionTaskStatus("t1", "in_progress");
+    await client.transitionTaskStatus("t1", "in_progress", { progress: 50 });
+    await client.completeTask("t1", { ok: true });
+    await expect(client.updateTask("t1", undefined, { status: "cancelled" })).rejects.toBeInstanceOf(
+      AtlasTaskTransitionError,
+    );
+    await client.updateTask("t1", undefined, { extra: { note: "done" } });
+
+    expect(server.tasks.get("t1")?.status).toBe("completed");
+    expect(posts()).toEqual([
+      "POST /tasks/t1/acknowledge",
+      "POST /tasks/t1/status",
+      "POST /tasks/t1/status",
+      "POST /tasks/t1/complete",
+      "PATCH /tasks/t1",
+    ]);
+  });
+
+  it("sends lifecycle calls without a lookup when off", async () => {
+    const { client, server, seed } = setup(false);
+    seed("completed");
+
+    await client.failTask("t1", "late");
+
+    expect(server.calls.map((call) => `${call.method} ${call.path}`)).toEqual(["POST /tasks/t1/fail"]);
+    expect(server.tasks.get("t1")?.status).toBe("failed");
+  });
+});
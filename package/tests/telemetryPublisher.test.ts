@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TelemetryPublisher } from "../src/telemetryPublisher.js";
+import type { TelemetrySink } from "../src/telemetryPublisher.js";
+import type { TelemetryComponent } from "../src/types/components.js";
+
+type Call = { entityId: string; telemetry: TelemetryComponent; at: number };
+
+/** Records calls; each request resolves when `release` is called, or immediately when `auto` is set. */
+const createSink = (auto = true) => {
+  const calls: Call[] = [];
+  const pending: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+  let failNext = 0;
+  const sink: TelemetrySink = {
+    updateEntityTelemetry: (async (entityId: string, telemetry: TelemetryComponent) => {
+      calls.push({ entityId, telemetry, at: Date.now() });
+      if (failNext > 0) {
+        failNext -= 1;
+        throw new Error("HTTP 503");
+      }
+      if (!auto) {
+        await new Promise<void>((resolve, reject) => pending.push({ resolve, reject }));
+      }
+      return {};
+    }) as TelemetrySink["updateEntityTelemetry"],
+  };
+  return {
+    sink,
+    calls,
+    pending,
+    failNextCalls: (count: number) => {
+      failNext = count;
+    },
+    release: async () => {
+      for (const request of pending.splice(0)) request.resolve();
+      await vi.advanceTimersByTimeAsync(0);
+    },
+  };
+};
+
+describe("TelemetryPublisher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the first fix at once and coalesces later fixes per interval", async () => {
+    const { sink, calls } = createSink();
+    const publisher = new TelemetryPublisher(sink, { intervalMs: 1000 });
+
+    publisher.publish("drone-01", { latitude: 1, longitude: 2, speed_m_s: 5 });
+    await vi.advanceTimersByTimeAsync(0);
+    for (let fix = 1; fix <= 20; fix += 1) {
+      publisher.publish("drone-01", { latitude: 1 + fix * 0.001, longitude: 2, speed_m_s: 5 + fix });
+      await vi.advanceTimersByTimeAsync(50);
+    }
+
+    expect(calls.map(({ telemetry, at }) => ({ telemetry, at }))).toEqual([
+      { telemetry: { latitude: 1, longitude: 2, speed_m_s: 5 }, at: 0 },
+      { telemetry: { latitude: 1.02, longitude: 2, speed_m_s: 25 }, at: 1000 },
+    ]);
+
+    publisher.publish("drone-01", { latitude: 1.03, longitude: 2, speed_m_s: 25 });
+    await publisher.close();
+    expect(calls.at(-1)).toEqual({ entityId: "drone-01", telemetry: { latitude: 1.03, longitude: 2 }, at: 1000 });
+    expect(publisher.stats).toMatchObject({ published: 22, sent: 3, failed: 0, queued: 0, inFlight: 0 });
+  });
+
+  it("only sends fields that moved past their deadband", async () => {
+    const { sink, calls } = createSink();
+    const publisher = new TelemetryPublisher(sink, {
+      intervalMs: 0,
+      deadbands: { distanceM: 10, headingDeg: 5, speedMS: 1, altitudeM: 2 },
+    });
+
+    publisher.publish("d", { latitude: 0, longitude: 0, heading_deg: 358, speed_m_s: 3, altitude_m: 100 });
+    await vi.advanceTimersByTimeAsync(0);
+    // ~5.6 m north, heading across north by 4°, speed +0.5, altitude +3
+    publisher.publish("d", { latitude: 0.00005, longitude: 0, heading_deg: 2, speed_m_s: 3.5, altitude_m: 103 });
+    await vi.advanceTimersByTimeAsync(0);
+    // ~11 m from the last sent position
+    publisher.publish("d", { latitude: 0.0001, heading_deg: 4, speed_m_s: 4.5 });
+    await vi.advanceTimersByTimeAsync(0);
+    publisher.publish("d", { speed_m_s: 4.6 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls.map((call) => call.telemetry)).toEqual([
+      { latitude: 0, longitude: 0, heading_deg: 358, speed_m_s: 3, altitude_m: 100 },
+      { altitude_m: 103 },
+      { latitude: 0.0001, longitude: 0, heading_deg: 4, speed_m_s: 4.5 },
+    ]);
+  });
+
+  it("keeps failed fields pending and retries them after the interval", async () => {
+    const { sink, calls, failNextCalls } = createSink();
+    const publisher = new TelemetryPublisher(sink, { intervalMs: 500 });
+    const errors: unknown[] = [];
+    publisher.on("error", (event) => errors.push(event));
+
+    failNextCalls(1);
+    publisher.publish("d", { latitude: 1, longitude: 2 });
+    await vi.advanceTimersByTimeAsync(0);
+    publisher.publish("d", { heading_deg: 90 });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(errors).toEqual([
+      { entityId: "d", telemetry: { latitude: 1, longitude: 2 }, error: new Error("HTTP 503") },
+    ]);
+    expect(calls.map(({ telemetry, at }) => ({ telemetry, at }))).toEqual([
+      { telemetry: { latitude: 1, longitude: 2 }, at: 0 },
+      { telemetry: { latitude: 1, longitude: 2, heading_deg: 90 }, at: 500 },
+    ]);
+    expect(publisher.stats).toMatchObject({ sent: 1, failed: 1 });
+  });
+
+  it("retries failed fields and keeps sending when listeners throw", async () => {
+    const { sink, calls, failNextCalls } = createSink();
+    const publisher = new TelemetryPublisher(sink, { intervalMs: 500 });
+    const errors: unknown[] = [];
+    publisher.on("error", (event) => {
+      errors.push(event);
+      throw new Error("error listener broke");
+    });
+    publisher.on("sent", () => {
+      throw new Error("sent listener broke");
+    });
+
+    failNextCalls(1);
+    publisher.publish("d", { latitude: 1, longitude: 2 });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(calls.map(({ telemetry, at }) => ({ telemetry, at }))).toEqual([
+      { telemetry: { latitude: 1, longitude: 2 }, at: 0 },
+      { telemetry: { latitude: 1, longitude: 2 }, at: 500 },
+    ]);
+    expect(errors).toEqual([
+      { entityId: "d", telemetry: { latitude: 1, longitude: 2 }, error: new Error("HTTP 503") },
+      { entityId: "d", telemetry: { latitude: 1, longitude: 2 }, error: new Error("sent listener broke") },
+    ]);
+    expect(publisher.stats).toMatchObject({ sent: 1, failed: 1, queued: 0, inFlight: 0 });
+  });
+
+  it("bounds concurrency and reports backpressure until the queue drains", async () => {
+    const { sink, calls, pending, release } = createSink(false);
+    const publisher = new TelemetryPublisher(sink, { maxConcurrency: 2, backpressureThreshold: 2 });
+    const events: string[] = [];
+    publisher.on("backpressure", ({ queued, inFlight }) => events.push(`backpressure ${queued}/${inFlight}`));
+    publisher.on("drain", () => events.push("drain"));
+
+    expect(publisher.publish("a", { latitude: 1 })).toBe(true);
+    expect(publisher.publish("b", { latitude: 1 })).toBe(true);
+    expect(publisher.publish("c", { latitude: 1 })).toBe(true);
+    expect(publisher.publish("d", { latitude: 1 })).toBe(false);
+    expect(publisher.stats).toMatchObject({ queued: 2, inFlight: 2 });
+    expect(pending).toHaveLength(2);
+
+    await release();
+    expect(events).toEqual(["backpressure 2/2", "drain"]);
+    await release();
+    expect(calls.map((call) => call.entityId)).toEqual(["a", "b", "c", "d"]);
+    expect(publisher.stats).toMatchObject({ queued: 0, inFlight: 0, sent: 4 });
+  });
+
+  it("flushes pending fixes on close and rejects later publishes", async () => {
+    const { sink, calls } = createSink();
+    const publisher = new TelemetryPublisher(sink, { intervalMs: (id) => (id === "slow" ? 60_000 : 1000) });
+
+    publisher.publish("slow", { latitude: 1 });
+    publisher.publish("fast", { latitude: 1 });
+    await vi.advanceTimersByTimeAsync(0);
+    publisher.publish("slow", { latitude: 2 });
+    publisher.publish("fast", { latitude: 2 });
+    await vi.advanceTimersByTimeAsync(1000);
+    publisher.publish("slow", { latitude: 3 });
+
+    await publisher.close();
+
+    expect(calls.map((call) => [call.entityId, call.telemetry.latitude])).toEqual([
+      ["slow", 1],
+      ["fast", 1],
+      ["fast", 2],
+      ["slow", 3],
+    ]);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(() => publisher.publish("slow", { latitude: 4 })).toThrow(/after close/);
+  });
+});
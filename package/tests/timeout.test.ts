@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasTimeoutError } from "../src/errors.js";
+
+/** A fetch that never settles and ignores its signal, like a wedged proxy. */
+const hangingFetch = () => new Promise<Response>(() => {});
+
+describe("AtlasHttpClient timeouts", () => {
+  it("applies the client-wide timeoutMs", async () => {
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: hangingFetch,
+      timeoutMs: 20,
+    });
+    const error = await client.getEntity("e1").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AtlasTimeoutError);
+    expect((error as AtlasTimeoutError).timeoutMs).toBe(20);
+  });
+
+  it("lets a per-call timeoutMs override the client default", async () => {
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: hangingFetch,
+      timeoutMs: 60_000,
+    });
+    await expect(client.downloadObject("obj-1", { timeoutMs: 10 })).rejects.toBeInstanceOf(
+      AtlasTimeoutError,
+    );
+  });
+
+  it("covers retry backoff, not just a single attempt", async () => {
+    let attempts = 0;
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () => {
+        attempts += 1;
+        return new Response("down", { status: 503 });
+      },
+      retry: { initialDelayMs: 60_000, jitter: "none" },
+    });
+    await expect(client.listEntities(10, 0, { timeoutMs: 20 })).rejects.toBeInstanceOf(
+      AtlasTimeoutError,
+    );
+    expect(attempts).toBe(1);
+  });
+
+  it("shares one deadline across compound operations", async () => {
+    const signals: Array<AbortSignal | undefined> = [];
+    const fetchImpl = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+      signals.push(init?.signal ?? undefined);
+      const path = new URL(typeof input === "string" ? input : input.toString()).pathname;
+      if (path === "/objects/obj-1") {
+        return new Response(
+          JSON.stringify({ object_id: "obj-1", referenced_by: [{ entity_id: "e1" }] }),
+        );
+      }
+      return hangingFetch();
+    };
+    const client = new AtlasHttpClient({ baseUrl: "http://atlas.local", fetchImpl });
+    await expect(
+      client.validateObjectReferences("obj-1", { timeoutMs: 20 }),
+    ).rejects.toBeInstanceOf(AtlasTimeoutError);
+    expect(signals).toHaveLength(2);
+    expect(signals[0]).toBe(signals[1]);
+    expect(signals[0]?.aborted).toBe(true);
+  });
+});
+
+describe("AtlasHttpClient abort signals", () => {
+  it("passes the signal to fetchImpl and rejects with the abort reason", async () => {
+    let received: AbortSignal | undefined;
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: (_input, init) => {
+        received = init?.signal ?? undefined;
+        return hangingFetch();
+      },
+    });
+    const controller = new AbortController();
+    const pending = client.getFullDataset({ entityLimit: 10 }, { signal: controller.signal });
+    controller.abort();
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).not.toBeInstanceOf(AtlasTimeoutError);
+    expect((error as Error).name).toBe("AbortError");
+    expect(received?.aborted).toBe(true);
+  });
+
+  it("rejects immediately when the signal is already aborted", async () => {
+    let calls = 0;
+    const client = new AtlasHttpClient({
+      baseUrl: "http://atlas.local",
+      fetchImpl: async () => {
+        calls += 1;
+        return new Response(JSON.stringify({}));
+      },
+      timeoutMs: 1_000,
+    });
+    const controller = new AbortController();
+    controller.abort(new Error("shutting down"));
+    await expect(
+      client.getChangedSince("2025-01-01T00:00:00Z", 10, undefined, { signal: controller.signal }),
+    ).rejects.toThrow("shutting down");
+    expect(calls).toBe(0);
+  });
+});
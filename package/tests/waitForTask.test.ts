@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { AtlasHttpClient } from "../src/httpClient.js";
+import { AtlasNotFoundError, AtlasTaskFailedError, AtlasTaskTimeoutError } from "../src/errors.js";
+import type { TaskProgressComponent } from "../src/types/components.js";
+import { AtlasFakeServer } from "../src/testing/index.js";
+
+const setup = (taskIds: string[]) => {
+  const server = new AtlasFakeServer();
+  const client = new AtlasHttpClient({ baseUrl: server.baseUrl, fetchImpl: server.fetch });
+  server.seed({ tasks: taskIds.map((task_id) => ({ task_id })) });
+  return { server, client };
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("waitForTask", () => {
+  it("resolves with the completed task and reports each progress change", async () => {
+    const { client } = setup(["t1"]);
+    const progress: TaskProgressComponent[] = [];
+    const done = client.waitForTask("t1", {
+      pollIntervalMs: 5,
+      onProgress: (update) => progress.push(update),
+    });
+
+    await client.acknowledgeTask("t1");
+    await client.transitionTaskStatus("t1", "in_progress", { progress: 40, message: "en route" });
+    await sleep(20);
+    await client.transitionTaskStatus("t1", "in_progress", { progress: 90 });
+    await sleep(20);
+    await client.completeTask("t1", { arrived: true });
+
+    await expect(done).resolves.toMatchObject({ status: "completed", extra: { result: { arrived: true } } });
+    expect(progress.map(({ percent, status_detail }) => [percent, status_detail])).toEqual([
+      [40, "en route"],
+      [90, "en route"],
+    ]);
+  });
+
+  it("rejects with the server's error when the task fails or is cancelled", async () => {
+    const { client } = setup(["t1", "t2"]);
+    await client.failTask("t1", "Calibration failed", { code: "CAL-01" });
+    await client.updateTask("t2", undefined, { status: "cancelled" });
+
+    const failed = await client.waitForTask("t1").catch((error: unknown) => error);
+    expect(failed).toBeInstanceOf(AtlasTaskFailedError);
+    expect(failed).toMatchObject({
+      message: "Task t1 failed: Calibration failed",
+      taskId: "t1",
+      status: "failed",
+      errorMessage: "Calibration failed",
+      errorDetails: { code: "CAL-01" },
+    });
+    await expect(client.waitForTask("t2")).rejects.toThrow("Task t2 was cancelled");
+  });
+
+  it("reads the message of a task failed with the TaskFail fields", async () => {
+    const { server, client } = setup(["t1"]);
+    await server.fetch(`${server.baseUrl}/tasks/t1/fail`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ error_message: "Battery low", error_details: { level: 3 } }),
+    });
+    expect(server.tasks.get("t1")?.extra).toEqual({
+      error: { message: "Battery low", details: { level: 3 } },
+    });
+
+    const error = new AtlasTaskFailedError({
+      task_id: "t2",
+      status: "failed",
+      components: {},
+      metadata: {},
+      extra: { error_message: "Battery low" },
+    });
+    expect(error).toMatchObject({ message: "Task t2 failed: Battery low", errorMessage: "Battery low" });
+    expect(error.errorDetails).toBeUndefined();
+  });
+
+  it("keeps waiting through transient failures and rejects on final ones", async () => {
+    const { server, client } = setup(["t1", "t2", "t3"]);
+    server.inject({ method: "GET", path: "/tasks/t1", status: 503, times: 2 });
+    server.inject({ method: "GET", path: "/tasks/t2", drop: "request" });
+    const single = client.waitForTask("t1", { pollIntervalMs: 5 });
+    await sleep(30);
+    expect(server.callsTo("GET", "/tasks/t1").length).toBeGreaterThanOrEqual(3);
+    await client.completeTask("t1");
+    await expect(single).resolves.toMatchObject({ status: "completed" });
+
+    server.inject({ method: "GET", path: "/queries/changed-since", status: 502, times: 3 });
+    const bulk = Promise.allSettled(
+      ["t2", "t3", "missing"].map((id) => client.waitForTask(id, { pollIntervalMs: 5 })),
+    );
+    await sleep(30);
+    await client.completeTask("t2");
+    await client.completeTask("t3");
+
+    const [t2, t3, missing] = await bulk;
+    expect(t2).toMatchObject({ status: "fulfilled", value: { status: "completed" } });
+    expect(t3).toMatchObject({ status: "fulfilled", value: { status: "completed" } });
+    expect(missing).toMatchObject({ status: "rejected", reason: expect.any(AtlasNotFoundError) });
+  });
+
+  it("times out with the last seen task, or stops early on `until`", async () => {
+    const { client } = setup(["t1"]);
+    await client.acknowledgeTask("t1");
+
+    const timeout = await client
+      .waitForTask("t1", { timeoutMs: 30, pollIntervalMs: 5 })
+      .catch((error: unknown) => error);
+    expect(timeout).toBeInstanceOf(AtlasTaskTimeoutError);
+    expect(timeout).toMatchObject({
+      message: "Task t1 did not finish within 30ms (last status: acknowledged)",
+      task: { status: "acknowledged" },
+    });
+
+    const started = client.waitForTask("t1", {
+      pollIntervalMs: 5,
+      until: (task) => task.status === "in_progress",
+    });
+    await client.transitionTaskStatus("t1", "in_progress");
+    await expect(started).resolves.toMatchObject({ task_id: "t1", status: "in_progress" });
+  });
+
+  it("polls changed-since instead of every task when many are awaited", async () => {
+    const ids = ["t1", "t2", "t3", "t4"];
+    const { server, client } = setup(ids);
+    const waits = ids.map((id) => client.waitForTask(id, { pollIntervalMs: 5 }));
+
+    await sleep(30);
+    const getTasks = server.callsTo("GET", /^\/tasks\//).length;
+    for (const id of ids) await client.completeTask(id);
+
+    const tasks = await Promise.all(waits);
+    expect(tasks.map((task) => task.status)).toEqual(["completed", "completed", "completed", "completed"]);
+    // One initial fetch per task, after which only changed-since polls run.
+    expect(getTasks).toBe(ids.length);
+    expect(server.callsTo("GET", /^\/tasks\//)).toHaveLength(ids.length);
+    expect(server.callsTo("GET", "/queries/changed-since").length).toBeGreaterThan(2);
+  });
+
+  it("rejects when an awaited task is deleted and honours abort signals", async () => {
+    const ids = ["t1", "t2", "t3"];
+    const { client } = setup(ids);
+    const controller = new AbortController();
+    const waits = ids.map((id) =>
+      client.waitForTask(id, { pollIntervalMs: 5, signal: id === "t3" ? controller.signal : undefined }),
+    );
+
+    await sleep(20);
+    await client.deleteTask("t1");
+    controller.abort(new Error("operator gave up"));
+    await client.completeTask("t2");
+
+    const [deleted, completed, aborted] = await Promise.allSettled(waits);
+    expect(deleted).toMatchObject({ status: "rejected", reason: expect.any(AtlasNotFoundError) });
+    expect(completed).toMatchObject({ status: "fulfilled", value: { task_id: "t2" } });
+    expect(aborted).toMatchObject({ status: "rejected", reason: new Error("operator gave up") });
+  });
+});